@@ -1,7 +1,16 @@
-import React from 'react';
+import React, { useState } from 'react';
 import GameLogic from './components/GameLogic';
+import LevelEditor from './components/LevelEditor';
+import { LevelDefinition } from './types';
 
 export default function App() {
+  const [screen, setScreen] = useState<'GAME' | 'EDITOR'>('GAME');
+  // Set while playtesting a level from the editor instead of playing the campaign
+  const [playtestLevel, setPlaytestLevel] = useState<LevelDefinition | null>(null);
+
+  const openEditor = () => { setPlaytestLevel(null); setScreen('EDITOR'); };
+  const playtest = (level: LevelDefinition) => { setPlaytestLevel(level); setScreen('GAME'); };
+
   return (
     // Alterado h-screen para h-[100dvh] para suportar barras de navegação mobile corretamente
     // Adicionado p-4 (mobile) e p-8 (desktop) para "diminuir" a tela do jogo e criar margem de segurança
@@ -23,7 +32,9 @@ export default function App() {
           aspectRatio: '16/9'
         }}
       >
-        <GameLogic />
+        {screen === 'EDITOR'
+          ? <LevelEditor onPlaytest={playtest} onExit={() => setScreen('GAME')} />
+          : <GameLogic playtestLevel={playtestLevel} onOpenEditor={openEditor} />}
       </div>
       
       {/* Informações de versão ocultas em telas pequenas para limpar a visão */}
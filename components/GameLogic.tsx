@@ -1,27 +1,32 @@
 import React, { useEffect, useRef } from 'react';
-import { 
-  EntityType, GameStatus, GameState, 
-  PlayerEntity, EnemyEntity, ArrowEntity, TrapEntity, ParticleEntity, PlatformEntity, DoorEntity, CageEntity, DogEntity, DuckEntity, MeatEntity, PowerUpEntity, FloatingTextEntity, CrowEntity, BushEntity, RabbitEntity,
-  EnemyTier, Entity
-} from '../types';
-import { playSound } from '../utils/audio';
-
-// --- ENGINE CONFIG ---
-const GRAVITY = 0.5;
-const FRICTION = 0.85;
-const JUMP_FORCE = -12;
-const MOVEMENT_SPEED = 0.8;
-const RPG_MOVEMENT_SPEED = 3.5;
-const MAX_SPEED = 5;
-const ARROW_SPEED = 18;
-const NET_SPEED = 12;
-const ARROW_GRAVITY = 0.25;
-const NET_GRAVITY = 0.4;
-const TRAP_COOLDOWN_FRAMES = 120;
-const DASH_COOLDOWN_FRAMES = 60;
-const DASH_SPEED = 15;
-const CANVAS_WIDTH = 960;
-const CANVAS_HEIGHT = 540;
+import { GameStatus, DogEntity, EnemyTier, InputFrame, LevelDefinition, RunSnapshot, Settings, Vector2 } from '../types';
+import { SoundName, playSound } from '../utils/audio';
+import { drawCreature } from '../utils/creatureSprites';
+import { drawPlatform, drawWater } from '../utils/platformSprites';
+import { campaignLevels, emitPluginEvent, loadedPlugins, pickPlugin } from '../utils/plugins';
+import { createFrameTimings, drawDebugOverlay, recordTimings } from '../utils/debugOverlay';
+import { ConsoleCommand, createDevConsole, drawDevConsole, handleConsoleKey, runCommand, toggleConsole } from '../utils/devConsole';
+import { downloadJson, pickTextFile } from '../utils/files';
+import { MenuItem, drawMenu, menuItemAt, moveSelection } from '../utils/menu';
+import { createGamepadPoller, PAD_A, PAD_B, PAD_X, PAD_Y, PAD_START, PAD_UP, PAD_DOWN, PAD_LEFT, PAD_RIGHT } from '../utils/gamepad';
+import { loadSave, writeSave } from '../utils/save';
+import { HighScoreEntry, addHighScore, loadHighScores, qualifiesForHighScore, rankOf } from '../utils/highScores';
+import {
+  InitialsEntry, createInitialsEntry, cycleLetter, drawInitialsEntry, initialsHitAt, initialsText, isLastSlot, moveCursor, typeLetter
+} from '../utils/initialsEntry';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, DIFFICULTY, GAME_VERSION, TICK_MS, TICK_RATE, MAX_CATCH_UP_TICKS, BUSH_BURN_TICKS, TRAP_ARM_TICKS, BOSS_DEATH_TICKS } from '../engine/constants';
+import { createSimulation, EMPTY_INPUT } from '../engine/simulation';
+import { getPowerUpDefinition, hasPowerUp, powerUpDefinitions } from '../engine/powerups';
+import { creatureKinds } from '../engine/creatures';
+import { onAny } from '../engine/events';
+import { createPositionSnapshot, snapshotPositions, renderInterpolated, interpolatePoint } from '../engine/interpolation';
+import { levelSize } from '../engine/levels';
+import type { Pool } from '../engine/pool';
+import { dailySeed, parseSeed, randomSeed } from '../engine/random';
+import {
+  ReplayFile, ReplayPlayer, ReplayRecorder,
+  createReplayPlayer, createReplayRecorder, finishReplay, nextReplayFrame, parseReplay, recordFrame
+} from '../engine/replay';
 
 // --- UI CONSTANTS ---
 const LEFT_STICK_X = 120;
@@ -42,49 +47,64 @@ const WHISTLE_BTN_RADIUS = 35;
 const DASH_BTN_X = CANVAS_WIDTH - 270;
 const DASH_BTN_Y = BUTTON_Y;
 const DASH_BTN_RADIUS = 40; 
-
-const GameLogic: React.FC = () => {
+const PAUSE_BTN_X = CANVAS_WIDTH / 2;
+const PAUSE_BTN_Y = 30;
+const PAUSE_BTN_RADIUS = 20;
+const PAUSE_BTN_HIT_RADIUS = 35;
+
+const REPLAY_FAST_FORWARD = 4; // Ticks per frame while fast-forwarding a replay
+
+const CONTINUE_Y = 90; // "Continue" line on the title screen, also its tap target
+const CONTINUE_HIT_HALF_WIDTH = 260;
+const SCORES_BTN_X = CANVAS_WIDTH - 110; // "High scores" button on the title screen (center)
+const SCORES_BTN_Y = 30;
+const SCORES_BTN_WIDTH = 180;
+const SCORES_BTN_HEIGHT = 36;
+
+interface GameLogicProps {
+  playtestLevel?: LevelDefinition | null; // Play just this level, then return to the editor
+  onOpenEditor: () => void;
+}
+
+const GameLogic: React.FC<GameLogicProps> = ({ playtestLevel = null, onOpenEditor }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
 
-  // --- STATE ---
-  const state = useRef<GameState>({
-    status: GameStatus.MENU,
-    level: 1,
-    score: 0,
-    lives: 3, 
-    waveProgress: 0,
-    maxWaves: 5,
-    enemiesKilled: 0,
-    enemiesRequired: 4,
-    isRaining: false,
-    lightningTimer: 0,
-    floodLevel: 0
-  });
+  // --- SAVE GAME ---
+  const initialSave = useRef(loadSave()).current;
+  const settings = useRef<Settings>(initialSave.settings);
+  // Run offered by "Continue": the start of the last level reached
+  const savedRun = useRef<RunSnapshot | null>(initialSave.run);
 
-  const entities = useRef<{
-    player: PlayerEntity | null;
-    enemies: EnemyEntity[];
-    crows: CrowEntity[]; 
-    arrows: ArrowEntity[];
-    traps: TrapEntity[];
-    particles: ParticleEntity[];
-    platforms: PlatformEntity[];
-    door: DoorEntity | null;
-    cages: CageEntity[];
-    dog: DogEntity | null;
-    ducks: DuckEntity[]; 
-    meats: MeatEntity[]; 
-    powerups: PowerUpEntity[];
-    floatingTexts: FloatingTextEntity[];
-    rainDrops: {x: number, y: number, speed: number, length: number}[];
-    bushes: BushEntity[];
-    rabbits: RabbitEntity[];
-  }>({ 
-      player: null, enemies: [], crows: [], arrows: [], traps: [], particles: [], platforms: [], 
-      door: null, cages: [], dog: null, ducks: [], meats: [], powerups: [], floatingTexts: [], rainDrops: [],
-      bushes: [], rabbits: []
+  const persist = () => { writeSave(savedRun.current, settings.current); };
+
+  // Auto-save at every level start of a live run (not replays or playtests)
+  const saveLevelStart = () => {
+    if (playtestLevel || replay.current.player || debug.current.cheated) return;
+    savedRun.current = sim.current.snapshotRun();
+    persist();
+  };
+
+  // --- SIMULATION ---
+  const simulationOptions = () => ({
+    onSound: (type: SoundName) => { if (settings.current.sound) playSound(type); },
+    onLevelStart: () => saveLevelStart(),
+    levels: playtestLevel ? [playtestLevel] : campaignLevels()
   });
+  const createGameSimulation = () => {
+    const simulation = createSimulation(simulationOptions());
+    onAny(simulation.events, emitPluginEvent);
+    return simulation;
+  };
+  const sim = useRef(createGameSimulation());
+
+  // --- PLUGINS ---
+  // The campaign is fixed when the simulation is created, so it is rebuilt to pick up a plugin's levels
+  const loadPlugin = () => {
+    pickPlugin().then(plugin => {
+      if (plugin && !plugin.error && sim.current.world.state.status === GameStatus.MENU) sim.current = createGameSimulation();
+    });
+  };
 
   const input = useRef({
     keys: new Set<string>(),
@@ -95,13 +115,13 @@ const GameLogic: React.FC = () => {
       trapBtnPressed: false,
       whistleBtnPressed: false,
       dashBtnPressed: false 
-    }
+    },
+    fire: false,
+    restartLevel: false
   });
 
-  const engine = useRef({
-    shake: 0,
-    spawnTimer: 0,
-    frameCount: 0,
+  // Purely cosmetic background state, never touched by the simulation
+  const scenery = useRef({
     clouds: Array.from({ length: 5 }, (_, i) => ({
         x: Math.random() * CANVAS_WIDTH,
         y: Math.random() * 150,
@@ -117,1067 +137,448 @@ const GameLogic: React.FC = () => {
     }))
   });
 
-  const isTopDown = () => state.current.level === 3;
+  // Seed typed on the menu / game-over screens. Empty means a fresh random seed per run.
+  const seedEntry = useRef({ text: '', daily: false });
 
-  // --- HELPERS ---
-  const spawnFloatingText = (x: number, y: number, text: string, color: string) => {
-    entities.current.floatingTexts.push({
-      id: Math.random(),
-      type: EntityType.FLOATING_TEXT,
-      x, y, width: 0, height: 0, vx: 0, vy: -1,
-      grounded: false, markedForDeletion: false,
-      text, color, lifeTime: 60, opacity: 1
-    });
+  const chooseSeed = () => {
+    if (seedEntry.current.daily) return dailySeed();
+    return parseSeed(seedEntry.current.text) ?? randomSeed();
   };
 
-  const spawnParticles = (x: number, y: number, color: string, count: number, speed: number = 1) => {
-    for (let i = 0; i < count; i++) {
-      entities.current.particles.push({
-        id: Math.random(),
-        type: EntityType.PARTICLE,
-        x, y, width: 4, height: 4,
-        vx: (Math.random() - 0.5) * 5 * speed,
-        vy: (Math.random() - 0.5) * 5 * speed,
-        grounded: false, markedForDeletion: false,
-        color, lifeTime: 30 + Math.random() * 20, size: Math.random() * 3 + 1
-      });
-    }
-  };
+  // --- REPLAYS ---
+  const replay = useRef({
+    recorder: null as ReplayRecorder | null,
+    last: null as ReplayFile | null,     // Latest finished run, available for export
+    player: null as ReplayPlayer | null, // Set while watching a replay instead of playing
+    paused: false,
+    fastForward: false,
+    stepRequested: false,
+    error: ''
+  });
 
-  const checkCollision = (r1: Entity, r2: Entity) => {
-    return (
-      r1.x < r2.x + r2.width &&
-      r1.x + r1.width > r2.x &&
-      r1.y < r2.y + r2.height &&
-      r1.y + r1.height > r2.y
-    );
-  };
+  // Frame most recently fed to the simulation (live or replayed), used for drawing controls
+  const lastFrame = useRef<InputFrame>(EMPTY_INPUT);
+  // Camera position used for drawing, interpolated between ticks
+  const view = useRef<Vector2>({ x: 0, y: 0 });
 
-  // --- INIT & LEVELS ---
   const initGame = () => {
-    state.current = {
-      status: GameStatus.PLAYING,
-      level: 1,
-      score: 0,
-      lives: 3, 
-      waveProgress: 0,
-      maxWaves: 5,
-      enemiesKilled: 0,
-      enemiesRequired: 4,
-      isRaining: false,
-      lightningTimer: 0,
-      floodLevel: 0
-    };
-    entities.current.dog = null;
-    startLevel(1);
+    const seed = chooseSeed();
+    replay.current.player = null;
+    // Replays don't store the level data, so playtests aren't recorded
+    replay.current.recorder = playtestLevel ? null : createReplayRecorder(seed, sim.current.levels);
+    debug.current.cheated = sim.current.cheats.god;
+    sim.current.initGame(seed);
   };
 
-  const startLevel = (level: number) => {
-    state.current.level = level;
-    state.current.waveProgress = 0;
-    state.current.enemiesKilled = 0;
-    state.current.enemiesRequired = level === 1 ? 4 : 4 + (level * 2); 
-    state.current.isRaining = level === 2 || level === 4 || level === 5; // Rain in level 4 now
-    state.current.floodLevel = 0; // Reset flood
-
-    entities.current.enemies = [];
-    entities.current.crows = [];
-    entities.current.arrows = [];
-    entities.current.traps = [];
-    entities.current.particles = [];
-    entities.current.platforms = [];
-    entities.current.cages = [];
-    entities.current.ducks = [];
-    entities.current.meats = [];
-    entities.current.powerups = [];
-    entities.current.floatingTexts = [];
-    entities.current.rainDrops = [];
-    entities.current.bushes = [];
-    entities.current.rabbits = [];
-    entities.current.door = null;
-
-    if (state.current.isRaining) {
-        for(let i=0; i<100; i++) {
-            entities.current.rainDrops.push({
-                x: Math.random() * CANVAS_WIDTH,
-                y: Math.random() * CANVAS_HEIGHT,
-                speed: 15 + Math.random() * 10,
-                length: 10 + Math.random() * 10
-            });
-        }
-    }
-    
-    generateLevel(level);
-
-    if (entities.current.dog) {
-        entities.current.dog.x = 50;
-        entities.current.dog.y = isTopDown() ? CANVAS_HEIGHT/2 : CANVAS_HEIGHT - 100;
-        entities.current.dog.vx = 0;
-        entities.current.dog.vy = 0;
-        entities.current.dog.state = 'IDLE';
-        entities.current.dog.aggroTimer = 0;
-        entities.current.dog.target = null;
-    } else if (level === 3) {
-        // Fallback if dog wasn't saved/found, auto give dog in RPG level
-        entities.current.dog = {
-            id: 777,
-            type: EntityType.DOG,
-            x: 100, y: CANVAS_HEIGHT / 2,
-            width: 32, height: 24,
-            vx: 0, vy: 0,
-            grounded: false, markedForDeletion: false,
-            facingRight: true,
-            state: 'IDLE',
-            target: null,
-            barkTimer: 0,
-            tongueOut: false,
-            animTimer: 0,
-            aggroTimer: 0,
-            healTimer: 0
-        };
-    }
-
-    entities.current.player = {
-      id: 0,
-      type: EntityType.PLAYER,
-      x: 50,
-      y: CANVAS_HEIGHT - 100,
-      width: 24,
-      height: 48,
-      vx: 0,
-      vy: 0,
-      grounded: false,
-      markedForDeletion: false,
-      facingRight: true,
-      health: 100,
-      maxHealth: 100,
-      aimAngle: 0,
-      isAiming: false,
-      trapCooldown: 0,
-      animTimer: 0,
-      powerUpTimer: 0,
-      dashTimer: 0,
-      isDashing: false,
-      invulnerableTimer: 0
-    };
-
-    if (isTopDown()) {
-        entities.current.player.x = 50;
-        entities.current.player.y = CANVAS_HEIGHT / 2;
-    }
-
-    engine.current.spawnTimer = 0;
+  // Replays start from level 1, so a continued run isn't recorded
+  const continueGame = () => {
+    const run = savedRun.current;
+    if (!run || playtestLevel) return;
+    replay.current.player = null;
+    replay.current.recorder = null;
+    debug.current.cheated = sim.current.cheats.god;
+    sim.current.continueGame(run);
   };
 
-  const spawnBushesAndRabbits = () => {
-      // EXACTLY 9 RABBITS
-      for(let i=0; i<9; i++) {
-          // Keep strictly within screen bounds with margin
-          const margin = 100;
-          const x = margin + Math.random() * (CANVAS_WIDTH - margin * 2);
-          const y = margin + Math.random() * (CANVAS_HEIGHT - margin * 2);
-          
-          entities.current.bushes.push({
-              id: Math.random(), type: EntityType.BUSH, x, y, width: 40, height: 30,
-              vx: 0, vy: 0, grounded: true, markedForDeletion: false, hasRabbit: true, shakeTimer: 0
-          });
-          entities.current.rabbits.push({
-              id: Math.random(), type: EntityType.RABBIT, x: x + 10, y: y + 10, width: 16, height: 16,
-              vx: 0, vy: 0, grounded: true, markedForDeletion: false, state: 'HIDDEN', isHidden: true, facingRight: true, fleeTimer: 0, health: 1
-          });
-      }
+  const watchReplay = (file: ReplayFile) => {
+    const r = replay.current;
+    const player = createReplayPlayer(file, sim.current.levels);
+    r.recorder = null;
+    r.player = player;
+    r.paused = false;
+    r.fastForward = false;
+    r.error = '';
+    sim.current.initGame(file.seed);
   };
 
-  const generateLevel = (level: number) => {
-    const platforms = entities.current.platforms;
-    if (level === 3) {
-        spawnBushesAndRabbits();
-        state.current.enemiesRequired = 9; // 9 Rabbits to catch
-    } else {
-        if (level === 1) {
-           platforms.push({ id: 1, type: EntityType.PLATFORM, x: 200, y: 400, width: 200, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-           platforms.push({ id: 2, type: EntityType.PLATFORM, x: 500, y: 300, width: 200, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-           platforms.push({ id: 3, type: EntityType.PLATFORM, x: 800, y: 200, width: 100, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-        } else if (level === 2) {
-            platforms.push({ id: 1, type: EntityType.PLATFORM, x: 100, y: 400, width: 100, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-            platforms.push({ id: 2, type: EntityType.PLATFORM, x: 300, y: 350, width: 400, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-            platforms.push({ id: 3, type: EntityType.PLATFORM, x: 800, y: 400, width: 100, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-            if (!entities.current.dog) {
-                // Cage spawn logic
-                entities.current.cages.push({ id: 888, type: EntityType.CAGE, x: 600, y: 290, width: 40, height: 60, vx: 0, vy: 0, grounded: true, markedForDeletion: false, health: 3 });
-            }
-        } else if (level === 4) {
-            // "THE RISING TIDE" - Verticality Focus
-            // Bottom platform (starting area - soon to be flooded)
-            platforms.push({ id: 1, type: EntityType.PLATFORM, x: 20, y: 450, width: 200, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-            
-            // Zig-zag pattern going up
-            platforms.push({ id: 2, type: EntityType.PLATFORM, x: 300, y: 380, width: 150, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-            platforms.push({ id: 3, type: EntityType.PLATFORM, x: 600, y: 320, width: 150, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-            platforms.push({ id: 4, type: EntityType.PLATFORM, x: 200, y: 250, width: 120, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-            platforms.push({ id: 5, type: EntityType.PLATFORM, x: 50, y: 150, width: 100, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-            
-            // The peak
-            platforms.push({ id: 6, type: EntityType.PLATFORM, x: 500, y: 100, width: 400, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-
-            // Ensure more crows
-            state.current.enemiesRequired = 8;
-        } else {
-            platforms.push({ id: 1, type: EntityType.PLATFORM, x: 100, y: 350, width: 200, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-            platforms.push({ id: 2, type: EntityType.PLATFORM, x: 660, y: 350, width: 200, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-            platforms.push({ id: 3, type: EntityType.PLATFORM, x: 380, y: 200, width: 200, height: 20, vx: 0, vy: 0, grounded: true, markedForDeletion: false });
-        }
-    }
-
-    const doorX = level % 2 === 0 ? 50 : CANVAS_WIDTH - 80;
-    const doorY = level === 4 ? 36 : CANVAS_HEIGHT - 32 - 64; // Level 4 door is high up!
-    entities.current.door = {
-        id: 999, type: EntityType.DOOR, x: level === 4 ? 850 : doorX, y: doorY, width: 40, height: 64, vx: 0, vy: 0, grounded: true, markedForDeletion: false, isOpen: false
-    };
+  const stopReplay = () => {
+    replay.current.player = null;
+    sim.current.quitToMenu();
   };
 
-  const nextLevel = () => {
-    if (state.current.level >= state.current.maxWaves) {
-      state.current.status = GameStatus.VICTORY;
-      playSound('win');
-    } else {
-      state.current.status = GameStatus.LEVEL_TRANSITION;
-      playSound('win'); 
-      setTimeout(() => {
-        startLevel(state.current.level + 1);
-        state.current.status = GameStatus.PLAYING;
-      }, 3000);
-    }
+  const exportReplay = () => {
+    const last = replay.current.last;
+    if (last) downloadJson(`hunter-replay-${last.seed}.json`, last);
   };
 
-  const handlePlayerDeath = () => {
-      state.current.lives--;
-      playSound('explosion');
-      if (state.current.lives > 0) {
-          spawnFloatingText(entities.current.player!.x, entities.current.player!.y - 20, "TRY AGAIN!", "#fde047");
-          engine.current.shake = 10;
-          setTimeout(() => {
-              if (state.current.status === GameStatus.PLAYING) startLevel(state.current.level); 
-          }, 500);
-      } else {
-          setGameOver();
+  const importReplay = () => {
+    pickTextFile('.json,application/json').then(text => {
+      if (text === null) return;
+      try {
+        watchReplay(parseReplay(text));
+      } catch (err) {
+        replay.current.error = (err as Error).message;
       }
+    });
   };
 
-  const setGameOver = () => {
-    state.current.status = GameStatus.GAME_OVER;
-    playSound('explosion');
+  const handleReplayKey = (e: KeyboardEvent) => {
+    const r = replay.current;
+    if (e.code === 'Escape') stopReplay();
+    else if (e.code === 'Space' || e.code === 'KeyP') r.paused = !r.paused;
+    else if (e.code === 'KeyF') r.fastForward = !r.fastForward;
+    else if ((e.code === 'Period' || e.code === 'ArrowRight') && r.paused) r.stepRequested = true;
   };
 
-  const spawnDog = (x: number, y: number) => {
-      entities.current.dog = {
-          id: 777,
-          type: EntityType.DOG,
-          x: x, y: y,
-          width: 32, height: 24,
-          vx: 0, vy: 0,
-          grounded: false, markedForDeletion: false,
-          facingRight: true,
-          state: 'IDLE',
-          target: null,
-          barkTimer: 0,
-          tongueOut: false,
-          animTimer: 0,
-          aggroTimer: 0,
-          healTimer: 0
-      };
-      spawnParticles(x, y, '#fbbf24', 20, 2);
-      spawnFloatingText(x, y - 30, "FRIEND SAVED!", "#fbbf24");
-      playSound('bark');
+  // --- PAUSE MENU ---
+  const pauseMenu = useRef({ screen: 'MAIN' as 'MAIN' | 'SETTINGS', selected: 0 });
+  // Focus was lost between levels: pause as soon as the next level starts
+  const pauseWhenPlaying = useRef(false);
+
+  // Drop held keys and sticks so nothing stays "pressed" after focus comes back
+  const clearInputs = () => {
+    const { keys, mouse, touch } = input.current;
+    keys.clear();
+    mouse.leftDown = false;
+    touch.leftStick.active = false; touch.leftStick.x = 0; touch.leftStick.y = 0; touch.leftStick.touchId = null;
+    touch.rightStick.active = false; touch.rightStick.x = 0; touch.rightStick.y = 0; touch.rightStick.touchId = null;
+    touch.trapBtnPressed = false; touch.whistleBtnPressed = false; touch.dashBtnPressed = false;
+    input.current.fire = false;
   };
 
-  const fireArrow = (player: PlayerEntity) => {
-    const speed = ARROW_SPEED;
-    let vx = 0; 
-    let vy = 0;
-    
-    // Check if aiming via stick/mouse, OR just fire in facing direction
-    if (player.isAiming || input.current.mouse.leftDown || input.current.touch.rightStick.active) {
-        vx = Math.cos(player.aimAngle) * speed;
-        vy = Math.sin(player.aimAngle) * speed;
-    } else {
-        vx = player.facingRight ? speed : -speed;
-        vy = 0;
-    }
-
-    entities.current.arrows.push({
-        id: Math.random(),
-        type: EntityType.ARROW,
-        x: player.x + player.width / 2,
-        y: player.y + player.height / 2,
-        width: 24, height: 6, // Larger arrows for visibility
-        vx, vy,
-        grounded: false, markedForDeletion: false,
-        rotation: Math.atan2(vy, vx),
-        lifeTime: 120
-    });
-    
-    playSound('shoot');
+  const pauseGame = () => {
+    if (replay.current.player) return;
+    const status = sim.current.world.state.status;
+    if (status === GameStatus.LEVEL_TRANSITION) pauseWhenPlaying.current = true;
+    if (status !== GameStatus.PLAYING) return;
+    pauseWhenPlaying.current = false;
+    sim.current.pause();
+    clearInputs();
+    pauseMenu.current = { screen: 'MAIN', selected: 0 };
   };
 
-  const fireNet = (player: PlayerEntity) => {
-    const speed = NET_SPEED;
-    let vx = player.facingRight ? speed : -speed;
-    let vy = -5;
-    if (player.isAiming) {
-            vx = Math.cos(player.aimAngle) * speed;
-            vy = Math.sin(player.aimAngle) * speed;
-    }
-    entities.current.traps.push({
-        id: Math.random(), type: EntityType.TRAP, x: player.x + player.width / 2, y: player.y + player.height / 2, width: 16, height: 16,
-        vx, vy, grounded: false, markedForDeletion: false, rotation: 0, state: 'FLYING'
-    });
+  const resumeGame = () => {
+    clearInputs();
+    sim.current.resume();
   };
 
-  // --- UPDATE LOOP ---
-  const update = () => {
-    engine.current.frameCount++;
-    if (state.current.status !== GameStatus.PLAYING) return;
-
-    // --- LEVEL 4 SPECIFIC: FLOOD LOGIC ---
-    if (state.current.level === 4) {
-        // Water rises slowly
-        state.current.floodLevel += 0.25;
-        const waterY = CANVAS_HEIGHT - state.current.floodLevel;
-        const player = entities.current.player;
-        
-        if (player && player.y + player.height > waterY) {
-            // Player is in water
-            if (engine.current.frameCount % 20 === 0) {
-                player.health -= 5;
-                spawnFloatingText(player.x, player.y - 20, "DROWNING!", "#3b82f6");
-                playSound('splash');
-                if (player.health <= 0) handlePlayerDeath();
-            }
-            // Major slow down in water
-            player.vx *= 0.5;
-            player.vy = Math.min(player.vy, 2); // Buoyancy/Resistance
-        }
-    }
-
-    if (state.current.isRaining) {
-        if (Math.random() < 0.005) { 
-            state.current.lightningTimer = 5;
-            playSound('explosion'); 
-        }
-        if (state.current.lightningTimer > 0) state.current.lightningTimer--;
-        entities.current.rainDrops.forEach(d => {
-            d.y += d.speed; d.x -= 2; 
-            if (d.y > CANVAS_HEIGHT) { d.y = -20; d.x = Math.random() * CANVAS_WIDTH; }
-        });
-    }
-
-    const player = entities.current.player;
-    if (!player) return;
-
-    if (entities.current.door) {
-        entities.current.door.isOpen = state.current.enemiesKilled >= state.current.enemiesRequired;
-    }
+  const quitToMenu = () => {
+    if (playtestLevel) { onOpenEditor(); return; }
+    replay.current.recorder = null;
+    pauseWhenPlaying.current = false;
+    clearInputs();
+    sim.current.quitToMenu();
+  };
 
-    let dx = 0;
-    let dy = 0;
-    let jump = false;
-    let throwNet = false;
-    let whistle = false;
-    let dash = false;
-    let shootCommand = false;
-    
-    if (input.current.keys.has('KeyA') || input.current.keys.has('ArrowLeft')) dx = -1;
-    if (input.current.keys.has('KeyD') || input.current.keys.has('ArrowRight')) dx = 1;
-    if (input.current.keys.has('KeyW') || input.current.keys.has('ArrowUp')) dy = -1; 
-    if (input.current.keys.has('KeyS') || input.current.keys.has('ArrowDown')) dy = 1; 
-    
-    if (input.current.keys.has('Space') || input.current.keys.has('ArrowUp')) jump = true;
-    if (input.current.keys.has('KeyT')) throwNet = true;
-    if (input.current.keys.has('KeyR')) whistle = true; 
-    if (input.current.keys.has('ShiftLeft')) dash = true;
-    
-    const mx = input.current.mouse.x;
-    const my = input.current.mouse.y;
-    // Mouse aiming
-    if (input.current.mouse.x !== 0 || input.current.mouse.y !== 0 && !input.current.touch.rightStick.active) {
-        player.aimAngle = Math.atan2(my - (player.y + 15), mx - (player.x + 12));
-    }
-    // Touch aiming logic
-    if (input.current.touch.rightStick.active) {
-        player.isAiming = true;
-        // Auto-fire when using right stick (Twin Stick style)
-        shootCommand = true;
+  const pauseItems = (): MenuItem[] => {
+    const menu = pauseMenu.current;
+    if (menu.screen === 'SETTINGS') {
+      const toggle = (key: keyof Settings) => () => { settings.current[key] = !settings.current[key]; persist(); };
+      const onOff = (value: boolean) => value ? 'ON' : 'OFF';
+      return [
+        { label: `SOUND: ${onOff(settings.current.sound)}`, action: toggle('sound') },
+        { label: `SCREEN SHAKE: ${onOff(settings.current.screenShake)}`, action: toggle('screenShake') },
+        { label: `TOUCH CONTROLS: ${onOff(settings.current.touchControls)}`, action: toggle('touchControls') },
+        { label: 'BACK', action: () => { pauseMenu.current = { screen: 'MAIN', selected: 2 }; } }
+      ];
     }
+    return [
+      { label: 'RESUME', action: resumeGame },
+      // Goes through the input frame so replays restart at the same tick
+      { label: 'RESTART LEVEL', action: () => { resumeGame(); input.current.restartLevel = true; } },
+      { label: 'SETTINGS', action: () => { pauseMenu.current = { screen: 'SETTINGS', selected: 0 }; } },
+      { label: 'QUIT TO MENU', action: quitToMenu }
+    ];
+  };
 
-    if (input.current.mouse.leftDown) shootCommand = true;
-
-    const { leftStick, rightStick, trapBtnPressed, whistleBtnPressed, dashBtnPressed } = input.current.touch;
-    if (trapBtnPressed) { throwNet = true; input.current.touch.trapBtnPressed = false; }
-    if (whistleBtnPressed) { whistle = true; input.current.touch.whistleBtnPressed = false; }
-    if (dashBtnPressed) { dash = true; input.current.touch.dashBtnPressed = false; }
-
-    if (leftStick.active) {
-      if (Math.abs(leftStick.x) > 10) dx = Math.sign(leftStick.x);
-      if (isTopDown()) {
-          if (Math.abs(leftStick.y) > 10) dy = Math.sign(leftStick.y);
-      } else {
-          if (leftStick.y < -30) jump = true;
-      }
-    }
-    
-    // Set aim angle from stick
-    if (rightStick.active) {
-      player.aimAngle = Math.atan2(rightStick.y, rightStick.x);
-    } 
+  const pauseBack = () => {
+    if (pauseMenu.current.screen === 'SETTINGS') pauseMenu.current = { screen: 'MAIN', selected: 2 };
+    else resumeGame();
+  };
 
-    if (isTopDown()) updateRPGPhysics(player, dx, dy, dash, whistle);
-    else updatePlatformerPhysics(player, dx, jump, dash);
+  const movePauseSelection = (delta: number) => {
+    pauseMenu.current.selected = moveSelection(pauseMenu.current.selected, delta, pauseItems().length);
+  };
 
-    if (entities.current.door && entities.current.door.isOpen) {
-        if (checkCollision(player, entities.current.door)) {
-            nextLevel();
-            return;
-        }
-    }
+  const activatePauseItem = (index: number) => {
+    const items = pauseItems();
+    if (index < 0 || index >= items.length) return;
+    pauseMenu.current.selected = index;
+    items[index].action();
+  };
 
-    if (player.powerUpTimer > 0) player.powerUpTimer--;
+  const handlePauseKey = (e: KeyboardEvent) => {
+    if (e.code === 'Escape' || e.code === 'KeyP') pauseBack();
+    else if (e.code === 'ArrowUp' || e.code === 'KeyW') movePauseSelection(-1);
+    else if (e.code === 'ArrowDown' || e.code === 'KeyS') movePauseSelection(1);
+    else if (e.code === 'Enter' || e.code === 'Space') activatePauseItem(pauseMenu.current.selected);
+  };
 
-    // SHOOTING LOGIC
-    if (shootCommand) {
-        const fireRate = player.powerUpTimer > 0 ? 10 : 20;
-        if (engine.current.frameCount % fireRate === 0) {
-            fireArrow(player);
-        }
-    }
+  const handlePausePointer = (x: number, y: number) => {
+    activatePauseItem(menuItemAt(x, y, pauseItems().length, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2));
+  };
 
-    if (player.trapCooldown > 0) player.trapCooldown--;
-    if (throwNet && player.trapCooldown <= 0) {
-      fireNet(player);
-      player.trapCooldown = TRAP_COOLDOWN_FRAMES;
-      playSound('jump'); 
-    }
+  // Pool usage readout, toggled with F2
+  const showTelemetry = useRef(false);
+
+  // --- DEBUG ---
+  // F3 toggles the overlay, backquote the console. Cheat commands drop the
+  // replay and keep the run off the high-score table and out of the save.
+  const debug = useRef({
+    overlay: false,
+    timings: createFrameTimings(),
+    console: createDevConsole(),
+    timeScale: 1,   // Multiplies real time fed to the fixed-step loop
+    cheated: false  // Reset when a run starts, unless god mode is still on
+  });
 
-    updateEnemies(player);
-    updateCrows(player);
-    updateDucks(whistle);
-    updateArrows();
-    updateNets();
-    updateParticles();
-    updateMeats(player);
-    updatePowerUps(player);
-    updateFloatingTexts();
-    if (entities.current.dog) updateDog(player, whistle);
-    if (isTopDown() && entities.current.dog) updateBushesAndRabbits(player, entities.current.dog);
+  const markCheated = () => {
+    debug.current.cheated = true;
+    replay.current.recorder = null;
   };
 
-  const updateRPGPhysics = (player: PlayerEntity, dx: number, dy: number, dash: boolean, whistle: boolean) => {
-      if (player.dashTimer > 0) player.dashTimer--;
-      
-      if (dash && player.dashTimer <= 0 && (dx !== 0 || dy !== 0)) {
-          player.isDashing = true;
-          player.dashTimer = DASH_COOLDOWN_FRAMES;
-          player.vx = dx * DASH_SPEED;
-          player.vy = dy * DASH_SPEED;
-          playSound('jump');
-          spawnParticles(player.x + 10, player.y + 40, '#fff', 8, 0.5);
-      }
+  const requirePlayer = () => {
+    const player = sim.current.world.entities.player;
+    if (sim.current.world.state.status !== GameStatus.PLAYING || !player) throw new Error('Start a run first');
+    return player;
+  };
 
-      if (player.isDashing) {
-          player.vx *= 0.85;
-          player.vy *= 0.85;
-          if (Math.abs(player.vx) < RPG_MOVEMENT_SPEED && Math.abs(player.vy) < RPG_MOVEMENT_SPEED) player.isDashing = false;
-      } else {
-          player.vx = dx * RPG_MOVEMENT_SPEED;
-          player.vy = dy * RPG_MOVEMENT_SPEED;
-      }
+  const parseNumber = (text: string | undefined) => {
+    const value = Number(text);
+    if (text === undefined || !Number.isFinite(value)) throw new Error('Expected a number');
+    return value;
+  };
 
-      player.x += player.vx;
-      player.y += player.vy;
-      
-      if (!input.current.touch.rightStick.active && input.current.mouse.x === 0) {
-          if (dx !== 0) player.facingRight = dx > 0;
-      } else {
-          player.facingRight = Math.abs(player.aimAngle) < Math.PI / 2;
+  const consoleCommands: Record<string, ConsoleCommand> = {
+    god: { usage: 'god', run: () => {
+      markCheated();
+      sim.current.cheats.god = !sim.current.cheats.god;
+      return `God mode ${sim.current.cheats.god ? 'on' : 'off'}`;
+    } },
+    level: { usage: 'level N', run: ([n]) => {
+      const count = playtestLevel ? 1 : campaignLevels().length;
+      const level = parseNumber(n);
+      if (!Number.isInteger(level) || level < 1 || level > count) throw new Error(`Level must be 1-${count}`);
+      if (sim.current.world.state.status !== GameStatus.PLAYING) initGame();
+      markCheated();
+      sim.current.startLevel(level, sim.current.world.entities.player?.powerUps);
+      return `Level ${level}`;
+    } },
+    spawn: { usage: `spawn enemy ${Object.values(EnemyTier).join('|')} | spawn crow | spawn <creature>`, run: ([what = '', tier = EnemyTier.SMALL]) => {
+      const player = requirePlayer();
+      markCheated();
+      const kind = what.toUpperCase();
+      if (kind === 'ENEMY') {
+        const t = tier.toUpperCase() as EnemyTier;
+        if (!Object.values(EnemyTier).includes(t)) throw new Error('Unknown tier');
+        sim.current.spawnEnemy(t);
+        return `Spawned ${t} wolf`;
       }
-
-      if (player.x < 0) player.x = 0;
-      if (player.x > CANVAS_WIDTH - player.width) player.x = CANVAS_WIDTH - player.width;
-      if (player.y < 0) player.y = 0;
-      if (player.y > CANVAS_HEIGHT - player.height) player.y = CANVAS_HEIGHT - player.height;
+      if (kind === 'CROW') { sim.current.spawnCrow(); return 'Spawned crow'; }
+      if (!sim.current.spawnCreature(kind, player.x + 120, player.y, false)) throw new Error(`Unknown creature, known: ${creatureKinds().join(', ')}`);
+      return `Spawned ${kind}`;
+    } },
+    give: { usage: 'give KIND', run: ([kind = '']) => {
+      requirePlayer();
+      markCheated();
+      if (!sim.current.givePowerUp(kind.toUpperCase())) throw new Error(`Unknown power-up, known: ${powerUpDefinitions().map(d => d.kind).join(', ')}`);
+      return `Gave ${kind.toUpperCase()}`;
+    } },
+    kill: { usage: 'kill all', run: ([what]) => {
+      if (what?.toLowerCase() !== 'all') throw new Error('Only "kill all" is supported');
+      requirePlayer();
+      markCheated();
+      sim.current.killAll();
+      return 'Killed everything';
+    } },
+    // A fresh run on a chosen seed, as if typed on the title screen
+    seed: { usage: 'seed N', run: ([n]) => {
+      const seed = parseSeed(n ?? '');
+      if (seed === null) throw new Error('Invalid seed');
+      seedEntry.current = { text: `${seed}`, daily: false };
+      initGame();
+      return `New run on seed ${seed}`;
+    } },
+    timescale: { usage: 'timescale X', run: ([x]) => {
+      const scale = Math.max(0.05, Math.min(4, parseNumber(x)));
+      if (scale !== 1) markCheated();
+      debug.current.timeScale = scale;
+      return `Time scale ${scale}`;
+    } }
   };
 
-  const updatePlatformerPhysics = (player: PlayerEntity, dx: number, jump: boolean, dash: boolean) => {
-        if (player.dashTimer > 0) player.dashTimer--;
-        if (player.invulnerableTimer > 0) player.invulnerableTimer--;
-
-        if (dash && player.dashTimer <= 0) {
-            let dashDir = dx;
-            if (dashDir === 0) dashDir = player.facingRight ? 1 : -1;
-            player.isDashing = true;
-            player.dashTimer = DASH_COOLDOWN_FRAMES;
-            player.invulnerableTimer = 15; 
-            player.vx = dashDir * DASH_SPEED;
-            playSound('jump');
-            spawnParticles(player.x + 10, player.y + 40, '#fff', 8, 0.5);
-        }
-
-        const wasGrounded = player.grounded;
-        
-        if (player.isDashing) {
-            player.vx *= 0.85; 
-            if (Math.abs(player.vx) < MAX_SPEED) player.isDashing = false;
-        } else {
-            player.vx += dx * MOVEMENT_SPEED;
-            player.vx *= FRICTION;
-            player.vx = Math.max(Math.min(player.vx, MAX_SPEED), -MAX_SPEED);
-        }
-        
-        if (jump && player.grounded) {
-            player.vy = JUMP_FORCE;
-            player.grounded = false;
-            playSound('jump');
-            spawnParticles(player.x + 10, player.y + 40, '#e5e7eb', 5, 0.5);
-        }
-
-        player.vy += GRAVITY;
-        player.x += player.vx;
-        player.y += player.vy;
-        player.facingRight = Math.abs(player.aimAngle) < Math.PI / 2;
-
-        checkPlatformCollisions(player);
-
-        if (player.y + player.height > CANVAS_HEIGHT - 32) {
-            player.y = CANVAS_HEIGHT - 32 - player.height;
-            player.vy = 0;
-            player.grounded = true;
-        }
-        if (!wasGrounded && player.grounded) {
-            spawnParticles(player.x + 10, player.y + 45, '#e5e7eb', 4, 0.3);
-        }
-        if (player.x < 0) player.x = 0;
-        if (player.x > CANVAS_WIDTH - player.width) player.x = CANVAS_WIDTH - player.width;
+  const handleConsoleInput = (e: KeyboardEvent) => {
+    e.preventDefault();
+    const line = handleConsoleKey(debug.current.console, e);
+    if (line) runCommand(debug.current.console, line, consoleCommands);
   };
 
-  const updateBushesAndRabbits = (player: PlayerEntity, dog: DogEntity) => {
-      entities.current.bushes.forEach(bush => {
-          if (bush.shakeTimer > 0) bush.shakeTimer--;
-      });
-
-      entities.current.rabbits.forEach(rabbit => {
-          if (rabbit.state === 'HIDDEN') {
-              const bush = entities.current.bushes.find(b => Math.abs(b.x - rabbit.x + 10) < 10 && Math.abs(b.y - rabbit.y + 10) < 10);
-              if (!bush) { rabbit.state = 'IDLE'; rabbit.isHidden = false; return; }
-
-              // Flush logic: Dog pointing AND (Player close OR Whistle triggered externally)
-              // But here we check simple proximity or if dog is in flush state
-              if ((dog.state === 'POINTING' || dog.state === 'FLUSH') && dog.target === bush) {
-                  const distP = Math.sqrt(Math.pow(player.x - rabbit.x, 2) + Math.pow(player.y - rabbit.y, 2));
-                  if (distP < 60 || dog.state === 'FLUSH') {
-                      rabbit.state = 'FLEE';
-                      rabbit.isHidden = false;
-                      rabbit.fleeTimer = 300; 
-                      playSound('splash'); 
-                      bush.shakeTimer = 20;
-                      spawnParticles(bush.x, bush.y, '#166534', 5);
-                      spawnFloatingText(rabbit.x, rabbit.y - 10, "!", "#fff");
-                      dog.state = 'CHASE'; 
-                      dog.target = rabbit;
-                  }
-              }
-          } else if (rabbit.state === 'FLEE') {
-              rabbit.fleeTimer--;
-              
-              // Run away from dog
-              const dxDog = rabbit.x - dog.x;
-              const dyDog = rabbit.y - dog.y;
-              
-              const mag = Math.sqrt(dxDog*dxDog + dyDog*dyDog);
-              if (mag > 0) {
-                  rabbit.vx = (dxDog/mag) * 3.0; 
-                  rabbit.vy = (dyDog/mag) * 3.0;
-              }
-
-              rabbit.x += rabbit.vx;
-              rabbit.y += rabbit.vy;
-              rabbit.facingRight = rabbit.vx > 0;
-
-              // KEEP IN BOUNDS
-              if(rabbit.x < 10 || rabbit.x > CANVAS_WIDTH - 26) { rabbit.vx *= -1; rabbit.x = Math.max(10, Math.min(CANVAS_WIDTH - 26, rabbit.x)); }
-              if(rabbit.y < 10 || rabbit.y > CANVAS_HEIGHT - 26) { rabbit.vy *= -1; rabbit.y = Math.max(10, Math.min(CANVAS_HEIGHT - 26, rabbit.y)); }
-
-              if (rabbit.fleeTimer <= 0) {
-                  const bush = entities.current.bushes.find(b => Math.abs(b.x - rabbit.x) < 40 && Math.abs(b.y - rabbit.y) < 40);
-                  if (bush) {
-                      rabbit.state = 'HIDDEN';
-                      rabbit.isHidden = true;
-                      rabbit.vx = 0; rabbit.vy = 0;
-                      rabbit.x = bush.x + 10; rabbit.y = bush.y + 10;
-                      bush.shakeTimer = 10;
-                      if (dog.target === rabbit) {
-                          dog.state = 'IDLE';
-                          dog.target = null;
-                          spawnFloatingText(dog.x, dog.y - 20, "?", "#fff");
-                      }
-                  }
-              }
-          } 
-      });
+  // --- HIGH SCORES ---
+  const highScores = useRef({
+    entry: null as InitialsEntry | null, // Set while typing initials for a qualifying run
+    pending: null as Omit<HighScoreEntry, 'initials'> | null,
+    board: false,                        // Leaderboard open
+    scores: [] as HighScoreEntry[],      // Table as of opening the leaderboard
+    highlight: -1                        // Index of the entry just added
+  });
+
+  const offerHighScore = () => {
+    const { state } = sim.current.world;
+    if (!qualifiesForHighScore(loadHighScores(), state.score)) return;
+    clearInputs();
+    highScores.current.entry = createInitialsEntry();
+    highScores.current.pending = {
+      score: state.score, level: state.level, date: new Date().toISOString().slice(0, 10), seed: state.seed, difficulty: DIFFICULTY
+    };
   };
 
-  const updateMeats = (player: PlayerEntity) => {
-      entities.current.meats.forEach(m => {
-          if (!isTopDown()) m.vy += GRAVITY;
-          m.y += m.vy;
-          if (!isTopDown()) {
-              checkPlatformCollisions(m);
-              if (m.y + m.height > CANVAS_HEIGHT - 32) {
-                  m.y = CANVAS_HEIGHT - 32 - m.height;
-                  m.vy = 0;
-              }
-          }
-          if (checkCollision(player, m)) {
-              m.markedForDeletion = true;
-              player.health = Math.min(player.maxHealth, player.health + 20);
-              state.current.score += 50;
-              spawnFloatingText(player.x, player.y - 10, "+20 HP", "#22c55e");
-              playSound('coin');
-              spawnParticles(m.x, m.y, '#f87171', 10, 1);
-          }
-      });
-      entities.current.meats = entities.current.meats.filter(m => !m.markedForDeletion);
+  const openLeaderboard = (highlight = -1) => {
+    highScores.current.board = true;
+    highScores.current.scores = loadHighScores();
+    highScores.current.highlight = highlight;
   };
 
-  const updateDog = (player: PlayerEntity, whistleTriggered: boolean) => {
-    const dog = entities.current.dog!;
-    
-    // Bounds check for Dog
-    if(dog.x < 0) dog.x = 0;
-    if(dog.x > CANVAS_WIDTH - dog.width) dog.x = CANVAS_WIDTH - dog.width;
-    if(dog.y < 0) dog.y = 0;
-    if(dog.y > CANVAS_HEIGHT - dog.height) dog.y = CANVAS_HEIGHT - dog.height;
-
-    if (state.current.level === 3) { // RPG HUNTING MODE
-        // 1. RETRIEVE STATE
-        if (dog.state === 'CARRY') {
-            const dx = player.x - dog.x;
-            const dy = player.y - dog.y;
-            const dist = Math.sqrt(dx*dx + dy*dy);
-            
-            if (dist > 30) {
-                dog.vx = (dx/dist) * 3.8;
-                dog.vy = (dy/dist) * 3.8;
-            } else {
-                state.current.enemiesKilled++;
-                playSound('coin');
-                dog.state = 'IDLE';
-                dog.target = null;
-                spawnFloatingText(dog.x, dog.y - 20, "GOOD BOY!", "#fbbf24");
-                spawnParticles(dog.x, dog.y, '#22c55e', 10);
-            }
-            dog.x += dog.vx;
-            dog.y += dog.vy;
-            dog.facingRight = dog.vx > 0;
-            return; 
-        }
+  const closeLeaderboard = () => { highScores.current.board = false; };
 
-        if (whistleTriggered) {
-             if (dog.state === 'POINTING') {
-                 dog.state = 'FLUSH'; 
-                 playSound('bark');
-             } else {
-                 dog.state = 'FOLLOW';
-                 dog.target = player;
-                 playSound('whistle');
-                 spawnFloatingText(dog.x, dog.y - 20, "Here!", "#fff");
-             }
-        }
+  const submitInitials = () => {
+    const hs = highScores.current;
+    if (!hs.entry || !hs.pending) return;
+    const index = addHighScore({ initials: initialsText(hs.entry), ...hs.pending });
+    hs.entry = null;
+    hs.pending = null;
+    openLeaderboard(index);
+  };
 
-        if (dog.state === 'POINTING') {
-            dog.vx = 0; dog.vy = 0;
-            if (engine.current.frameCount % 40 === 0) spawnFloatingText(dog.x, dog.y - 20, "!", "#ef4444");
-            if (!dog.target) dog.state = 'IDLE';
-        } 
-        else if (dog.state === 'CHASE' && dog.target) {
-            const rabbit = dog.target as RabbitEntity;
-            if (rabbit.state === 'HIDDEN') {
-                dog.state = 'IDLE'; dog.target = null; spawnFloatingText(dog.x, dog.y - 20, "?", "#fff");
-            } else {
-                const dx = rabbit.x - dog.x;
-                const dy = rabbit.y - dog.y;
-                const dist = Math.sqrt(dx*dx + dy*dy);
-                
-                if (dist < 15) {
-                    dog.state = 'CARRY';
-                    rabbit.state = 'DEAD'; 
-                    rabbit.markedForDeletion = true; 
-                    playSound('hit');
-                    spawnParticles(dog.x, dog.y, '#fff', 10);
-                } else {
-                    dog.vx = (dx/dist) * 4.5; 
-                    dog.vy = (dy/dist) * 4.5;
-                }
-            }
-            dog.x += dog.vx;
-            dog.y += dog.vy;
-            dog.facingRight = dog.vx > 0;
-        } 
-        else if (dog.state === 'IDLE' || dog.state === 'FOLLOW') {
-             // SMELL LOGIC
-             let closestBush = null;
-             let minDist = 300; 
-
-             entities.current.bushes.forEach(bush => {
-                 const hasRabbit = entities.current.rabbits.some(r => r.state === 'HIDDEN' && Math.abs(r.x - bush.x) < 20);
-                 if (hasRabbit) {
-                     const d = Math.sqrt(Math.pow(bush.x - dog.x, 2) + Math.pow(bush.y - dog.y, 2));
-                     if (d < minDist) { minDist = d; closestBush = bush; }
-                 }
-             });
-
-             if (closestBush && dog.state !== 'FOLLOW') {
-                 const dx = closestBush.x - dog.x;
-                 const dy = closestBush.y - dog.y;
-                 const dist = Math.sqrt(dx*dx + dy*dy);
-                 
-                 if (dist < 60) {
-                     dog.state = 'POINTING';
-                     dog.target = closestBush;
-                     playSound('bark');
-                 } else {
-                     dog.vx = (dx/dist) * 3;
-                     dog.vy = (dy/dist) * 3;
-                     dog.x += dog.vx;
-                     dog.y += dog.vy;
-                     dog.facingRight = dog.vx > 0;
-                 }
-             } else {
-                 if (dog.state === 'FOLLOW' && dog.target) {
-                     const dx = dog.target.x - dog.x;
-                     const dy = dog.target.y - dog.y;
-                     const dist = Math.sqrt(dx*dx + dy*dy);
-                     if (dist > 60) {
-                         dog.vx = (dx/dist) * 3; dog.vy = (dy/dist) * 3;
-                         dog.x += dog.vx; dog.y += dog.vy;
-                         dog.facingRight = dog.vx > 0;
-                     } else {
-                         dog.state = 'IDLE'; dog.target = null;
-                     }
-                 } else {
-                     if (Math.random() < 0.02) {
-                         dog.vx = (Math.random() - 0.5) * 2;
-                         dog.vy = (Math.random() - 0.5) * 2;
-                     }
-                     dog.x += dog.vx;
-                     dog.y += dog.vy;
-                     if (engine.current.frameCount % 20 === 0) dog.vx = 0; 
-                 }
-             }
-        }
-    } else {
-        // ... (Platformer Dog Logic)
-        if (whistleTriggered) {
-            dog.aggroTimer = 300;
-            playSound('whistle');
-            spawnParticles(dog.x, dog.y, '#fbbf24', 10, 2);
-            dog.target = null;
-            dog.state = 'IDLE';
-        }
-        if (dog.aggroTimer > 0) dog.aggroTimer--;
-        if (dog.aggroTimer > 0) {
-            let nearestEnemy: EnemyEntity | null = null;
-            let minDist = 600;
-            if (dog.target && (dog.target as EnemyEntity).markedForDeletion) {
-                dog.target = null;
-                dog.state = 'IDLE';
-            }
-            if (dog.state !== 'BRAWL' && !dog.target) {
-                entities.current.enemies.forEach(e => {
-                    if (e.stunTimer <= 0 && !e.markedForDeletion) { 
-                        const d = Math.sqrt(Math.pow(e.x - dog.x, 2) + Math.pow(e.y - dog.y, 2));
-                        if (d < minDist) { minDist = d; nearestEnemy = e; }
-                    }
-                });
-                if (nearestEnemy) { dog.state = 'CHASE'; dog.target = nearestEnemy; }
-            }
-        } else {
-            const distToPlayer = Math.sqrt(Math.pow(player.x - dog.x, 2) + Math.pow(player.y - dog.y, 2));
-            const enemiesNearby = entities.current.enemies.length > 0 && entities.current.enemies.some(e => Math.sqrt(Math.pow(e.x - dog.x, 2) + Math.pow(e.y - dog.y, 2)) < 300);
-            if (distToPlayer < 50 && !enemiesNearby && player.health < player.maxHealth) {
-                dog.healTimer = (dog.healTimer || 0) + 1;
-                if (dog.healTimer > 60) dog.state = 'HEAL';
-            } else {
-                dog.healTimer = 0;
-                dog.state = 'FOLLOW';
-                dog.target = player;
-            }
-            if (dog.state === 'FOLLOW') {
-                if (Math.abs(player.x - dog.x) < 50 && Math.abs(player.y - dog.y) < 50) {
-                    dog.state = 'IDLE';
-                    dog.target = null;
-                }
-            }
-        }
-        if (dog.state === 'HEAL') {
-             dog.vx = 0;
-             if (engine.current.frameCount % 60 === 0) {
-                 player.health = Math.min(player.maxHealth, player.health + 5);
-                 spawnFloatingText(player.x, player.y - 20, "❤", "#f43f5e");
-                 spawnParticles(dog.x, dog.y, '#f43f5e', 3, 0.5);
-             }
-        } else if (dog.state === 'BRAWL' && dog.target) {
-            const enemy = dog.target as EnemyEntity;
-            if (enemy.health <= 0 || enemy.markedForDeletion) { dog.state = 'IDLE'; dog.target = null; return; }
-            enemy.vx = 0; 
-            dog.x = enemy.x + (Math.random() - 0.5) * 5; 
-            dog.y = enemy.y - 10;
-            if (engine.current.frameCount % 10 === 0) {
-                enemy.health -= 0.5;
-                playSound('break');
-                spawnParticles(dog.x + 10, dog.y + 10, '#ef4444', 3, 2);
-                spawnFloatingText(enemy.x, enemy.y, "1", "#ef4444");
-                if (enemy.health <= 0) { killEnemy(enemy, player); dog.state = 'IDLE'; dog.target = null; }
-            }
-        } else if (dog.state === 'FOLLOW' || dog.state === 'CHASE') {
-            if (dog.target) {
-                const dx = (dog.target.x + dog.target.width/2) - (dog.x + dog.width/2);
-                dog.vx += Math.sign(dx) * (dog.state === 'CHASE' ? 3 : 1.5); 
-                dog.facingRight = dx > 0;
-                const dy = dog.target.y - dog.y;
-                if (dy < -40 && dog.grounded) { dog.vy = JUMP_FORCE * 1.2; dog.grounded = false; }
-                const dist = Math.sqrt(Math.pow(dx, 2) + Math.pow(dy, 2));
-                if (dist > 400 && dog.state === 'FOLLOW') { dog.x = dog.target.x; dog.y = dog.target.y; dog.vx = 0; spawnParticles(dog.x, dog.y, '#fff', 10); }
-                if (dog.state === 'CHASE' && checkCollision(dog, dog.target) && dog.target.type === EntityType.ENEMY) { dog.state = 'BRAWL'; }
-            }
-        } else if (dog.state === 'IDLE') { dog.vx *= 0.5; }
-        if (dog.state !== 'BRAWL') {
-            dog.vx *= 0.8;
-            dog.vy += GRAVITY;
-            dog.x += dog.vx;
-            dog.y += dog.vy;
-            checkPlatformCollisions(dog);
-            if (dog.y + dog.height > CANVAS_HEIGHT - 32) { dog.y = CANVAS_HEIGHT - 32 - dog.height; dog.vy = 0; dog.grounded = true; }
-        }
-    }
+  const handleInitialsKey = (e: KeyboardEvent) => {
+    const entry = highScores.current.entry!;
+    if (e.code === 'Enter') submitInitials();
+    else if (e.code === 'ArrowUp') cycleLetter(entry, -1);
+    else if (e.code === 'ArrowDown') cycleLetter(entry, 1);
+    else if (e.code === 'ArrowLeft' || e.code === 'Backspace') moveCursor(entry, -1);
+    else if (e.code === 'ArrowRight') moveCursor(entry, 1);
+    else typeLetter(entry, e.key);
   };
 
-  const checkPlatformCollisions = (entity: Entity) => {
-    entity.grounded = false;
-    entities.current.platforms.forEach(p => {
-        if (
-            entity.x < p.x + p.width &&
-            entity.x + entity.width > p.x &&
-            entity.y + entity.height > p.y &&
-            entity.y + entity.height < p.y + p.height + 10 &&
-            entity.vy >= 0
-        ) {
-            entity.grounded = true;
-            entity.vy = 0;
-            entity.y = p.y - entity.height;
-        }
-    });
+  const handleInitialsPointer = (x: number, y: number) => {
+    const hit = initialsHitAt(x, y, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 20);
+    if (!hit) return;
+    if (hit.kind === 'OK') submitInitials();
+    else cycleLetter(highScores.current.entry!, hit.kind === 'UP' ? -1 : 1, hit.slot);
   };
 
-  const checkPlatformCollisionsSimple = (entity: Entity): boolean => {
-    const feetX = entity.x + entity.width / 2;
-    const feetY = entity.y + entity.height;
-    for (const plat of entities.current.platforms) {
-        if (feetX > plat.x && feetX < plat.x + plat.width) {
-            if (feetY >= plat.y && feetY <= plat.y + 10) return true;
-        }
+  // Clicks and taps on the score screens; true if they were consumed
+  const handleHighScorePointer = (x: number, y: number): boolean => {
+    const hs = highScores.current;
+    if (hs.entry) { handleInitialsPointer(x, y); return true; }
+    if (hs.board) { closeLeaderboard(); return true; }
+    if (sim.current.world.state.status === GameStatus.MENU &&
+        Math.abs(x - SCORES_BTN_X) < SCORES_BTN_WIDTH / 2 && Math.abs(y - SCORES_BTN_Y) < SCORES_BTN_HEIGHT / 2) {
+      openLeaderboard();
+      return true;
     }
     return false;
   };
 
-  const killEnemy = (enemy: EnemyEntity, player: PlayerEntity) => {
-      enemy.markedForDeletion = true;
-      state.current.enemiesKilled++;
-      state.current.score += 100;
-      playSound('explosion');
-      spawnParticles(enemy.x, enemy.y, enemy.color, 10, 2);
-      spawnFloatingText(enemy.x, enemy.y, "+100", "#fff");
-      if (Math.random() < 0.3) {
-          entities.current.meats.push({ id: Math.random(), type: EntityType.MEAT, x: enemy.x, y: enemy.y, width: 16, height: 16, vx: 0, vy: -2, grounded: false, markedForDeletion: false, value: 20 });
-      }
-      if (Math.random() < 0.1) {
-          entities.current.powerups.push({ id: Math.random(), type: EntityType.POWERUP, kind: 'TRIPLE_SHOT', x: enemy.x, y: enemy.y, width: 16, height: 16, vx: 0, vy: -2, grounded: false, markedForDeletion: false, timer: 600 });
-      }
-  };
-
-  const updateEnemies = (player: PlayerEntity) => {
-      if (engine.current.frameCount % (60 * (3 - Math.min(2, state.current.level * 0.5))) === 0 && entities.current.enemies.length < 5 && state.current.level !== 3) {
-          const tier = Math.random() < 0.3 ? EnemyTier.LARGE : (Math.random() < 0.5 ? EnemyTier.MEDIUM : EnemyTier.SMALL);
-          let width = 36, height = 24, health = 2, color = '#9ca3af';
-          if (tier === EnemyTier.MEDIUM) { width = 44; height = 28; health = 4; color = '#4b5563'; }
-          if (tier === EnemyTier.LARGE) { width = 56; height = 36; health = 8; color = '#1f2937'; }
-
-          entities.current.enemies.push({
-              id: Math.random(), type: EntityType.ENEMY, tier, x: Math.random() > 0.5 ? -50 : CANVAS_WIDTH + 50, y: Math.random() * (CANVAS_HEIGHT - 100), width, height, vx: 0, vy: 0, grounded: false, markedForDeletion: false, health, maxHealth: health, stunTimer: 0, color
-          });
-      }
-
-      entities.current.enemies.forEach(e => {
-          if (e.stunTimer > 0) { e.stunTimer--; e.vx = 0; } else {
-              const dx = player.x - e.x;
-              const dy = player.y - e.y;
-              const dist = Math.sqrt(dx*dx + dy*dy);
-              if (dist < 400) {
-                  e.vx = (dx / dist) * (1 + state.current.level * 0.2);
-                  if (isTopDown()) e.vy = (dy / dist) * (1 + state.current.level * 0.2);
-                  else {
-                      e.vx = Math.sign(dx) * (isTopDown() ? 1 : 0.5);
-                      // Jump
-                      if(e.grounded && (Math.random() < 0.01 || (dy < -50 && Math.abs(dx) < 100))) {
-                          e.vy = JUMP_FORCE; e.grounded = false;
-                      }
-                  }
-              }
-          }
-          if (!isTopDown()) { e.vy += GRAVITY; checkPlatformCollisions(e); if (e.y + e.height > CANVAS_HEIGHT - 32) { e.y = CANVAS_HEIGHT - 32 - e.height; e.vy = 0; e.grounded = true; } }
-          e.x += e.vx; e.y += e.vy;
-          if (checkCollision(player, e) && player.invulnerableTimer <= 0 && e.stunTimer <= 0) {
-              player.health -= 10; player.invulnerableTimer = 60; player.vx = Math.sign(player.x - e.x) * 10; player.vy = -5;
-              playSound('hit'); engine.current.shake = 5; spawnFloatingText(player.x, player.y, "-10", "#ef4444");
-              if (player.health <= 0) handlePlayerDeath();
-          }
-      });
-      entities.current.enemies = entities.current.enemies.filter(e => !e.markedForDeletion);
-  };
-
-  const updateCrows = (player: PlayerEntity) => {
-        // More crows in level 4!
-        const crowLimit = state.current.level === 4 ? 6 : 3;
-        const spawnRate = state.current.level === 4 ? 120 : 300;
-
-        if (state.current.level !== 3 && engine.current.frameCount % spawnRate === 0 && entities.current.crows.length < crowLimit) {
-             entities.current.crows.push({
-                 id: Math.random(), type: EntityType.CROW, state: 'FLY', x: Math.random() > 0.5 ? -50 : CANVAS_WIDTH + 50, y: 50 + Math.random() * 100, width: 24, height: 24, vx: Math.random() > 0.5 ? 2 : -2, vy: 0, grounded: false, markedForDeletion: false, startX: 0, startY: 0, diveTimer: 0, facingRight: true, health: 2, color: '#374151'
-             });
-        }
-        entities.current.crows.forEach(c => {
-             if (c.state === 'FLY') {
-                 c.x += c.vx; c.y = c.y + Math.sin(engine.current.frameCount * 0.05) * 2;
-                 if (c.x < -100 || c.x > CANVAS_WIDTH + 100) c.vx *= -1;
-                 if (Math.abs(c.x - player.x) < 100 && c.y < player.y) { c.state = 'DIVE'; c.startX = c.x; c.startY = c.y; const dx = player.x - c.x; const dy = player.y - c.y; const dist = Math.sqrt(dx*dx + dy*dy); c.vx = (dx/dist) * 6; c.vy = (dy/dist) * 6; playSound('whistle'); }
-             } else if (c.state === 'DIVE') {
-                 c.x += c.vx; c.y += c.vy;
-                 if (c.y > CANVAS_HEIGHT - 50 || c.y > player.y + 100) { c.state = 'RETURN'; c.vy = -4; }
-             } else if (c.state === 'RETURN') {
-                 c.x += c.vx * 0.5; c.y += c.vy;
-                 if (c.y <= 100) { c.state = 'FLY'; c.vy = 0; c.vx = c.vx > 0 ? 3 : -3; }
-             }
-             c.facingRight = c.vx > 0;
-             if (checkCollision(c, player) && player.invulnerableTimer <= 0) {
-                  player.health -= 15; player.invulnerableTimer = 60; playSound('hit'); spawnFloatingText(player.x, player.y, "-15", "#ef4444");
-                  if (player.health <= 0) handlePlayerDeath();
-             }
-        });
-        entities.current.crows = entities.current.crows.filter(c => !c.markedForDeletion);
+  const pollGamepad = useRef(createGamepadPoller());
+
+  const handleGamepad = () => {
+    const pressed = pollGamepad.current();
+    if (pressed.size === 0) return;
+    const status = sim.current.world.state.status;
+    const hs = highScores.current;
+    if (hs.entry) {
+      if (pressed.has(PAD_START) || (pressed.has(PAD_A) && isLastSlot(hs.entry))) submitInitials();
+      else if (pressed.has(PAD_A) || pressed.has(PAD_RIGHT)) moveCursor(hs.entry, 1);
+      else if (pressed.has(PAD_B) || pressed.has(PAD_LEFT)) moveCursor(hs.entry, -1);
+      else if (pressed.has(PAD_UP)) cycleLetter(hs.entry, -1);
+      else if (pressed.has(PAD_DOWN)) cycleLetter(hs.entry, 1);
+    } else if (hs.board) {
+      if (pressed.has(PAD_A) || pressed.has(PAD_B) || pressed.has(PAD_X) || pressed.has(PAD_START)) closeLeaderboard();
+    } else if (status === GameStatus.PAUSED) {
+      if (pressed.has(PAD_START)) resumeGame();
+      else if (pressed.has(PAD_B)) pauseBack();
+      else if (pressed.has(PAD_UP)) movePauseSelection(-1);
+      else if (pressed.has(PAD_DOWN)) movePauseSelection(1);
+      else if (pressed.has(PAD_A)) activatePauseItem(pauseMenu.current.selected);
+    } else if (status === GameStatus.PLAYING) {
+      if (pressed.has(PAD_START)) pauseGame();
+    } else if (status === GameStatus.MENU || status === GameStatus.GAME_OVER || status === GameStatus.VICTORY) {
+      if (pressed.has(PAD_START) || pressed.has(PAD_A)) initGame();
+      else if (pressed.has(PAD_Y) && status === GameStatus.MENU) continueGame();
+      else if (pressed.has(PAD_X) && status === GameStatus.MENU) openLeaderboard();
+    }
   };
 
-  const updateDucks = (whistle: boolean) => {
-      entities.current.ducks.forEach(d => {
-           if (d.state === 'SWIM') { d.x += d.facingRight ? 0.5 : -0.5; if (d.x > CANVAS_WIDTH) d.x = 0; if (d.x < 0) d.x = CANVAS_WIDTH; }
-      });
+  // Play back recorded frames in place of live input
+  const updateReplay = () => {
+    const r = replay.current;
+    if (r.paused && !r.stepRequested) return;
+    const steps = r.paused ? 1 : (r.fastForward ? REPLAY_FAST_FORWARD : 1);
+    r.stepRequested = false;
+    for (let i = 0; i < steps; i++) {
+      const frame = nextReplayFrame(r.player!);
+      if (!frame) { r.paused = true; return; }
+      sim.current.step(frame);
+      lastFrame.current = frame;
+    }
   };
 
-  const updateArrows = () => {
-      entities.current.arrows.forEach(a => {
-          a.lifeTime--;
-          if (a.lifeTime <= 0) a.markedForDeletion = true;
-          a.vy += ARROW_GRAVITY;
-          a.x += a.vx;
-          a.y += a.vy;
-          a.rotation = Math.atan2(a.vy, a.vx);
-
-          // Enemy Collision
-          entities.current.enemies.forEach(e => {
-              if (checkCollision(a, e)) {
-                  a.markedForDeletion = true;
-                  e.health -= 1 * (entities.current.player?.powerUpTimer && entities.current.player.powerUpTimer > 0 ? 3 : 1);
-                  playSound('hit');
-                  spawnParticles(e.x, e.y, e.color, 5, 1);
-                  if (e.health <= 0) { killEnemy(e, entities.current.player!); } else { e.vx = -e.vx; e.stunTimer = 10; }
-              }
-          });
-          
-          // Crow Collision
-          entities.current.crows.forEach(c => {
-               if (checkCollision(a, c)) {
-                   a.markedForDeletion = true; c.health -= 1; playSound('hit');
-                   if (c.health <= 0) { c.markedForDeletion = true; state.current.score += 150; spawnParticles(c.x, c.y, '#374151', 10); playSound('explosion'); }
-               }
-          });
-
-          // Cage Collision (Liberate Dog)
-          entities.current.cages.forEach(c => {
-               if (checkCollision(a, c)) {
-                   a.markedForDeletion = true;
-                   c.health -= 1;
-                   playSound('break');
-                   spawnParticles(c.x, c.y, '#9ca3af', 5);
-                   if (c.health <= 0) {
-                       c.markedForDeletion = true;
-                       spawnDog(c.x, c.y + c.height - 24);
-                   }
-               }
-          });
-
-          if (!isTopDown() && checkPlatformCollisionsSimple(a)) { a.markedForDeletion = true; spawnParticles(a.x, a.y, '#9ca3af', 3); }
-      });
-      entities.current.arrows = entities.current.arrows.filter(a => !a.markedForDeletion);
-      entities.current.cages = entities.current.cages.filter(c => !c.markedForDeletion);
+  // The daily toggle sits off the movement keys, and held keys don't repeat
+  // into it, so a player still holding a direction can't flip it or wipe the text
+  const handleSeedKey = (e: KeyboardEvent) => {
+    if (e.repeat) return;
+    const entry = seedEntry.current;
+    if (/^\d$/.test(e.key) && entry.text.length < 10) {
+      const text = entry.text + e.key;
+      if (parseSeed(text) !== null) { entry.text = text; entry.daily = false; }
+    } else if (e.code === 'Backspace') {
+      entry.text = entry.text.slice(0, -1);
+    } else if (e.code === 'KeyN') {
+      entry.daily = !entry.daily;
+      entry.text = '';
+    }
   };
 
-  const updateNets = () => {
-      entities.current.traps.forEach(t => {
-          if (t.state === 'FLYING') {
-               t.vy += NET_GRAVITY; t.x += t.vx; t.y += t.vy; t.rotation += 0.2;
-               if (t.y > CANVAS_HEIGHT) t.markedForDeletion = true;
-               entities.current.enemies.forEach(e => {
-                   if (checkCollision(t, e)) { t.markedForDeletion = true; e.stunTimer = 180; playSound('hit'); spawnFloatingText(e.x, e.y - 10, "STUNNED!", "#facc15"); }
-               });
-          }
-      });
-      entities.current.traps = entities.current.traps.filter(t => !t.markedForDeletion);
+  const seedLabel = () => {
+    if (seedEntry.current.daily) return `DAILY (${dailySeed()})`;
+    return seedEntry.current.text || 'RANDOM';
   };
 
-  const updateParticles = () => {
-      entities.current.particles.forEach(p => {
-          p.lifeTime--;
-          if (p.lifeTime <= 0) p.markedForDeletion = true;
-          p.x += p.vx; p.y += p.vy; p.vy += 0.1;
-      });
-      entities.current.particles = entities.current.particles.filter(p => !p.markedForDeletion);
+  // Feed the current controls to the simulation, then clear one-shot presses
+  const update = () => {
+    const r = replay.current;
+    if (r.player) { updateReplay(); return; }
+    // Paused time is not recorded: the replay simply skips over it
+    if (sim.current.world.state.status === GameStatus.PAUSED) return;
+
+    const statusBefore = sim.current.world.state.status;
+    let frame: InputFrame = input.current;
+    if (r.recorder) frame = recordFrame(r.recorder, frame);
+    sim.current.step(frame);
+    lastFrame.current = frame;
+    input.current.touch.trapBtnPressed = false;
+    input.current.touch.whistleBtnPressed = false;
+    input.current.touch.dashBtnPressed = false;
+    input.current.fire = false;
+    input.current.restartLevel = false;
+
+    const status = sim.current.world.state.status;
+    if (pauseWhenPlaying.current && status === GameStatus.PLAYING) pauseGame();
+    if (status !== statusBefore && (status === GameStatus.GAME_OVER || status === GameStatus.VICTORY)) endRun();
   };
 
-  const updatePowerUps = (player: PlayerEntity) => {
-      entities.current.powerups.forEach(p => {
-          if (!isTopDown()) { p.vy += GRAVITY; checkPlatformCollisions(p); if (p.y + p.height > CANVAS_HEIGHT - 32) { p.y = CANVAS_HEIGHT - 32 - p.height; p.vy = 0; } }
-          p.y += p.vy;
-          if (checkCollision(player, p)) {
-              p.markedForDeletion = true; player.powerUpTimer = p.timer; playSound('coin'); spawnFloatingText(player.x, player.y - 20, "TRIPLE SHOT!", "#a855f7");
-          }
-      });
-      entities.current.powerups = entities.current.powerups.filter(p => !p.markedForDeletion);
+  const endRun = () => {
+    const r = replay.current;
+    if (r.recorder) {
+      r.last = finishReplay(r.recorder);
+      r.recorder = null;
+    }
+    if (playtestLevel || debug.current.cheated) return;
+    // A finished run can't be continued
+    savedRun.current = null;
+    persist();
+    offerHighScore();
   };
 
-  const updateFloatingTexts = () => {
-      entities.current.floatingTexts.forEach(t => {
-          t.lifeTime--; t.y -= 1;
-          if (t.lifeTime <= 0) t.markedForDeletion = true;
-      });
-      entities.current.floatingTexts = entities.current.floatingTexts.filter(t => !t.markedForDeletion);
-  };
-  
   // --- RENDERING ---
 
   const drawDog = (ctx: CanvasRenderingContext2D, d: DogEntity) => {
+    const world = sim.current.world;
       ctx.save();
       ctx.translate(d.x + d.width/2, d.y + d.height/2);
       if (!d.facingRight) ctx.scale(-1, 1);
       
-      const cycle = (Math.abs(d.vx) > 0.1 || Math.abs(d.vy) > 0.1) ? Math.sin(engine.current.frameCount * 0.5) * 5 : 0;
+      const cycle = (Math.abs(d.vx) > 0.1 || Math.abs(d.vy) > 0.1) ? Math.sin(world.engine.frameCount * 0.5) * 5 : 0;
       
       // -- CHUNKY DOG PIXEL ART --
       ctx.fillStyle = '#d97706'; // Base Orange
@@ -1201,54 +602,187 @@ const GameLogic: React.FC = () => {
 
       // Tail
       ctx.fillStyle = '#d97706';
-      const wag = Math.sin(engine.current.frameCount * 0.5) * 5;
+      const wag = Math.sin(world.engine.frameCount * 0.5) * 5;
       ctx.fillRect(-16, -8 + wag, 4, 8);
 
       if (d.state === 'CARRY') { ctx.fillStyle = '#fff'; ctx.fillRect(18, -4, 10, 8); }
       ctx.restore();
   };
 
-  const drawBackground = (ctx: CanvasRenderingContext2D) => {
-    const time = engine.current.frameCount;
-    if (state.current.level === 3) {
+  // Background layers scroll slower than the world the further away they are
+  const PARALLAX = { clouds: 0.2, fireflies: 0.3, hills: 0.5, trees: 0.75 };
+  const wrap = (v: number, size: number) => ((v % size) + size) % size;
+
+  // Sky and scenery in screen space, offset by the camera (`view`) for parallax
+  const drawBackground = (ctx: CanvasRenderingContext2D, view: Vector2) => {
+    const world = sim.current.world;
+    const time = world.engine.frameCount;
+    if (sim.current.isTopDown()) {
         ctx.fillStyle = '#4ade80'; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-        ctx.fillStyle = '#22c55e'; for(let i=0; i<100; i++) { const x = (i * 37) % CANVAS_WIDTH; const y = (i * 101) % CANVAS_HEIGHT; ctx.fillRect(x, y, 4, 4); }
+        ctx.fillStyle = '#22c55e'; for(let i=0; i<100; i++) { const x = wrap(i * 37 - view.x, CANVAS_WIDTH); const y = wrap(i * 101 - view.y, CANVAS_HEIGHT); ctx.fillRect(x, y, 4, 4); }
         ctx.shadowBlur = 40; ctx.shadowColor = '#fde047'; ctx.fillStyle = '#fde047'; ctx.beginPath(); ctx.arc(800, 80, 50, 0, Math.PI * 2); ctx.fill(); ctx.shadowBlur = 0;
         ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
-        engine.current.clouds.forEach(c => { const x = (c.x + time * c.speed) % (CANVAS_WIDTH + 100) - 50; ctx.beginPath(); ctx.arc(x, c.y, 30 * c.scale, 0, Math.PI*2); ctx.arc(x + 25 * c.scale, c.y - 10 * c.scale, 35 * c.scale, 0, Math.PI*2); ctx.arc(x + 50 * c.scale, c.y, 30 * c.scale, 0, Math.PI*2); ctx.fill(); });
+        scenery.current.clouds.forEach(c => { const x = wrap(c.x + time * c.speed - view.x * PARALLAX.clouds, CANVAS_WIDTH + 100) - 50; ctx.beginPath(); ctx.arc(x, c.y, 30 * c.scale, 0, Math.PI*2); ctx.arc(x + 25 * c.scale, c.y - 10 * c.scale, 35 * c.scale, 0, Math.PI*2); ctx.arc(x + 50 * c.scale, c.y, 30 * c.scale, 0, Math.PI*2); ctx.fill(); });
     } else {
-        const isStorm = state.current.isRaining;
-        if (state.current.lightningTimer > 0) { ctx.fillStyle = '#fff'; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT); } else {
+        const isStorm = world.state.isRaining;
+        if (world.state.lightningTimer > 0) { ctx.fillStyle = '#fff'; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT); } else {
             const gradient = ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT);
             if (isStorm) { gradient.addColorStop(0, '#0f172a'); gradient.addColorStop(1, '#020617'); } else { gradient.addColorStop(0, '#0f172a'); gradient.addColorStop(1, '#1e1b4b'); }
             ctx.fillStyle = gradient; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
         }
-        if (!state.current.isRaining) { 
+        if (!world.state.isRaining) { 
             ctx.shadowBlur = 20; ctx.shadowColor = '#fef3c7'; ctx.fillStyle = '#fef3c7'; ctx.beginPath(); ctx.arc(800, 80, 40, 0, Math.PI * 2); ctx.fill(); ctx.shadowBlur = 0;
-            ctx.fillStyle = 'rgba(253, 224, 71, 0.6)'; engine.current.fireflies.forEach(f => { const y = f.y + Math.sin((time * f.speed) + f.offset) * 20; const x = (f.x + time * 0.2) % CANVAS_WIDTH; ctx.globalAlpha = 0.5 + Math.sin(time * 0.1 + f.offset) * 0.5; ctx.beginPath(); ctx.arc(x, y, f.size, 0, Math.PI * 2); ctx.fill(); }); ctx.globalAlpha = 1.0;
+            ctx.fillStyle = 'rgba(253, 224, 71, 0.6)'; scenery.current.fireflies.forEach(f => { const y = f.y + Math.sin((time * f.speed) + f.offset) * 20; const x = wrap(f.x + time * 0.2 - view.x * PARALLAX.fireflies, CANVAS_WIDTH); ctx.globalAlpha = 0.5 + Math.sin(time * 0.1 + f.offset) * 0.5; ctx.beginPath(); ctx.arc(x, y, f.size, 0, Math.PI * 2); ctx.fill(); }); ctx.globalAlpha = 1.0;
         }
     }
-    if (!isTopDown()) {
-        ctx.fillStyle = state.current.level === 3 ? '#166534' : '#1e293b'; ctx.beginPath(); ctx.moveTo(0, CANVAS_HEIGHT - 32);
-        for (let i = 0; i <= CANVAS_WIDTH; i += 100) { ctx.lineTo(i, CANVAS_HEIGHT - 120 - Math.sin(i * 0.01 + state.current.level) * 60); }
-        ctx.lineTo(CANVAS_WIDTH, CANVAS_HEIGHT - 32); ctx.fill();
-        ctx.fillStyle = state.current.level === 3 ? '#14532d' : '#020617';
-        for (let i = 40; i < CANVAS_WIDTH; i += 180) { const sway = Math.sin(time * 0.02 + i) * 5; ctx.fillRect(i, CANVAS_HEIGHT - 180, 24, 150); ctx.beginPath(); ctx.arc(i + 12 + sway, CANVAS_HEIGHT - 180, 40 + (state.current.level * 5), 0, Math.PI * 2); ctx.fill(); }
-        ctx.fillStyle = '#020617'; ctx.fillRect(0, CANVAS_HEIGHT - 32, CANVAS_WIDTH, 32); ctx.fillStyle = '#14532d'; ctx.fillRect(0, CANVAS_HEIGHT - 32, CANVAS_WIDTH, 6);
+    if (!sim.current.isTopDown()) {
+        const ground = levelSize(world.level).height - 32 - view.y;
+        const hills = view.x * PARALLAX.hills;
+        ctx.fillStyle = '#1e293b'; ctx.beginPath(); ctx.moveTo(0, ground);
+        for (let i = -wrap(hills, 100); i <= CANVAS_WIDTH + 100; i += 100) { ctx.lineTo(i, ground - 88 - Math.sin((i + hills) * 0.01 + world.state.level) * 60); }
+        ctx.lineTo(CANVAS_WIDTH + 100, ground); ctx.fill();
+        ctx.fillStyle = '#020617';
+        const trees = view.x * PARALLAX.trees;
+        for (let i = 40 + Math.floor((trees - 120) / 180) * 180; i < trees + CANVAS_WIDTH + 60; i += 180) { const x = i - trees; const sway = Math.sin(time * 0.02 + i) * 5; ctx.fillRect(x, ground - 148, 24, 150); ctx.beginPath(); ctx.arc(x + 12 + sway, ground - 148, 40 + (world.state.level * 5), 0, Math.PI * 2); ctx.fill(); }
+        ctx.fillStyle = '#020617'; ctx.fillRect(0, ground, CANVAS_WIDTH, 32); ctx.fillStyle = '#14532d'; ctx.fillRect(0, ground, CANVAS_WIDTH, 6);
     }
   };
 
+  const drawSeedEntry = (ctx: CanvasRenderingContext2D, y: number) => {
+    ctx.fillStyle = '#facc15'; ctx.font = '18px monospace';
+    ctx.fillText(`NEXT SEED: ${seedLabel()}`, CANVAS_WIDTH/2, y);
+    ctx.fillStyle = '#9ca3af'; ctx.font = '14px monospace';
+    ctx.fillText('Type digits for a custom seed, N for the daily seed', CANVAS_WIDTH/2, y + 22);
+  };
+
+  const drawReplayHint = (ctx: CanvasRenderingContext2D, y: number) => {
+    const r = replay.current;
+    ctx.font = '14px monospace';
+    if (playtestLevel) { ctx.fillStyle = '#9ca3af'; ctx.fillText('ESC: Back to the level editor', CANVAS_WIDTH/2, y); return; }
+    if (r.error) { ctx.fillStyle = '#ef4444'; ctx.fillText(r.error, CANVAS_WIDTH/2, y); return; }
+    ctx.fillStyle = '#9ca3af';
+    ctx.fillText(r.last ? 'E: Export replay of last run   L: Load replay' : 'L: Load replay', CANVAS_WIDTH/2, y);
+  };
+
+  const drawContinue = (ctx: CanvasRenderingContext2D) => {
+    const run = savedRun.current;
+    if (!run || playtestLevel) return;
+    ctx.fillStyle = '#22c55e'; ctx.font = '22px monospace';
+    ctx.fillText(`CONTINUE: LEVEL ${run.level}  SCORE ${run.score}  LIVES ${run.lives}`, CANVAS_WIDTH/2, CONTINUE_Y);
+    ctx.fillStyle = '#9ca3af'; ctx.font = '14px monospace';
+    ctx.fillText('C / Y button / tap here', CANVAS_WIDTH/2, CONTINUE_Y + 22);
+  };
+
+  const drawRunStats = (ctx: CanvasRenderingContext2D, y: number) => {
+    const { stats } = sim.current.world;
+    ctx.fillStyle = '#d1d5db'; ctx.font = '16px monospace';
+    ctx.fillText(`WOLVES ${stats.wolvesKilled}  CROWS ${stats.crowsKilled}  RABBITS ${stats.rabbitsRetrieved}  FETCHED ${stats.gameRetrieved}  SNARES ${stats.snares}  PICKUPS ${stats.pickups}  DAMAGE TAKEN ${stats.damageTaken}`, CANVAS_WIDTH/2, y);
+  };
+
+  // One row per active power-up: its label, seconds left and a bar draining toward expiry
+  const drawPowerUpTimers = (ctx: CanvasRenderingContext2D, powerUps: Record<string, number>, x: number, y: number) => {
+    ctx.font = '14px monospace';
+    Object.entries(powerUps).forEach(([kind, ticks], i) => {
+      const def = getPowerUpDefinition(kind);
+      const full = Math.max(ticks, def?.duration ?? ticks);
+      const rowY = y + i * 22;
+      ctx.fillStyle = def?.color ?? '#fff';
+      ctx.fillText(`${(def?.label ?? kind).replace('!', '')} ${Math.ceil(ticks / TICK_RATE)}s`, x, rowY + 12);
+      ctx.fillStyle = 'rgba(255,255,255,0.2)'; ctx.fillRect(x, rowY + 15, 120, 3);
+      ctx.fillStyle = def?.color ?? '#fff'; ctx.fillRect(x, rowY + 15, 120 * (ticks / full), 3);
+    });
+    ctx.font = '20px monospace';
+  };
+
+  const drawPlugins = (ctx: CanvasRenderingContext2D) => {
+    const plugins = loadedPlugins();
+    if (plugins.length === 0) return;
+    ctx.font = '14px monospace';
+    plugins.forEach((p, i) => {
+      ctx.fillStyle = p.error ? '#ef4444' : '#9ca3af';
+      ctx.fillText(p.error ? `PLUGIN ${p.name} DISABLED: ${p.error}` : `PLUGIN ${p.name}`, CANVAS_WIDTH/2, CONTINUE_Y + 50 + i * 18);
+    });
+  };
+
+  const hitsContinue = (x: number, y: number) =>
+    savedRun.current !== null && sim.current.world.state.status === GameStatus.MENU &&
+    Math.abs(x - CANVAS_WIDTH/2) < CONTINUE_HIT_HALF_WIDTH && y > CONTINUE_Y - 30 && y < CONTINUE_Y + 30;
+
+  const drawScoresButton = (ctx: CanvasRenderingContext2D) => {
+    ctx.strokeStyle = '#facc15'; ctx.lineWidth = 2;
+    ctx.strokeRect(SCORES_BTN_X - SCORES_BTN_WIDTH/2, SCORES_BTN_Y - SCORES_BTN_HEIGHT/2, SCORES_BTN_WIDTH, SCORES_BTN_HEIGHT);
+    ctx.fillStyle = '#facc15'; ctx.font = '16px monospace';
+    ctx.fillText('H: HIGH SCORES', SCORES_BTN_X, SCORES_BTN_Y + 6);
+  };
+
+  const drawHighScoreEntry = (ctx: CanvasRenderingContext2D) => {
+    ctx.fillStyle = 'rgba(0,0,0,0.9)'; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#facc15'; ctx.font = '40px monospace'; ctx.fillText('NEW HIGH SCORE!', CANVAS_WIDTH/2, 90);
+    ctx.fillStyle = '#fff'; ctx.font = '22px monospace'; ctx.fillText(`${highScores.current.pending?.score ?? 0}`, CANVAS_WIDTH/2, 130);
+    ctx.fillStyle = '#9ca3af'; ctx.font = '14px monospace';
+    ctx.fillText('Type or use up/down to pick letters, ENTER / OK to confirm', CANVAS_WIDTH/2, 160);
+    drawInitialsEntry(ctx, highScores.current.entry!, CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 20);
+  };
+
+  const drawLeaderboard = (ctx: CanvasRenderingContext2D) => {
+    const { scores, highlight } = highScores.current;
+    ctx.fillStyle = 'rgba(0,0,0,0.9)'; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.textAlign = 'center'; ctx.fillStyle = '#facc15'; ctx.font = '40px monospace';
+    ctx.fillText('HIGH SCORES', CANVAS_WIDTH/2, 70);
+    const columns = [130, 210, 300, 440, 530, 690, 830];
+    const row = (cells: string[], y: number) => cells.forEach((cell, i) => ctx.fillText(cell, columns[i], y));
+    ctx.textAlign = 'left'; ctx.font = '16px monospace'; ctx.fillStyle = '#9ca3af';
+    row(['RANK', 'NAME', 'SCORE', 'LEVEL', 'DATE', 'SEED', 'MODE'], 120);
+    scores.forEach((e, i) => {
+        ctx.fillStyle = i === highlight ? '#22c55e' : '#fff';
+        row([`${rankOf(scores, i)}.`, e.initials, `${e.score}`, `${e.level}`, e.date, `${e.seed}`, e.difficulty], 155 + i * 32);
+    });
+    ctx.textAlign = 'center'; ctx.fillStyle = '#9ca3af'; ctx.font = '14px monospace';
+    if (scores.length === 0) ctx.fillText('No scores yet', CANVAS_WIDTH/2, 200);
+    ctx.fillText('ESC / tap to close', CANVAS_WIDTH/2, CANVAS_HEIGHT - 20);
+  };
+
+  const drawTelemetry = (ctx: CanvasRenderingContext2D) => {
+    const pools: Pool<unknown>[] = Object.values(sim.current.world.pools);
+    ctx.textAlign = 'left'; ctx.font = '12px monospace';
+    ctx.fillStyle = 'rgba(0,0,0,0.6)'; ctx.fillRect(8, CANVAS_HEIGHT - 16 - pools.length * 16, 470, pools.length * 16 + 8);
+    pools.forEach((pool, i) => {
+        const { peak, allocated, dropped, recycled } = pool.stats;
+        const full = pool.items.length >= pool.capacity;
+        ctx.fillStyle = full ? '#f87171' : '#a3e635';
+        ctx.fillText(`${pool.name.padEnd(13)} ${pool.items.length}/${pool.capacity}  peak ${peak}  alloc ${allocated}  drop ${dropped}  recycle ${recycled}`,
+            14, CANVAS_HEIGHT - 14 - (pools.length - 1 - i) * 16);
+    });
+  };
+
+  const drawReplayOverlay = (ctx: CanvasRenderingContext2D) => {
+    const r = replay.current;
+    const player = r.player!;
+    ctx.textAlign = 'center';
+    ctx.fillStyle = 'rgba(0,0,0,0.6)'; ctx.fillRect(CANVAS_WIDTH/2 - 220, 8, 440, 48);
+    ctx.fillStyle = '#f43f5e'; ctx.font = 'bold 16px monospace';
+    const mode = r.paused ? 'PAUSED' : (r.fastForward ? `${REPLAY_FAST_FORWARD}x` : 'PLAYING');
+    ctx.fillText(`REPLAY ${mode}  ${player.frame}/${player.replay.frameCount}  SEED ${player.replay.seed}`, CANVAS_WIDTH/2, 28);
+    ctx.fillStyle = '#d1d5db'; ctx.font = '12px monospace';
+    const versionNote = player.replay.gameVersion !== GAME_VERSION ? `  (recorded on v${player.replay.gameVersion})` : '';
+    ctx.fillText(`SPACE pause  F fast-forward  . step  ESC exit${versionNote}`, CANVAS_WIDTH/2, 46);
+  };
+
   const draw = () => {
+    const world = sim.current.world;
     const ctx = canvasRef.current?.getContext('2d');
     if (!ctx) return;
 
-    drawBackground(ctx);
+    // Camera position blended between ticks, like the entities
+    const cam = view.current;
+    drawBackground(ctx, cam);
 
     // --- LEVEL 4 DRAW: RISING WATER ---
-    if (state.current.level === 4 && state.current.floodLevel > 0) {
+    if (world.level.flood && world.state.floodLevel > 0) {
         ctx.fillStyle = 'rgba(37, 99, 235, 0.5)'; // Transparent Blue
-        const waterHeight = state.current.floodLevel;
-        const waterY = CANVAS_HEIGHT - waterHeight;
+        const waterHeight = world.state.floodLevel;
+        const waterY = levelSize(world.level).height - waterHeight - cam.y;
         
         ctx.fillRect(0, waterY, CANVAS_WIDTH, waterHeight);
         
@@ -1256,39 +790,42 @@ const GameLogic: React.FC = () => {
         ctx.fillStyle = '#60a5fa';
         ctx.fillRect(0, waterY, CANVAS_WIDTH, 4);
         
-        // Foam
+        // Foam, anchored to the world so it drifts past as the view scrolls
         ctx.fillStyle = '#fff';
-        for(let i=0; i<CANVAS_WIDTH; i+=40) {
-            if ((i + engine.current.frameCount) % 80 < 40) {
+        for(let i=-wrap(cam.x, 40); i<CANVAS_WIDTH; i+=40) {
+            if ((Math.round(i + cam.x) + world.engine.frameCount) % 80 < 40) {
                 ctx.fillRect(i, waterY, 20, 2);
             }
         }
     }
 
-    if (state.current.isRaining) {
+    // Rain is in screen space
+    if (world.state.isRaining) {
         ctx.fillStyle = 'rgba(174, 194, 224, 0.6)';
-        entities.current.rainDrops.forEach(d => {
+        world.entities.rainDrops.forEach(d => {
             ctx.fillRect(d.x, d.y, 2, d.length);
         });
     }
 
-    if (engine.current.shake > 0) {
-        ctx.save(); const dx = (Math.random() - 0.5) * engine.current.shake; const dy = (Math.random() - 0.5) * engine.current.shake; ctx.translate(dx, dy); engine.current.shake *= 0.9; if (engine.current.shake < 0.5) engine.current.shake = 0;
+    // Everything below is drawn in world coordinates
+    ctx.save();
+    ctx.translate(-Math.round(cam.x), -Math.round(cam.y));
+
+    const shaking = world.engine.shake > 0 && settings.current.screenShake;
+    if (shaking) {
+        ctx.save(); const dx = (Math.random() - 0.5) * world.engine.shake; const dy = (Math.random() - 0.5) * world.engine.shake; ctx.translate(dx, dy);
     }
 
     ctx.fillStyle = '#404040';
-    entities.current.platforms.forEach(p => {
-        ctx.fillStyle = state.current.level === 3 ? '#57534e' : '#1e293b'; ctx.fillRect(p.x, p.y, p.width, p.height);
-        ctx.fillStyle = state.current.level === 3 ? '#84cc16' : '#15803d'; ctx.fillRect(p.x, p.y, p.width, 5);
-    });
+    world.entities.platforms.forEach(p => drawPlatform(ctx, p, sim.current.isTopDown()));
 
-    if (entities.current.door) {
-        const d = entities.current.door;
+    if (world.entities.door) {
+        const d = world.entities.door;
         ctx.fillStyle = d.isOpen ? '#22c55e' : '#7f1d1d'; ctx.fillRect(d.x, d.y, d.width, d.height);
         ctx.strokeStyle = '#fff'; ctx.strokeRect(d.x, d.y, d.width, d.height);
     }
 
-    entities.current.cages.forEach(c => {
+    world.entities.cages.forEach(c => {
          ctx.fillStyle = '#9ca3af'; ctx.fillRect(c.x, c.y, c.width, c.height);
          ctx.strokeStyle = '#374151'; ctx.lineWidth = 4;
          ctx.strokeRect(c.x, c.y, c.width, c.height);
@@ -1298,20 +835,23 @@ const GameLogic: React.FC = () => {
          ctx.fillStyle = '#fff'; ctx.font = '10px monospace'; ctx.fillText(`${c.health}`, c.x + c.width/2, c.y - 10);
     });
 
-    entities.current.bushes.forEach(b => {
+    world.entities.bushes.forEach(b => {
          ctx.save(); ctx.translate(b.x + b.width/2, b.y + b.height/2);
          if (b.shakeTimer > 0) ctx.rotate((Math.random() - 0.5) * 0.2);
-         ctx.fillStyle = '#14532d'; ctx.beginPath(); ctx.arc(-10, 5, 15, 0, Math.PI*2); ctx.fill(); ctx.beginPath(); ctx.arc(10, 5, 15, 0, Math.PI*2); ctx.fill();
-         ctx.fillStyle = '#166534'; ctx.beginPath(); ctx.arc(0, -5, 18, 0, Math.PI*2); ctx.fill();
+         // Burning bushes char as they burn down
+         const burnt = b.burnTimer > 0 ? 1 - b.burnTimer / BUSH_BURN_TICKS : 0;
+         ctx.globalAlpha = 1 - burnt * 0.7;
+         ctx.fillStyle = b.burnTimer > 0 ? '#44403c' : '#14532d'; ctx.beginPath(); ctx.arc(-10, 5, 15, 0, Math.PI*2); ctx.fill(); ctx.beginPath(); ctx.arc(10, 5, 15, 0, Math.PI*2); ctx.fill();
+         ctx.fillStyle = b.burnTimer > 0 ? '#b45309' : '#166534'; ctx.beginPath(); ctx.arc(0, -5, 18, 0, Math.PI*2); ctx.fill();
          if (b.id % 2 > 1) { ctx.fillStyle = '#ef4444'; ctx.beginPath(); ctx.arc(-5, -5, 3, 0, Math.PI*2); ctx.fill(); ctx.beginPath(); ctx.arc(5, 0, 3, 0, Math.PI*2); ctx.fill(); }
          ctx.restore();
     });
 
-    entities.current.rabbits.forEach(r => {
+    world.entities.rabbits.forEach(r => {
         if (!r.isHidden && r.state !== 'DEAD') {
             ctx.save(); ctx.translate(r.x + r.width/2, r.y + r.height/2);
             if (!r.facingRight) ctx.scale(-1, 1);
-            const hop = Math.abs(Math.sin(engine.current.frameCount * 0.5)) * 5;
+            const hop = Math.abs(Math.sin(world.engine.frameCount * 0.5)) * 5;
             ctx.fillStyle = '#fff'; ctx.fillRect(-8, -4 - hop, 16, 12); ctx.fillRect(4, -10 - hop, 10, 10);
             ctx.fillStyle = '#fca5a5'; ctx.fillRect(6, -18 - hop, 2, 8); ctx.fillRect(10, -18 - hop, 2, 8);
             ctx.fillStyle = '#000'; ctx.fillRect(10, -8 - hop, 2, 2);
@@ -1319,14 +859,37 @@ const GameLogic: React.FC = () => {
         }
     });
 
+    world.entities.creatures.forEach(c => drawCreature(ctx, c, world.engine.frameCount));
+
     ctx.strokeStyle = '#fff';
-    entities.current.traps.forEach(t => {
-        ctx.save(); ctx.translate(t.x + t.width/2, t.y + t.height/2); ctx.rotate(t.rotation);
-        ctx.beginPath(); ctx.moveTo(-8, -8); ctx.lineTo(8, 8); ctx.moveTo(8, -8); ctx.lineTo(-8, 8); ctx.strokeRect(-8, -8, 16, 16); ctx.restore();
+    world.entities.traps.forEach(t => {
+        if (t.state === 'FLYING') {
+            ctx.save(); ctx.translate(t.x + t.width/2, t.y + t.height/2); ctx.rotate(t.rotation);
+            ctx.beginPath(); ctx.moveTo(-8, -8); ctx.lineTo(8, 8); ctx.moveTo(8, -8); ctx.lineTo(-8, 8); ctx.strokeRect(-8, -8, 16, 16); ctx.restore();
+        } else if (t.state === 'STUCK') {
+            // Spread flat on the ground, with stakes that glint once armed
+            const armed = t.timer >= TRAP_ARM_TICKS;
+            ctx.strokeStyle = armed ? '#e5e7eb' : '#9ca3af';
+            ctx.beginPath();
+            for (let i = 0; i <= 4; i++) { ctx.moveTo(t.x - 4 + i * 6, t.y + t.height - 4); ctx.lineTo(t.x + i * 6, t.y + t.height); }
+            ctx.moveTo(t.x - 4, t.y + t.height - 2); ctx.lineTo(t.x + t.width + 4, t.y + t.height - 2);
+            ctx.stroke();
+            if (armed && world.engine.frameCount % 60 < 30) { ctx.fillStyle = '#facc15'; ctx.fillRect(t.x - 5, t.y + t.height - 6, 2, 6); ctx.fillRect(t.x + t.width + 3, t.y + t.height - 6, 2, 6); }
+            ctx.strokeStyle = '#fff';
+        } else {
+            // Bound over whatever it caught
+            ctx.strokeStyle = '#e5e7eb'; ctx.lineWidth = 1.5;
+            ctx.beginPath();
+            for (let x = t.x; x <= t.x + t.width; x += 6) { ctx.moveTo(x, t.y); ctx.lineTo(x + t.height / 2, t.y + t.height); }
+            for (let x = t.x + t.width; x >= t.x; x -= 6) { ctx.moveTo(x, t.y); ctx.lineTo(x - t.height / 2, t.y + t.height); }
+            ctx.stroke();
+            ctx.strokeRect(t.x, t.y, t.width, t.height);
+            ctx.lineWidth = 1; ctx.strokeStyle = '#fff';
+        }
     });
 
     // DRAW ARROWS (VISIBLE)
-    entities.current.arrows.forEach(a => {
+    world.entities.arrows.forEach(a => {
         ctx.save();
         ctx.translate(a.x, a.y);
         ctx.rotate(a.rotation);
@@ -1340,21 +903,36 @@ const GameLogic: React.FC = () => {
         ctx.fillRect(-8, -1, 16, 2);
         
         // Tip
-        ctx.fillStyle = '#fff';
+        ctx.fillStyle = a.fire ? '#f97316' : a.pierce > 0 ? '#e5e7eb' : '#fff';
         ctx.beginPath(); ctx.moveTo(8, -3); ctx.lineTo(14, 0); ctx.lineTo(8, 3); ctx.fill();
         
         ctx.restore();
     });
 
     // --- DRAW ENEMIES (WOLVES - SOLID CHUNKY STYLE) ---
-    entities.current.enemies.forEach(e => {
+    world.entities.enemies.forEach(e => {
+        const { boss, pack } = e;
         ctx.save();
         ctx.translate(e.x + e.width/2, e.y + e.height/2);
-        const facingRight = e.vx > 0;
+        // Charger's tell: shakes and crouches with a warning mark before it charges
+        if (pack?.tactic === 'WIND_UP' && e.stunTimer <= 0) {
+            ctx.fillStyle = '#facc15'; ctx.font = '20px monospace'; ctx.textAlign = 'center';
+            ctx.fillText('!', 0, -e.height/2 - 14);
+            ctx.translate(Math.sin(world.engine.frameCount * 2) * 1.5, 3);
+            ctx.scale(1, 0.85);
+        }
+        const facingRight = (boss ?? pack)?.facingRight ?? e.vx > 0;
         if (!facingRight) ctx.scale(-1, 1);
+        if (boss) {
+            // Same wolf, drawn larger; crouches before a leap and fades out as it dies
+            const crouch = boss.state === 'WIND_UP' ? 0.85 : 1;
+            ctx.translate(0, (1 - crouch) * e.height / 2);
+            ctx.scale(e.width / 56, (e.height / 36) * crouch);
+            if (boss.state === 'DYING') ctx.globalAlpha = Math.max(0, 1 - boss.timer / BOSS_DEATH_TICKS) * (boss.timer % 10 < 5 ? 1 : 0.6);
+        }
 
-        const cycle = Math.sin(engine.current.frameCount * 0.3) * 5;
-        const color = e.stunTimer > 0 ? '#facc15' : e.color;
+        const cycle = Math.sin(world.engine.frameCount * 0.3) * 5;
+        const color = e.stunTimer > 0 ? '#facc15' : boss?.state === 'DYING' ? '#7f1d1d' : e.color;
         
         // Outline
         // ctx.fillStyle = '#000';
@@ -1395,17 +973,33 @@ const GameLogic: React.FC = () => {
         ctx.fillStyle = color;
         ctx.fillRect(-20, -10 + (cycle/2), 6, 14);
 
-        // Health Bar
-        ctx.fillStyle = '#7f1d1d'; 
-        ctx.fillRect(-15, -40, 30, 4);
-        ctx.fillStyle = '#22c55e'; 
-        ctx.fillRect(-15, -40, 30 * (e.health/e.maxHealth), 4);
+        if (boss) {
+            // Mane and scar
+            ctx.fillStyle = '#57534e';
+            ctx.fillRect(4, -18, 10, 20);
+            ctx.fillRect(8, -24, 8, 6);
+            ctx.fillStyle = '#d6d3d1';
+            ctx.fillRect(18, -20, 2, 8);
+            // Weak point on the flank, glowing while it is held down
+            if (sim.current.bossExposed(e)) {
+                ctx.globalAlpha = 0.6 + Math.sin(world.engine.frameCount * 0.4) * 0.4;
+                ctx.fillStyle = '#f87171';
+                ctx.beginPath(); ctx.arc(-4, -2, 5, 0, Math.PI * 2); ctx.fill();
+                ctx.globalAlpha = 1;
+            }
+        } else {
+            // Health Bar
+            ctx.fillStyle = '#7f1d1d'; 
+            ctx.fillRect(-15, -40, 30, 4);
+            ctx.fillStyle = '#22c55e'; 
+            ctx.fillRect(-15, -40, 30 * (e.health/e.maxHealth), 4);
+        }
         
         ctx.restore();
     });
 
     // --- DRAW CROWS (CHUNKY PIXEL) ---
-    entities.current.crows.forEach(c => {
+    world.entities.crows.forEach(c => {
          ctx.save(); 
          ctx.translate(c.x + c.width/2, c.y + c.height/2); 
          if (!c.facingRight) ctx.scale(-1, 1);
@@ -1424,7 +1018,7 @@ const GameLogic: React.FC = () => {
          // Wing (Animated)
          ctx.fillStyle = '#000';
          if (c.state === 'FLY') {
-             const flap = Math.floor(Math.sin(engine.current.frameCount * 0.5) * 8);
+             const flap = Math.floor(Math.sin(world.engine.frameCount * 0.5) * 8);
              ctx.fillRect(-5, -10 + flap, 12, 6);
          } else {
              ctx.fillRect(-8, -8, 12, 6); // Dive wings
@@ -1434,7 +1028,7 @@ const GameLogic: React.FC = () => {
     });
 
     // --- DRAW PLAYER (RETRO LINK STYLE) ---
-    const p = entities.current.player;
+    const p = world.entities.player;
     if (p) {
         ctx.save();
         ctx.translate(p.x + p.width/2, p.y + p.height/2);
@@ -1444,7 +1038,7 @@ const GameLogic: React.FC = () => {
 
         // Boots
         ctx.fillStyle = '#78350f';
-        const walk = (Math.abs(p.vx) > 0.1 || Math.abs(p.vy) > 0.1) && (p.grounded || isTopDown()) ? Math.sin(engine.current.frameCount * 0.4) * 6 : 0;
+        const walk = (Math.abs(p.vx) > 0.1 || Math.abs(p.vy) > 0.1) && (p.grounded || sim.current.isTopDown()) ? Math.sin(world.engine.frameCount * 0.4) * 6 : 0;
         ctx.fillRect(-10 + walk, 12, 8, 12); // Left Leg
         ctx.fillRect(2 - walk, 12, 8, 12);  // Right Leg
 
@@ -1476,7 +1070,7 @@ const GameLogic: React.FC = () => {
         ctx.rotate(armAngle);
         
         // AIMING GUIDE (Trajectory)
-        if (p.isAiming || input.current.mouse.leftDown || input.current.touch.rightStick.active) {
+        if (p.isAiming || lastFrame.current.mouse.leftDown || lastFrame.current.touch.rightStick.active) {
             ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
             ctx.lineWidth = 1;
             ctx.setLineDash([4, 4]);
@@ -1505,7 +1099,7 @@ const GameLogic: React.FC = () => {
         ctx.strokeStyle = '#fff';
         ctx.lineWidth = 1;
         ctx.beginPath();
-        if (p.isAiming || input.current.mouse.leftDown || input.current.touch.rightStick.active) {
+        if (p.isAiming || lastFrame.current.mouse.leftDown || lastFrame.current.touch.rightStick.active) {
             ctx.moveTo(14, -14); ctx.lineTo(4, 0); ctx.lineTo(14, 14); // Pulled
             // Arrow Loaded
             ctx.fillStyle = '#fbbf24';
@@ -1517,105 +1111,275 @@ const GameLogic: React.FC = () => {
 
         ctx.restore();
         
-        if (p.powerUpTimer > 0) {
-            ctx.fillStyle = '#22d3ee'; ctx.fillRect(-10, -35, 20, 4);
-            ctx.fillStyle = '#fff'; ctx.fillRect(-10, -35, 20 * (p.powerUpTimer / 300), 4);
+        if (hasPowerUp(p, 'SHIELD')) {
+            // Flickers in its last second
+            if (p.powerUps.SHIELD > 60 || world.engine.frameCount % 8 < 4) {
+                ctx.strokeStyle = '#22d3ee'; ctx.lineWidth = 2; ctx.globalAlpha = 0.7;
+                ctx.beginPath(); ctx.arc(0, 0, 34, 0, Math.PI * 2); ctx.stroke();
+                ctx.globalAlpha = 1; ctx.lineWidth = 1;
+            }
         }
         ctx.restore();
     }
 
-    if (entities.current.dog) drawDog(ctx, entities.current.dog);
+    if (world.entities.dog) drawDog(ctx, world.entities.dog);
 
-    entities.current.particles.forEach(pt => {
+    world.level.water?.forEach(w => drawWater(ctx, w, world.engine.frameCount));
+
+    world.entities.particles.forEach(pt => {
         ctx.fillStyle = pt.color; ctx.fillRect(pt.x, pt.y, pt.size, pt.size);
     });
 
-    entities.current.meats.forEach(m => {
+    world.entities.meats.forEach(m => {
          ctx.fillStyle = '#ef4444'; ctx.beginPath(); ctx.arc(m.x + m.width/2, m.y + m.height/2, 8, 0, Math.PI * 2); ctx.fill();
          ctx.fillStyle = '#fff'; ctx.fillRect(m.x + 4, m.y + 6, 8, 4);
     });
 
+    world.entities.powerups.forEach(p => {
+         ctx.fillStyle = getPowerUpDefinition(p.kind)?.color ?? '#fff';
+         ctx.beginPath(); ctx.moveTo(p.x + 8, p.y); ctx.lineTo(p.x + 16, p.y + 8); ctx.lineTo(p.x + 8, p.y + 16); ctx.lineTo(p.x, p.y + 8); ctx.fill();
+    });
+
     ctx.font = 'bold 16px monospace';
     ctx.textAlign = 'center';
-    entities.current.floatingTexts.forEach(t => {
+    world.entities.floatingTexts.forEach(t => {
         ctx.fillStyle = t.color; ctx.globalAlpha = Math.max(0, t.lifeTime / 60); ctx.fillText(t.text, t.x, t.y); ctx.globalAlpha = 1;
     });
 
-    if (engine.current.shake > 0) ctx.restore();
+    if (shaking) ctx.restore();
+    ctx.restore();
 
     // UI HUD
     ctx.textAlign = 'left'; ctx.fillStyle = '#fff'; ctx.font = '20px monospace';
-    ctx.fillText(`LIVES: ${state.current.lives}`, 20, 30);
-    ctx.fillText(`LEVEL: ${state.current.level}`, 20, 60);
-    ctx.fillText(`SCORE: ${state.current.score}`, 20, 90);
+    ctx.fillText(`LIVES: ${world.state.lives}`, 20, 30);
+    ctx.fillText(`LEVEL: ${world.state.level}`, 20, 60);
+    ctx.fillText(`SCORE: ${world.state.score}`, 20, 90);
+    if (world.entities.player) {
+        const armed = world.entities.traps.filter(t => t.state === 'STUCK').length;
+        ctx.fillText(`NETS: ${world.entities.player.nets}${armed > 0 ? ` (${armed} SET)` : ''}`, 20, 120);
+        drawPowerUpTimers(ctx, world.entities.player.powerUps, 20, 140);
+    }
     
     ctx.textAlign = 'right';
-    if (state.current.level === 3) {
-        ctx.fillText(`RABBITS: ${state.current.enemiesKilled}/${state.current.enemiesRequired}`, CANVAS_WIDTH - 20, 30);
-    } else {
-        ctx.fillText(`ENEMIES: ${state.current.enemiesKilled}/${state.current.enemiesRequired}`, CANVAS_WIDTH - 20, 30);
+    if (sim.current.isTopDown()) {
+        ctx.fillText(`RABBITS: ${world.state.enemiesKilled}/${world.state.enemiesRequired}`, CANVAS_WIDTH - 20, 30);
+    } else if (world.state.hunt.total > 0) {
+        const { hunt } = world.state;
+        ctx.fillText(`BAG: ${world.state.enemiesKilled}/${world.state.enemiesRequired}`, CANVAS_WIDTH - 20, 30);
+        ctx.font = '14px monospace'; ctx.fillStyle = '#d1d5db';
+        ctx.fillText(`ESCAPED ${hunt.escaped}  MISSED ${hunt.missed}`, CANVAS_WIDTH - 20, 52);
+        ctx.font = '20px monospace'; ctx.fillStyle = '#fff';
+    } else if (!world.level.boss) {
+        ctx.fillText(`ENEMIES: ${world.state.enemiesKilled}/${world.state.enemiesRequired}`, CANVAS_WIDTH - 20, 30);
+    }
+
+    const alpha = world.entities.enemies.find(e => e.boss);
+    if (alpha?.boss) {
+        const barWidth = 360, barX = CANVAS_WIDTH/2 - barWidth/2;
+        ctx.textAlign = 'center'; ctx.font = '16px monospace'; ctx.fillStyle = '#fff';
+        ctx.fillText(`ALPHA WOLF - PHASE ${alpha.boss.phase}`, CANVAS_WIDTH/2, 24);
+        ctx.fillStyle = '#450a0a'; ctx.fillRect(barX, 32, barWidth, 10);
+        ctx.fillStyle = alpha.boss.phase === 3 ? '#ef4444' : '#dc2626';
+        ctx.fillRect(barX, 32, barWidth * Math.max(0, alpha.health / alpha.maxHealth), 10);
+        ctx.strokeStyle = '#fff'; ctx.lineWidth = 1; ctx.strokeRect(barX, 32, barWidth, 10);
+        ctx.font = '20px monospace';
     }
 
     // Controls
     ctx.globalAlpha = 0.3;
-    ctx.beginPath(); ctx.arc(LEFT_STICK_X, LEFT_STICK_Y, JOYSTICK_RADIUS, 0, Math.PI*2); ctx.fillStyle = '#fff'; ctx.fill();
-    ctx.beginPath(); const ls = input.current.touch.leftStick; ctx.arc(LEFT_STICK_X + ls.x, LEFT_STICK_Y + ls.y, 20, 0, Math.PI*2); ctx.fillStyle = '#fff'; ctx.fill();
+    if (settings.current.touchControls) {
+        ctx.beginPath(); ctx.arc(LEFT_STICK_X, LEFT_STICK_Y, JOYSTICK_RADIUS, 0, Math.PI*2); ctx.fillStyle = '#fff'; ctx.fill();
+        ctx.beginPath(); const ls = lastFrame.current.touch.leftStick; ctx.arc(LEFT_STICK_X + ls.x, LEFT_STICK_Y + ls.y, 20, 0, Math.PI*2); ctx.fillStyle = '#fff'; ctx.fill();
 
-    ctx.beginPath(); ctx.arc(RIGHT_STICK_X, RIGHT_STICK_Y, JOYSTICK_RADIUS, 0, Math.PI*2); ctx.fillStyle = '#fff'; ctx.fill();
-    const rs = input.current.touch.rightStick; ctx.beginPath(); ctx.arc(RIGHT_STICK_X + rs.x, RIGHT_STICK_Y + rs.y, 20, 0, Math.PI*2); ctx.fill();
+        ctx.beginPath(); ctx.arc(RIGHT_STICK_X, RIGHT_STICK_Y, JOYSTICK_RADIUS, 0, Math.PI*2); ctx.fillStyle = '#fff'; ctx.fill();
+        const rs = lastFrame.current.touch.rightStick; ctx.beginPath(); ctx.arc(RIGHT_STICK_X + rs.x, RIGHT_STICK_Y + rs.y, 20, 0, Math.PI*2); ctx.fill();
 
-    ctx.textAlign = 'center';
-    ctx.beginPath(); ctx.arc(TRAP_BTN_X, TRAP_BTN_Y, TRAP_BTN_RADIUS, 0, Math.PI*2); ctx.fillStyle = '#facc15'; ctx.fill(); ctx.fillStyle = '#000'; ctx.font = '12px monospace'; ctx.fillText('NET', TRAP_BTN_X, TRAP_BTN_Y + 5);
-    ctx.beginPath(); ctx.arc(WHISTLE_BTN_X, WHISTLE_BTN_Y, WHISTLE_BTN_RADIUS, 0, Math.PI*2); ctx.fillStyle = '#3b82f6'; ctx.fill(); ctx.fillStyle = '#fff'; ctx.fillText('CALL', WHISTLE_BTN_X, WHISTLE_BTN_Y + 5);
-    ctx.beginPath(); ctx.arc(DASH_BTN_X, DASH_BTN_Y, DASH_BTN_RADIUS, 0, Math.PI*2); ctx.fillStyle = '#ef4444'; ctx.fill(); ctx.fillStyle = '#fff'; ctx.fillText('DASH', DASH_BTN_X, DASH_BTN_Y + 5);
+        ctx.textAlign = 'center';
+        ctx.beginPath(); ctx.arc(TRAP_BTN_X, TRAP_BTN_Y, TRAP_BTN_RADIUS, 0, Math.PI*2); ctx.fillStyle = '#facc15'; ctx.fill(); ctx.fillStyle = '#000'; ctx.font = '12px monospace'; ctx.fillText('NET', TRAP_BTN_X, TRAP_BTN_Y + 5);
+        ctx.beginPath(); ctx.arc(WHISTLE_BTN_X, WHISTLE_BTN_Y, WHISTLE_BTN_RADIUS, 0, Math.PI*2); ctx.fillStyle = '#3b82f6'; ctx.fill(); ctx.fillStyle = '#fff'; ctx.fillText('CALL', WHISTLE_BTN_X, WHISTLE_BTN_Y + 5);
+        ctx.beginPath(); ctx.arc(DASH_BTN_X, DASH_BTN_Y, DASH_BTN_RADIUS, 0, Math.PI*2); ctx.fillStyle = '#ef4444'; ctx.fill(); ctx.fillStyle = '#fff'; ctx.fillText('DASH', DASH_BTN_X, DASH_BTN_Y + 5);
+    }
+    if (world.state.status === GameStatus.PLAYING && !replay.current.player) {
+        ctx.beginPath(); ctx.arc(PAUSE_BTN_X, PAUSE_BTN_Y, PAUSE_BTN_RADIUS, 0, Math.PI*2); ctx.fillStyle = '#fff'; ctx.fill();
+        ctx.fillStyle = '#000'; ctx.fillRect(PAUSE_BTN_X - 7, PAUSE_BTN_Y - 8, 5, 16); ctx.fillRect(PAUSE_BTN_X + 2, PAUSE_BTN_Y - 8, 5, 16);
+    }
     ctx.globalAlpha = 1;
+    ctx.textAlign = 'center';
 
     // Screens
-    if (state.current.status === GameStatus.GAME_OVER) {
+    if (world.state.status === GameStatus.GAME_OVER) {
          ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT); ctx.fillStyle = '#ef4444'; ctx.font = '60px monospace'; ctx.fillText('GAME OVER', CANVAS_WIDTH/2, CANVAS_HEIGHT/2); ctx.fillStyle = '#fff'; ctx.font = '20px monospace'; ctx.fillText('Press SPACE or Tap to Retry', CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 50);
-    } else if (state.current.status === GameStatus.VICTORY) {
-         ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT); ctx.fillStyle = '#facc15'; ctx.font = '60px monospace'; ctx.fillText('VICTORY!', CANVAS_WIDTH/2, CANVAS_HEIGHT/2); ctx.fillStyle = '#fff'; ctx.font = '20px monospace'; ctx.fillText('Final Score: ' + state.current.score, CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 50);
-    } else if (state.current.status === GameStatus.MENU) {
+         ctx.fillText('Run Seed: ' + world.state.seed, CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 80);
+         drawRunStats(ctx, CANVAS_HEIGHT/2 - 70);
+         drawSeedEntry(ctx, CANVAS_HEIGHT/2 + 130);
+         drawReplayHint(ctx, CANVAS_HEIGHT/2 + 180);
+    } else if (world.state.status === GameStatus.VICTORY) {
+         ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT); ctx.fillStyle = '#facc15'; ctx.font = '60px monospace'; ctx.fillText('VICTORY!', CANVAS_WIDTH/2, CANVAS_HEIGHT/2); ctx.fillStyle = '#fff'; ctx.font = '20px monospace'; ctx.fillText('Final Score: ' + world.state.score, CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 50);
+         if (world.stats.bossesDefeated > 0) { ctx.fillStyle = '#ef4444'; ctx.fillText('THE ALPHA HAS FALLEN', CANVAS_WIDTH/2, CANVAS_HEIGHT/2 - 110); ctx.fillStyle = '#fff'; }
+         ctx.fillText('Run Seed: ' + world.state.seed, CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 80);
+         drawRunStats(ctx, CANVAS_HEIGHT/2 - 70);
+         drawSeedEntry(ctx, CANVAS_HEIGHT/2 + 130);
+         drawReplayHint(ctx, CANVAS_HEIGHT/2 + 180);
+    } else if (world.state.status === GameStatus.LEVEL_TRANSITION) {
+         const fade = world.engine.transition;
+         ctx.fillStyle = `rgba(0,0,0,${0.7 * fade})`; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+         ctx.globalAlpha = fade; ctx.fillStyle = '#22c55e'; ctx.font = '50px monospace'; ctx.fillText(`LEVEL ${world.state.level} COMPLETE!`, CANVAS_WIDTH/2, CANVAS_HEIGHT/2);
+         ctx.fillStyle = '#fff'; ctx.font = '20px monospace'; ctx.fillText('Score: ' + world.state.score, CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 50);
+         const { hunt } = world.state;
+         if (hunt.rating) {
+             ctx.fillStyle = '#facc15'; ctx.fillText(`HUNT RATING ${hunt.rating.grade}  (+${hunt.rating.bonus})`, CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 85);
+             ctx.fillStyle = '#d1d5db'; ctx.font = '16px monospace';
+             ctx.fillText(`FETCHED ${hunt.retrieved}/${hunt.total}  ESCAPED ${hunt.escaped}  MISSED ${hunt.missed}`, CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 110);
+         }
+         ctx.globalAlpha = 1;
+    } else if (world.state.status === GameStatus.PAUSED) {
+         ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+         const title = pauseMenu.current.screen === 'SETTINGS' ? 'SETTINGS' : 'PAUSED';
+         drawMenu(ctx, title, pauseItems(), pauseMenu.current.selected, CANVAS_WIDTH/2, CANVAS_HEIGHT/2);
+    } else if (world.state.status === GameStatus.MENU) {
          ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT); ctx.fillStyle = '#fff'; ctx.font = '50px monospace'; ctx.fillText('HUNTER & DOG', CANVAS_WIDTH/2, CANVAS_HEIGHT/2 - 50); ctx.font = '20px monospace'; ctx.fillText('WASD/Arrows to Move', CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 20); ctx.fillText('Mouse/Right Stick to Aim & Shoot', CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 50); ctx.fillText('T/Trap Button to Throw Net', CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 80); ctx.fillText('R/Call Button to Command Dog', CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 110); ctx.fillStyle = '#3b82f6'; ctx.fillText('CLICK TO START', CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 160);
+         drawSeedEntry(ctx, CANVAS_HEIGHT/2 + 200);
+         drawReplayHint(ctx, CANVAS_HEIGHT/2 + 245);
+         ctx.fillStyle = '#9ca3af'; ctx.fillText('M: Level editor   U: Load plugin', CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 265);
+         drawContinue(ctx);
+         drawPlugins(ctx);
+         drawScoresButton(ctx);
     }
+
+    if (debug.current.overlay) drawDebugOverlay(ctx, world, view.current, debug.current.timings);
+    if (showTelemetry.current) drawTelemetry(ctx);
+    if (highScores.current.entry) drawHighScoreEntry(ctx);
+    else if (highScores.current.board) drawLeaderboard(ctx);
+
+    if (replay.current.player) drawReplayOverlay(ctx);
+    if (debug.current.console.open) drawDevConsole(ctx, debug.current.console, CANVAS_WIDTH, CANVAS_HEIGHT);
   };
 
   // --- GAME LOOP ---
+  // Fixed-rate simulation: real time accumulates and is consumed in TICK_MS
+  // steps, so gameplay speed no longer depends on the display's refresh rate.
   useEffect(() => {
-    const loop = () => { update(); draw(); requestRef.current = requestAnimationFrame(loop); };
+    let lastTime: number | null = null;
+    let accumulator = 0;
+    const previous = createPositionSnapshot();
+    snapshotPositions(sim.current.world.entities, previous);
+    let previousCamera = { ...sim.current.world.camera };
+
+    const loop = (now: number) => {
+      handleGamepad();
+      if (lastTime === null) lastTime = now;
+      const elapsed = now - lastTime;
+      // Scaled first, then capped, so a sped-up clock can't run away after a stall either
+      accumulator = Math.min(accumulator + elapsed * debug.current.timeScale, TICK_MS * MAX_CATCH_UP_TICKS);
+      lastTime = now;
+
+      const updateStart = performance.now();
+      while (accumulator >= TICK_MS) {
+        snapshotPositions(sim.current.world.entities, previous);
+        previousCamera = { ...sim.current.world.camera };
+        update();
+        accumulator -= TICK_MS;
+      }
+
+      const drawStart = performance.now();
+      view.current = interpolatePoint(previousCamera, sim.current.world.camera, accumulator / TICK_MS);
+      renderInterpolated(sim.current.world.entities, previous, accumulator / TICK_MS, draw);
+      recordTimings(debug.current.timings, elapsed, drawStart - updateStart, performance.now() - drawStart);
+      requestRef.current = requestAnimationFrame(loop);
+    };
     requestRef.current = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(requestRef.current);
   }, []);
 
+  // A playtest skips the title screen
+  useEffect(() => {
+    if (playtestLevel) initGame();
+  }, []);
+
   // --- INPUT ---
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.code === 'F2') { e.preventDefault(); showTelemetry.current = !showTelemetry.current; return; }
+        if (e.code === 'F3') { e.preventDefault(); debug.current.overlay = !debug.current.overlay; return; }
+        if (e.code === 'Backquote' && !replay.current.player) { e.preventDefault(); toggleConsole(debug.current.console); clearInputs(); return; }
+        if (debug.current.console.open) { handleConsoleInput(e); return; }
+        if (replay.current.player) { handleReplayKey(e); return; }
+        if (highScores.current.entry) { handleInitialsKey(e); return; }
+        if (highScores.current.board) {
+            if (e.code === 'Escape' || e.code === 'Enter' || e.code === 'Space' || e.code === 'KeyH') closeLeaderboard();
+            return;
+        }
+        const status = sim.current.world.state.status;
+        if (status === GameStatus.PAUSED) { handlePauseKey(e); return; }
+        if (status === GameStatus.PLAYING && (e.code === 'Escape' || e.code === 'KeyP')) { pauseGame(); return; }
         input.current.keys.add(e.code);
-        if (state.current.status === GameStatus.MENU || state.current.status === GameStatus.GAME_OVER || state.current.status === GameStatus.VICTORY) { if (e.code === 'Space' || e.code === 'Enter') initGame(); }
+        if (sim.current.world.state.status === GameStatus.MENU || sim.current.world.state.status === GameStatus.GAME_OVER || sim.current.world.state.status === GameStatus.VICTORY) {
+            if (e.code === 'Space' || e.code === 'Enter') initGame();
+            else if (e.code === 'Escape' && playtestLevel) onOpenEditor();
+            else if (e.code === 'KeyM' && sim.current.world.state.status === GameStatus.MENU) onOpenEditor();
+            else if (e.code === 'KeyC' && sim.current.world.state.status === GameStatus.MENU) continueGame();
+            else if (e.code === 'KeyH' && sim.current.world.state.status === GameStatus.MENU) openLeaderboard();
+            else if (e.code === 'KeyU' && sim.current.world.state.status === GameStatus.MENU && !playtestLevel) loadPlugin();
+            else if (e.code === 'KeyE') exportReplay();
+            else if (e.code === 'KeyL') importReplay();
+            else handleSeedKey(e);
+        }
     };
     const handleKeyUp = (e: KeyboardEvent) => input.current.keys.delete(e.code);
     const handleMouseDown = (e: MouseEvent) => {
-        input.current.mouse.leftDown = true;
+        if (replay.current.player) { replay.current.paused = !replay.current.paused; return; }
         const rect = canvasRef.current?.getBoundingClientRect();
         if (rect) { input.current.mouse.x = (e.clientX - rect.left) * (CANVAS_WIDTH / rect.width); input.current.mouse.y = (e.clientY - rect.top) * (CANVAS_HEIGHT / rect.height); }
-        if (state.current.status !== GameStatus.PLAYING) initGame();
-        else if (entities.current.player) fireArrow(entities.current.player); // Instant fire on click
+        const status = sim.current.world.state.status;
+        if (status === GameStatus.PAUSED) { handlePausePointer(input.current.mouse.x, input.current.mouse.y); return; }
+        if (status === GameStatus.LEVEL_TRANSITION) return;
+        if (status !== GameStatus.PLAYING) {
+            if (handleHighScorePointer(input.current.mouse.x, input.current.mouse.y)) return;
+            if (hitsContinue(input.current.mouse.x, input.current.mouse.y)) continueGame(); else initGame();
+            input.current.mouse.leftDown = true;
+            return;
+        }
+        if (Math.hypot(input.current.mouse.x - PAUSE_BTN_X, input.current.mouse.y - PAUSE_BTN_Y) < PAUSE_BTN_RADIUS) { pauseGame(); return; }
+        input.current.mouse.leftDown = true;
+        input.current.fire = true; // Instant fire on click
     };
     const handleMouseUp = () => input.current.mouse.leftDown = false;
     const handleMouseMove = (e: MouseEvent) => {
         const rect = canvasRef.current?.getBoundingClientRect();
         if (rect) { input.current.mouse.x = (e.clientX - rect.left) * (CANVAS_WIDTH / rect.width); input.current.mouse.y = (e.clientY - rect.top) * (CANVAS_HEIGHT / rect.height); }
     };
+    // Backgrounded tab or lost focus: pause instead of letting the hunter die unattended
+    const handleFocusLoss = () => { pauseGame(); clearInputs(); };
+    const handleVisibilityChange = () => { if (document.hidden) handleFocusLoss(); };
     window.addEventListener('keydown', handleKeyDown); window.addEventListener('keyup', handleKeyUp); window.addEventListener('mousedown', handleMouseDown); window.addEventListener('mouseup', handleMouseUp); window.addEventListener('mousemove', handleMouseMove);
-    return () => { window.removeEventListener('keydown', handleKeyDown); window.removeEventListener('keyup', handleKeyUp); window.removeEventListener('mousedown', handleMouseDown); window.removeEventListener('mouseup', handleMouseUp); window.removeEventListener('mousemove', handleMouseMove); };
+    window.addEventListener('blur', handleFocusLoss); document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+        window.removeEventListener('keydown', handleKeyDown); window.removeEventListener('keyup', handleKeyUp); window.removeEventListener('mousedown', handleMouseDown); window.removeEventListener('mouseup', handleMouseUp); window.removeEventListener('mousemove', handleMouseMove);
+        window.removeEventListener('blur', handleFocusLoss); document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
   }, []);
 
   const handleTouchStart = (e: React.TouchEvent) => {
     e.preventDefault(); const rect = canvasRef.current?.getBoundingClientRect(); if (!rect) return;
-    if (state.current.status !== GameStatus.PLAYING) { initGame(); return; }
+    if (replay.current.player) { replay.current.paused = !replay.current.paused; return; }
+    const status = sim.current.world.state.status;
+    if (status === GameStatus.PAUSED) {
+        const t = e.changedTouches[0];
+        handlePausePointer((t.clientX - rect.left) * (CANVAS_WIDTH / rect.width), (t.clientY - rect.top) * (CANVAS_HEIGHT / rect.height));
+        return;
+    }
+    if (status === GameStatus.LEVEL_TRANSITION) return;
+    if (status !== GameStatus.PLAYING) {
+        const t = e.changedTouches[0];
+        const tx = (t.clientX - rect.left) * (CANVAS_WIDTH / rect.width); const ty = (t.clientY - rect.top) * (CANVAS_HEIGHT / rect.height);
+        if (handleHighScorePointer(tx, ty)) return;
+        if (hitsContinue(tx, ty)) continueGame(); else initGame();
+        return;
+    }
     const touches = e.changedTouches;
     for (let i = 0; i < touches.length; i++) {
         const t = touches[i]; const tx = (t.clientX - rect.left) * (CANVAS_WIDTH / rect.width); const ty = (t.clientY - rect.top) * (CANVAS_HEIGHT / rect.height);
+        if (Math.hypot(tx - PAUSE_BTN_X, ty - PAUSE_BTN_Y) < PAUSE_BTN_HIT_RADIUS) { pauseGame(); return; }
         if (Math.hypot(tx - LEFT_STICK_X, ty - LEFT_STICK_Y) < JOYSTICK_HIT_RADIUS) { input.current.touch.leftStick.active = true; input.current.touch.leftStick.touchId = t.identifier; input.current.touch.leftStick.x = 0; input.current.touch.leftStick.y = 0; continue; }
         if (Math.hypot(tx - RIGHT_STICK_X, ty - RIGHT_STICK_Y) < JOYSTICK_HIT_RADIUS) { input.current.touch.rightStick.active = true; input.current.touch.rightStick.touchId = t.identifier; input.current.touch.rightStick.x = 0; input.current.touch.rightStick.y = 0; continue; }
         if (Math.hypot(tx - TRAP_BTN_X, ty - TRAP_BTN_Y) < BUTTON_HIT_RADIUS) input.current.touch.trapBtnPressed = true;
@@ -1641,7 +1405,7 @@ const GameLogic: React.FC = () => {
         if (t.identifier === input.current.touch.leftStick.touchId) { input.current.touch.leftStick.active = false; input.current.touch.leftStick.x = 0; input.current.touch.leftStick.y = 0; input.current.touch.leftStick.touchId = null; }
         if (t.identifier === input.current.touch.rightStick.touchId) { 
             input.current.touch.rightStick.active = false; input.current.touch.rightStick.x = 0; input.current.touch.rightStick.y = 0; input.current.touch.rightStick.touchId = null; 
-            if (entities.current.player) fireArrow(entities.current.player);
+            input.current.fire = true;
         }
     }
   };
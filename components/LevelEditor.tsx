@@ -0,0 +1,538 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EnemyTier, LevelDefinition, LevelPlatform, LevelRect, PlatformKind, PlatformVariant } from '../types';
+import { BOSS_HEALTH, CANVAS_WIDTH, CANVAS_HEIGHT, MOVING_PLATFORM_SPEED, NETS_PER_LEVEL, POWERUP_DROP_CHANCE } from '../engine/constants';
+import { powerUpDefinitions } from '../engine/powerups';
+import { BONUS_LEVELS, BUILTIN_LEVELS, LevelFormatError, PLATFORM_KINDS, PLATFORM_VARIANTS, createBlankLevel, levelSize, parseLevel } from '../engine/levels';
+import { downloadJson, pickTextFile } from '../utils/files';
+import { drawPlatform, drawWater } from '../utils/platformSprites';
+import { deleteFromLibrary, loadDraft, loadLibrary, saveDraft, saveToLibrary } from '../utils/levelLibrary';
+
+// --- EDITOR CONSTANTS ---
+const GRID = 10;
+const HANDLE_SIZE = 10; // Grab area for resizing platforms and water from the bottom-right corner
+const MIN_PLATFORM_SIZE = GRID;
+
+// Sizes the simulation gives each placed object, for drawing and hit-testing
+const DOOR_SIZE = { width: 40, height: 64 };
+const CAGE_SIZE = { width: 40, height: 60 };
+const BUSH_SIZE = { width: 40, height: 30 };
+const PLAYER_SIZE = { width: 24, height: 48 };
+const DOG_SIZE = { width: 32, height: 24 };
+
+type Tool = 'SELECT' | 'PLATFORM' | 'WATER' | 'CAGE' | 'BUSH' | 'RABBIT' | 'DOOR' | 'PLAYER' | 'DOG';
+const TOOLS: Tool[] = ['SELECT', 'PLATFORM', 'WATER', 'CAGE', 'BUSH', 'RABBIT', 'DOOR', 'PLAYER', 'DOG'];
+
+// Index is only meaningful for the list kinds
+type ObjectKind = 'platform' | 'water' | 'cage' | 'bush' | 'door' | 'playerSpawn' | 'dogSpawn';
+type SizedKind = 'platform' | 'water';
+interface Selection { kind: ObjectKind; index: number }
+
+interface Drag {
+  selection: Selection;
+  mode: 'MOVE' | 'RESIZE';
+  offsetX: number; // Pointer position relative to the object's top-left corner
+  offsetY: number;
+}
+
+const snap = (v: number) => Math.round(v / GRID) * GRID;
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// Moving platforms start out with one waypoint a short hop to the right
+const setVariant = (p: LevelPlatform, variant: PlatformVariant) => {
+  p.variant = variant;
+  if (variant === 'MOVING' && !p.path) {
+    p.path = [{ x: p.x + 100, y: p.y }];
+    p.speed = MOVING_PLATFORM_SPEED;
+  } else if (variant !== 'MOVING') {
+    delete p.path;
+    delete p.speed;
+  }
+};
+
+// Platforms and water are drawn out to any size; everything else has a fixed one
+const isSized = (kind: ObjectKind): kind is SizedKind => kind === 'platform' || kind === 'water';
+
+const OBJECT_SIZES: Record<Exclude<ObjectKind, SizedKind>, { width: number; height: number }> = {
+  cage: CAGE_SIZE, bush: BUSH_SIZE, door: DOOR_SIZE, playerSpawn: PLAYER_SIZE, dogSpawn: DOG_SIZE
+};
+
+const pointOf = (level: LevelDefinition, sel: Selection) => {
+  switch (sel.kind) {
+    case 'platform': return level.platforms[sel.index];
+    case 'water': return level.water![sel.index];
+    case 'cage': return level.cages[sel.index];
+    case 'bush': return level.bushes[sel.index];
+    default: return level[sel.kind];
+  }
+};
+
+const boundsOf = (level: LevelDefinition, sel: Selection): LevelRect => {
+  if (sel.kind === 'platform') return level.platforms[sel.index];
+  if (sel.kind === 'water') return level.water![sel.index];
+  const { x, y } = pointOf(level, sel);
+  return { x, y, ...OBJECT_SIZES[sel.kind] };
+};
+
+const contains = (r: LevelRect, x: number, y: number) => x >= r.x && x <= r.x + r.width && y >= r.y && y <= r.y + r.height;
+
+// Topmost object under the pointer: markers first, then props, then platforms, then water
+const hitTest = (level: LevelDefinition, x: number, y: number): Selection | null => {
+  const candidates: Selection[] = [
+    { kind: 'playerSpawn', index: 0 },
+    { kind: 'dogSpawn', index: 0 },
+    { kind: 'door', index: 0 },
+    ...level.cages.map((_, index) => ({ kind: 'cage' as const, index })).reverse(),
+    ...level.bushes.map((_, index) => ({ kind: 'bush' as const, index })).reverse(),
+    ...level.platforms.map((_, index) => ({ kind: 'platform' as const, index })).reverse(),
+    ...(level.water ?? []).map((_, index) => ({ kind: 'water' as const, index })).reverse()
+  ];
+  return candidates.find(sel => contains(boundsOf(level, sel), x, y)) ?? null;
+};
+
+interface LevelEditorProps {
+  onPlaytest: (level: LevelDefinition) => void;
+  onExit: () => void;
+}
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ onPlaytest, onExit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const [level, setLevel] = useState<LevelDefinition>(() => loadDraft() ?? structuredClone(BUILTIN_LEVELS[0]));
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [tool, setTool] = useState<Tool>('SELECT');
+  const [library, setLibrary] = useState<LevelDefinition[]>(loadLibrary);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [notice, setNotice] = useState('');
+
+  // Pointer handlers run outside React's render cycle and need the latest values
+  const levelRef = useRef(level);
+  levelRef.current = level;
+  const drag = useRef<Drag | null>(null);
+
+  useEffect(() => { saveDraft(level); }, [level]);
+
+  const updateLevel = (change: (draft: LevelDefinition) => void) => {
+    setLevel(prev => {
+      const next = structuredClone(prev);
+      change(next);
+      return next;
+    });
+  };
+
+  const openLevel = (next: LevelDefinition) => {
+    setLevel(structuredClone(next));
+    setSelection(null);
+    setProblems([]);
+  };
+
+  // Runs the level through the same loader the game uses; null if it would be rejected
+  const validate = (): LevelDefinition | null => {
+    try {
+      const parsed = parseLevel(JSON.parse(JSON.stringify(level)), level.name || 'level');
+      setProblems([]);
+      return parsed;
+    } catch (err) {
+      setProblems(err instanceof LevelFormatError ? err.problems : [(err as Error).message]);
+      return null;
+    }
+  };
+
+  // --- FILES & STORAGE ---
+  const playtest = () => {
+    const parsed = validate();
+    if (parsed) onPlaytest(parsed);
+  };
+
+  const saveLevel = () => {
+    const parsed = validate();
+    if (!parsed) return;
+    setNotice(saveToLibrary(parsed) ? `Saved "${parsed.name}"` : 'Could not save: browser storage is unavailable');
+    setLibrary(loadLibrary());
+  };
+
+  const deleteLevel = () => {
+    deleteFromLibrary(level.name);
+    setLibrary(loadLibrary());
+    setNotice(`Deleted "${level.name}"`);
+  };
+
+  const exportLevel = () => {
+    const parsed = validate();
+    if (parsed) downloadJson(`${parsed.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'level'}.json`, parsed);
+  };
+
+  const importLevel = () => {
+    pickTextFile('.json,application/json').then(text => {
+      if (text === null) return;
+      try {
+        openLevel(parseLevel(JSON.parse(text), 'imported file'));
+        setNotice('Level imported');
+      } catch (err) {
+        setProblems(err instanceof LevelFormatError ? err.problems : [`Not a JSON file: ${(err as Error).message}`]);
+      }
+    });
+  };
+
+  const openFromList = (value: string) => {
+    const [source, index] = value.split(':');
+    if (source === 'new') openLevel(createBlankLevel());
+    else if (source === 'builtin') openLevel(BUILTIN_LEVELS[Number(index)]);
+    else if (source === 'bonus') openLevel(BONUS_LEVELS[Number(index)]);
+    else if (source === 'saved') openLevel(library[Number(index)]);
+  };
+
+  // --- EDITING ---
+  const moveObject = (draft: LevelDefinition, sel: Selection, x: number, y: number) => {
+    const point = pointOf(draft, sel);
+    if (isSized(sel.kind)) {
+      point.x = snap(x);
+      point.y = snap(y);
+      return;
+    }
+    // Markers must stay inside the level, the loader rejects anything outside it
+    const { width, height } = boundsOf(draft, sel);
+    const size = levelSize(draft);
+    point.x = clamp(snap(x), 0, size.width - width);
+    point.y = clamp(snap(y), 0, size.height - height);
+  };
+
+  const deleteSelection = () => {
+    const sel = selection;
+    if (!sel || (!isSized(sel.kind) && sel.kind !== 'cage' && sel.kind !== 'bush')) return;
+    updateLevel(draft => {
+      if (sel.kind === 'platform') draft.platforms.splice(sel.index, 1);
+      else if (sel.kind === 'water') draft.water!.splice(sel.index, 1);
+      else if (sel.kind === 'cage') draft.cages.splice(sel.index, 1);
+      else draft.bushes.splice(sel.index, 1);
+    });
+    setSelection(null);
+  };
+
+  // Places a new object (or moves a marker) at the pointer and starts dragging it
+  const placeObject = (x: number, y: number) => {
+    const current = levelRef.current;
+    let sel: Selection;
+    let mode: Drag['mode'] = 'MOVE';
+    if (tool === 'PLATFORM') {
+      sel = { kind: 'platform', index: current.platforms.length };
+      mode = 'RESIZE';
+      updateLevel(draft => { draft.platforms.push({ x: snap(x), y: snap(y), width: MIN_PLATFORM_SIZE, height: 20, kind: 'ONE_WAY', variant: 'STATIC' }); });
+    } else if (tool === 'WATER') {
+      sel = { kind: 'water', index: current.water?.length ?? 0 };
+      mode = 'RESIZE';
+      updateLevel(draft => { (draft.water ??= []).push({ x: snap(x), y: snap(y), width: MIN_PLATFORM_SIZE, height: MIN_PLATFORM_SIZE }); });
+    } else if (tool === 'CAGE') {
+      sel = { kind: 'cage', index: current.cages.length };
+      updateLevel(draft => { draft.cages.push({ x: 0, y: 0, health: 3 }); });
+    } else if (tool === 'BUSH' || tool === 'RABBIT') {
+      sel = { kind: 'bush', index: current.bushes.length };
+      updateLevel(draft => { draft.bushes.push({ x: 0, y: 0, rabbit: tool === 'RABBIT' }); });
+    } else {
+      sel = { kind: tool === 'DOOR' ? 'door' : (tool === 'PLAYER' ? 'playerSpawn' : 'dogSpawn'), index: 0 };
+    }
+
+    // Objects are centered on the pointer, new platforms and water grow from it
+    const size = isSized(sel.kind) ? { width: 0, height: 0 } : OBJECT_SIZES[sel.kind];
+    const offsetX = size.width / 2;
+    const offsetY = size.height / 2;
+    if (mode === 'MOVE') updateLevel(draft => moveObject(draft, sel, x - offsetX, y - offsetY));
+    drag.current = { selection: sel, mode, offsetX, offsetY };
+    setSelection(sel);
+    setTool('SELECT');
+  };
+
+  const startDrag = (x: number, y: number) => {
+    const sel = hitTest(levelRef.current, x, y);
+    setSelection(sel);
+    if (!sel) return;
+    const r = boundsOf(levelRef.current, sel);
+    const onHandle = isSized(sel.kind) && x >= r.x + r.width - HANDLE_SIZE && y >= r.y + r.height - HANDLE_SIZE;
+    drag.current = { selection: sel, mode: onHandle ? 'RESIZE' : 'MOVE', offsetX: x - r.x, offsetY: y - r.y };
+  };
+
+  const continueDrag = (x: number, y: number) => {
+    const d = drag.current;
+    if (!d) return;
+    updateLevel(draft => {
+      if (d.mode === 'MOVE') { moveObject(draft, d.selection, x - d.offsetX, y - d.offsetY); return; }
+      const r = boundsOf(draft, d.selection);
+      r.width = Math.max(MIN_PLATFORM_SIZE, snap(x - r.x));
+      r.height = Math.max(MIN_PLATFORM_SIZE, snap(y - r.y));
+    });
+  };
+
+  // The canvas covers the whole level, scaled down to fit when it's larger than a screen
+  const toCanvas = (e: React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const size = levelSize(levelRef.current);
+    return { x: (e.clientX - rect.left) * (size.width / rect.width), y: (e.clientY - rect.top) * (size.height / rect.height) };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const { x, y } = toCanvas(e);
+    if (tool === 'SELECT') startDrag(x, y);
+    else placeObject(x, y);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!drag.current) return;
+    const { x, y } = toCanvas(e);
+    continueDrag(x, y);
+  };
+
+  const handleMouseUp = () => { drag.current = null; };
+
+  // Keyboard: nudge with arrows, delete, escape to deselect
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      if (e.code === 'Escape') { setSelection(null); setTool('SELECT'); return; }
+      if (!selection) return;
+      if (e.code === 'Delete' || e.code === 'Backspace') { deleteSelection(); return; }
+      const nudge: Record<string, [number, number]> = { ArrowLeft: [-GRID, 0], ArrowRight: [GRID, 0], ArrowUp: [0, -GRID], ArrowDown: [0, GRID] };
+      const delta = nudge[e.code];
+      if (!delta) return;
+      e.preventDefault();
+      updateLevel(draft => {
+        const p = pointOf(draft, selection);
+        moveObject(draft, selection, p.x + delta[0], p.y + delta[1]);
+      });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selection]);
+
+  // --- RENDERING ---
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const topDown = level.mode === 'TOPDOWN';
+    const { width, height } = levelSize(level);
+
+    ctx.fillStyle = topDown ? '#14532d' : (level.weather.rain ? '#0f172a' : '#1e3a8a');
+    ctx.fillRect(0, 0, width, height);
+    ctx.strokeStyle = 'rgba(255,255,255,0.06)'; ctx.lineWidth = 1;
+    for (let x = 0; x <= width; x += GRID * 4) { ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, height); ctx.stroke(); }
+    for (let y = 0; y <= height; y += GRID * 4) { ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(width, y); ctx.stroke(); }
+    // Screen-sized frames show how much of the level is visible at once
+    ctx.strokeStyle = 'rgba(255,255,255,0.2)'; ctx.setLineDash([8, 8]);
+    for (let x = CANVAS_WIDTH; x < width; x += CANVAS_WIDTH) { ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, height); ctx.stroke(); }
+    for (let y = CANVAS_HEIGHT; y < height; y += CANVAS_HEIGHT) { ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(width, y); ctx.stroke(); }
+    ctx.setLineDash([]);
+    if (!topDown) { ctx.fillStyle = '#14532d'; ctx.fillRect(0, height - 32, width, 32); }
+
+    level.platforms.forEach(p => {
+        drawPlatform(ctx, p, topDown);
+        if (p.path) {
+            // Route of a moving platform, looping back to where it starts
+            ctx.strokeStyle = 'rgba(148,163,184,0.8)'; ctx.setLineDash([4, 4]);
+            ctx.beginPath(); ctx.moveTo(p.x + p.width / 2, p.y);
+            p.path.forEach(w => ctx.lineTo(w.x + p.width / 2, w.y));
+            ctx.closePath(); ctx.stroke();
+            p.path.forEach(w => ctx.strokeRect(w.x, w.y, p.width, p.height));
+            ctx.setLineDash([]);
+        }
+        ctx.fillStyle = 'rgba(255,255,255,0.4)'; ctx.fillRect(p.x + p.width - HANDLE_SIZE / 2, p.y + p.height - HANDLE_SIZE / 2, HANDLE_SIZE / 2, HANDLE_SIZE / 2);
+    });
+    level.water?.forEach(w => {
+        drawWater(ctx, w, 0);
+        ctx.fillStyle = 'rgba(255,255,255,0.4)'; ctx.fillRect(w.x + w.width - HANDLE_SIZE / 2, w.y + w.height - HANDLE_SIZE / 2, HANDLE_SIZE / 2, HANDLE_SIZE / 2);
+    });
+    level.bushes.forEach(b => {
+        ctx.fillStyle = '#166534'; ctx.beginPath(); ctx.ellipse(b.x + 20, b.y + 15, 20, 15, 0, 0, Math.PI * 2); ctx.fill();
+        if (b.rabbit) { ctx.fillStyle = '#e5e7eb'; ctx.beginPath(); ctx.arc(b.x + 20, b.y + 15, 5, 0, Math.PI * 2); ctx.fill(); }
+    });
+    level.cages.forEach(c => {
+        ctx.strokeStyle = '#9ca3af'; ctx.lineWidth = 3; ctx.strokeRect(c.x, c.y, CAGE_SIZE.width, CAGE_SIZE.height);
+        for (let i = 10; i < CAGE_SIZE.width; i += 10) { ctx.beginPath(); ctx.moveTo(c.x + i, c.y); ctx.lineTo(c.x + i, c.y + CAGE_SIZE.height); ctx.stroke(); }
+    });
+    ctx.fillStyle = '#78350f'; ctx.fillRect(level.door.x, level.door.y, DOOR_SIZE.width, DOOR_SIZE.height);
+    ctx.fillStyle = '#3b82f6'; ctx.fillRect(level.playerSpawn.x, level.playerSpawn.y, PLAYER_SIZE.width, PLAYER_SIZE.height);
+    ctx.fillStyle = '#a16207'; ctx.fillRect(level.dogSpawn.x, level.dogSpawn.y, DOG_SIZE.width, DOG_SIZE.height);
+
+    ctx.fillStyle = '#fff'; ctx.font = '12px monospace'; ctx.textAlign = 'center';
+    ctx.fillText('DOOR', level.door.x + DOOR_SIZE.width / 2, level.door.y - 4);
+    ctx.fillText('P1', level.playerSpawn.x + PLAYER_SIZE.width / 2, level.playerSpawn.y - 4);
+    ctx.fillText('DOG', level.dogSpawn.x + DOG_SIZE.width / 2, level.dogSpawn.y - 4);
+
+    if (selection) {
+        const r = boundsOf(level, selection);
+        ctx.strokeStyle = '#facc15'; ctx.lineWidth = 2; ctx.setLineDash([6, 4]);
+        ctx.strokeRect(r.x - 2, r.y - 2, r.width + 4, r.height + 4);
+        ctx.setLineDash([]);
+    }
+  }, [level, selection]);
+
+  // --- PANEL ---
+  // Number fields ignore edits that don't parse yet (e.g. an emptied field)
+  const numberField = (label: string, value: number, onChange: (v: number) => void, step = 1) => (
+    <label className="flex items-center justify-between gap-2">
+      <span>{label}</span>
+      <input type="number" step={step} value={value} className="w-20 bg-neutral-800 px-1"
+        onChange={e => { const v = parseFloat(e.target.value); if (Number.isFinite(v)) onChange(v); }} />
+    </label>
+  );
+
+  const checkbox = (label: string, value: boolean, onChange: (v: boolean) => void) => (
+    <label className="flex items-center justify-between gap-2">
+      <span>{label}</span>
+      <input type="checkbox" checked={value} onChange={e => onChange(e.target.checked)} />
+    </label>
+  );
+
+  const button = (label: string, onClick: () => void, active = false) => (
+    <button key={label} onClick={onClick} className={`px-2 py-1 border border-neutral-600 ${active ? 'bg-blue-600' : 'bg-neutral-800 hover:bg-neutral-700'}`}>{label}</button>
+  );
+
+  const selectedFields = () => {
+    if (!selection) return <p className="text-neutral-500">Nothing selected</p>;
+    const sel = selection;
+    const point = pointOf(level, sel);
+    const setPoint = (key: 'x' | 'y') => (v: number) => updateLevel(draft => { pointOf(draft, sel)[key] = v; });
+    return (
+      <>
+        <p className="text-yellow-400">{sel.kind}{isSized(sel.kind) || sel.kind === 'cage' || sel.kind === 'bush' ? ` #${sel.index + 1}` : ''}</p>
+        {numberField('X', point.x, setPoint('x'))}
+        {numberField('Y', point.y, setPoint('y'))}
+        {isSized(sel.kind) && numberField('Width', boundsOf(level, sel).width, v => updateLevel(draft => { boundsOf(draft, sel).width = v; }))}
+        {isSized(sel.kind) && numberField('Height', boundsOf(level, sel).height, v => updateLevel(draft => { boundsOf(draft, sel).height = v; }))}
+        {sel.kind === 'platform' && (
+          <label className="flex items-center justify-between gap-2">
+            <span>Kind</span>
+            <select className="w-24 bg-neutral-800" value={level.platforms[sel.index].kind}
+              onChange={e => { const kind = e.target.value as PlatformKind; updateLevel(draft => { draft.platforms[sel.index].kind = kind; }); }}>
+              {PLATFORM_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+            </select>
+          </label>
+        )}
+        {sel.kind === 'platform' && (
+          <label className="flex items-center justify-between gap-2">
+            <span>Variant</span>
+            <select className="w-24 bg-neutral-800" value={level.platforms[sel.index].variant}
+              onChange={e => { const variant = e.target.value as PlatformVariant; updateLevel(draft => setVariant(draft.platforms[sel.index], variant)); }}>
+              {PLATFORM_VARIANTS.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </label>
+        )}
+        {sel.kind === 'platform' && level.platforms[sel.index].path && (
+          <>
+            {numberField('Speed', level.platforms[sel.index].speed ?? MOVING_PLATFORM_SPEED, v => updateLevel(draft => { draft.platforms[sel.index].speed = v; }), 0.1)}
+            {level.platforms[sel.index].path!.map((w, j) => (
+              <React.Fragment key={j}>
+                {numberField(`Point ${j + 1} X`, w.x, v => updateLevel(draft => { draft.platforms[sel.index].path![j].x = v; }))}
+                {numberField(`Point ${j + 1} Y`, w.y, v => updateLevel(draft => { draft.platforms[sel.index].path![j].y = v; }))}
+              </React.Fragment>
+            ))}
+            <div className="flex flex-wrap gap-1">
+              {button('ADD POINT', () => updateLevel(draft => { const p = draft.platforms[sel.index]; const last = p.path![p.path!.length - 1]; p.path!.push({ x: last.x, y: snap(last.y - 60) }); }))}
+              {level.platforms[sel.index].path!.length > 1 && button('REMOVE POINT', () => updateLevel(draft => { draft.platforms[sel.index].path!.pop(); }))}
+            </div>
+          </>
+        )}
+        {sel.kind === 'cage' && numberField('Health', level.cages[sel.index].health, v => updateLevel(draft => { draft.cages[sel.index].health = v; }))}
+        {sel.kind === 'bush' && checkbox('Rabbit', level.bushes[sel.index].rabbit, v => updateLevel(draft => { draft.bushes[sel.index].rabbit = v; }))}
+        {(isSized(sel.kind) || sel.kind === 'cage' || sel.kind === 'bush') && button('DELETE', deleteSelection)}
+      </>
+    );
+  };
+
+  const enemies = level.enemies;
+  const crows = level.crows;
+
+  return (
+    <div className="w-full h-full flex bg-neutral-900 text-white font-mono text-xs">
+      <canvas ref={canvasRef} width={levelSize(level).width} height={levelSize(level).height} className="flex-1 min-w-0 h-full object-contain cursor-crosshair"
+        onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp}
+      />
+      <div className="w-60 h-full overflow-y-auto p-2 flex flex-col gap-2 border-l border-neutral-700">
+        <div className="flex flex-wrap gap-1">
+          {button('PLAYTEST', playtest)}
+          {button('EXIT', onExit)}
+        </div>
+
+        <select className="bg-neutral-800 p-1" value="" onChange={e => openFromList(e.target.value)}>
+          <option value="" disabled>Open level...</option>
+          <option value="new">New level</option>
+          {BUILTIN_LEVELS.map((l, i) => <option key={`b${i}`} value={`builtin:${i}`}>Built-in {i + 1}: {l.name}</option>)}
+          {BONUS_LEVELS.map((l, i) => <option key={`x${i}`} value={`bonus:${i}`}>Bonus: {l.name}</option>)}
+          {library.map((l, i) => <option key={`s${i}`} value={`saved:${i}`}>Saved: {l.name}</option>)}
+        </select>
+        <div className="flex flex-wrap gap-1">
+          {button('SAVE', saveLevel)}
+          {button('DELETE SAVED', deleteLevel)}
+          {button('IMPORT', importLevel)}
+          {button('EXPORT', exportLevel)}
+        </div>
+        {notice && <p className="text-green-400">{notice}</p>}
+        {problems.length > 0 && (
+          <ul className="text-red-400 list-disc pl-4">{problems.map((p, i) => <li key={i}>{p}</li>)}</ul>
+        )}
+
+        <p className="text-neutral-400">TOOLS</p>
+        <div className="flex flex-wrap gap-1">{TOOLS.map(t => button(t, () => setTool(t), tool === t))}</div>
+        <p className="text-neutral-500">Drag to move, drag a platform's or pool's corner to resize. Arrows nudge, Delete removes.</p>
+
+        <p className="text-neutral-400">SELECTION</p>
+        {selectedFields()}
+
+        <p className="text-neutral-400">LEVEL</p>
+        <label className="flex items-center justify-between gap-2">
+          <span>Name</span>
+          <input value={level.name} className="w-32 bg-neutral-800 px-1" onChange={e => { const v = e.target.value; updateLevel(draft => { draft.name = v; }); }} />
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          <span>Mode</span>
+          <select value={level.mode} className="bg-neutral-800" onChange={e => { const v = e.target.value as LevelDefinition['mode']; updateLevel(draft => { draft.mode = v; }); }}>
+            <option value="SIDE">SIDE</option>
+            <option value="TOPDOWN">TOPDOWN</option>
+          </select>
+        </label>
+        {numberField('Width', levelSize(level).width, v => updateLevel(draft => { draft.size = { ...levelSize(draft), width: v }; }), GRID)}
+        {numberField('Height', levelSize(level).height, v => updateLevel(draft => { draft.size = { ...levelSize(draft), height: v }; }), GRID)}
+        {!level.boss && numberField('Kill goal', level.killGoal ?? 0, v => updateLevel(draft => { draft.killGoal = v; }))}
+        {checkbox('Rain', level.weather.rain, v => updateLevel(draft => { draft.weather.rain = v; }))}
+        {checkbox('Provide dog', level.provideDog ?? false, v => updateLevel(draft => { draft.provideDog = v; }))}
+        {numberField('Random bushes', level.randomBushes ?? 0, v => updateLevel(draft => { draft.randomBushes = v; }))}
+        {numberField('Nets', level.nets ?? NETS_PER_LEVEL, v => updateLevel(draft => { draft.nets = v; }))}
+
+        {checkbox('Flood', !!level.flood, v => updateLevel(draft => { draft.flood = v ? { riseRate: 0.25, damage: 5, damageInterval: 20 } : undefined; }))}
+        {level.flood && numberField('Rise rate', level.flood.riseRate, v => updateLevel(draft => { draft.flood!.riseRate = v; }), 0.05)}
+        {level.flood && numberField('Damage', level.flood.damage, v => updateLevel(draft => { draft.flood!.damage = v; }))}
+        {level.flood && numberField('Every (ticks)', level.flood.damageInterval, v => updateLevel(draft => { draft.flood!.damageInterval = v; }))}
+
+        {checkbox('Wolves', !!enemies, v => updateLevel(draft => { draft.enemies = v ? createBlankLevel().enemies : null; }))}
+        {enemies && numberField('Every (ticks)', enemies.interval, v => updateLevel(draft => { draft.enemies!.interval = v; }))}
+        {enemies && numberField('Max alive', enemies.max, v => updateLevel(draft => { draft.enemies!.max = v; }))}
+        {enemies && Object.values(EnemyTier).map(tier => (
+          <React.Fragment key={tier}>
+            {numberField(`${tier} weight`, enemies.tiers[tier], v => updateLevel(draft => { draft.enemies!.tiers[tier] = v; }), 0.05)}
+          </React.Fragment>
+        ))}
+
+        {checkbox('Own power-up drops', !!level.powerUps, v => updateLevel(draft => {
+          draft.powerUps = v ? { chance: POWERUP_DROP_CHANCE, weights: Object.fromEntries(powerUpDefinitions().map(d => [d.kind, d.weight])) } : undefined;
+        }))}
+        {level.powerUps && numberField('Drop chance', level.powerUps.chance, v => updateLevel(draft => { draft.powerUps!.chance = v; }), 0.05)}
+        {level.powerUps && powerUpDefinitions().map(def => (
+          <React.Fragment key={def.kind}>
+            {numberField(`${def.kind} weight`, level.powerUps!.weights[def.kind] ?? 0, v => updateLevel(draft => { draft.powerUps!.weights[def.kind] = v; }))}
+          </React.Fragment>
+        ))}
+
+        {checkbox('Alpha wolf', !!level.boss, v => updateLevel(draft => {
+          draft.boss = v ? { x: levelSize(draft).width / 2, y: draft.playerSpawn.y, health: BOSS_HEALTH } : undefined;
+          draft.killGoal = v ? undefined : createBlankLevel().killGoal;
+        }))}
+        {level.boss && numberField('X', level.boss.x, v => updateLevel(draft => { draft.boss!.x = v; }), GRID)}
+        {level.boss && numberField('Y', level.boss.y, v => updateLevel(draft => { draft.boss!.y = v; }), GRID)}
+        {level.boss && numberField('Health', level.boss.health, v => updateLevel(draft => { draft.boss!.health = v; }))}
+
+        {checkbox('Crows', !!crows, v => updateLevel(draft => { draft.crows = v ? createBlankLevel().crows : null; }))}
+        {crows && numberField('Every (ticks)', crows.interval, v => updateLevel(draft => { draft.crows!.interval = v; }))}
+        {crows && numberField('Max alive', crows.max, v => updateLevel(draft => { draft.crows!.max = v; }))}
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
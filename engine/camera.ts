@@ -0,0 +1,47 @@
+import { Entity, Vector2 } from '../types';
+import {
+  CANVAS_WIDTH, CANVAS_HEIGHT, CAMERA_DEAD_ZONE_X, CAMERA_DEAD_ZONE_Y, CAMERA_FOLLOW,
+  CAMERA_LOOK_AHEAD_X, CAMERA_LOOK_AHEAD_Y, CAMERA_LOOK_SMOOTHING
+} from './constants';
+
+// Scrolling view over levels larger than the canvas. The camera is part of
+// the simulated world, not just the renderer: enemies enter just outside the
+// view and mouse aim is converted through it, so it advances once per tick
+// like everything else and replays reproduce it exactly.
+
+export interface Camera {
+  x: number; // Top-left corner of the view in world coordinates
+  y: number;
+  lookX: number; // Smoothed look-ahead offset toward the aim direction
+  lookY: number;
+}
+
+export const createCamera = (): Camera => ({ x: 0, y: 0, lookX: 0, lookY: 0 });
+
+const clampToLevel = (camera: Camera, size: { width: number; height: number }) => {
+  camera.x = Math.max(0, Math.min(size.width - CANVAS_WIDTH, camera.x));
+  camera.y = Math.max(0, Math.min(size.height - CANVAS_HEIGHT, camera.y));
+};
+
+// Centers the view on `focus` at once, e.g. at a level start
+export const snapCamera = (camera: Camera, focus: Entity, size: { width: number; height: number }) => {
+  camera.lookX = 0;
+  camera.lookY = 0;
+  camera.x = focus.x + focus.width / 2 - CANVAS_WIDTH / 2;
+  camera.y = focus.y + focus.height / 2 - CANVAS_HEIGHT / 2;
+  clampToLevel(camera, size);
+};
+
+// Eases toward `focus`, leaning toward `aimAngle`; inside the dead zone the view holds still
+export const updateCamera = (camera: Camera, focus: Entity, aimAngle: number, size: { width: number; height: number }) => {
+  camera.lookX += (Math.cos(aimAngle) * CAMERA_LOOK_AHEAD_X - camera.lookX) * CAMERA_LOOK_SMOOTHING;
+  camera.lookY += (Math.sin(aimAngle) * CAMERA_LOOK_AHEAD_Y - camera.lookY) * CAMERA_LOOK_SMOOTHING;
+  const dx = focus.x + focus.width / 2 + camera.lookX - (camera.x + CANVAS_WIDTH / 2);
+  const dy = focus.y + focus.height / 2 + camera.lookY - (camera.y + CANVAS_HEIGHT / 2);
+  if (Math.abs(dx) > CAMERA_DEAD_ZONE_X) camera.x += (dx - Math.sign(dx) * CAMERA_DEAD_ZONE_X) * CAMERA_FOLLOW;
+  if (Math.abs(dy) > CAMERA_DEAD_ZONE_Y) camera.y += (dy - Math.sign(dy) * CAMERA_DEAD_ZONE_Y) * CAMERA_FOLLOW;
+  clampToLevel(camera, size);
+};
+
+// Canvas pixel (mouse, touch) to the world point under it
+export const screenToWorld = (camera: Vector2, x: number, y: number): Vector2 => ({ x: x + camera.x, y: y + camera.y });
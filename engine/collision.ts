@@ -0,0 +1,98 @@
+import { Entity, PlatformEntity } from '../types';
+import { BOUNCE_FORCE } from './constants';
+
+// Platform collision for everything that walks or falls. Movement is applied
+// one axis at a time: horizontally against SOLID blocks (walls), then
+// vertically against SOLID tops and undersides (floors and ceilings),
+// ONE_WAY tops (only when arriving from above) and slope surfaces.
+// Collapsed logs are skipped entirely and BOUNCY tops launch instead of landing.
+
+const SLOPE_SNAP = 8;       // How far a grounded walker is pulled down to follow a descending slope
+const STEP_UP = 12;         // Ledges this low are walked onto instead of blocking (e.g. a block at the top of a slope)
+const ONE_WAY_TOLERANCE = 10; // Depth below a one-way top that still stops a falling point (arrows)
+const EPSILON = 0.01;       // Touching edges (standing on a block, hugging a wall) don't count as overlap
+
+export interface MoveOptions {
+  floor: number;         // Ground line along the bottom of the level
+  dropThrough?: boolean; // Fall through one-way platforms (down + jump)
+}
+
+const overlaps = (e: Entity, p: PlatformEntity) =>
+  e.x < p.x + p.width - EPSILON && e.x + e.width > p.x + EPSILON && e.y < p.y + p.height - EPSILON && e.y + e.height > p.y + EPSILON;
+
+const isSlope = (p: PlatformEntity) => p.kind === 'SLOPE_UP' || p.kind === 'SLOPE_DOWN';
+
+// Height of a slope's walking surface at x, clamped to its span
+export const slopeSurface = (p: PlatformEntity, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - p.x) / p.width));
+  return p.y + p.height * (p.kind === 'SLOPE_UP' ? 1 - t : t);
+};
+
+// Moves `e` by its velocity and resolves it against the platforms and the floor.
+// Sets `grounded`; velocity is zeroed on the axis of any impact.
+export const moveAndCollide = (e: Entity, platforms: PlatformEntity[], options: MoveOptions) => {
+  const wasGrounded = e.grounded;
+
+  e.x += e.vx;
+  platforms.forEach(p => {
+    if (p.collapsed || p.kind !== 'SOLID' || !overlaps(e, p)) return;
+    if (wasGrounded && e.y + e.height - p.y <= STEP_UP) { e.y = p.y - e.height; return; }
+    // Without horizontal speed (e.g. spawned inside) leave by the nearer side
+    const fromLeft = e.vx !== 0 ? e.vx > 0 : e.x + e.width / 2 < p.x + p.width / 2;
+    e.x = fromLeft ? p.x - e.width : p.x + p.width;
+    e.vx = 0;
+  });
+
+  const prevBottom = e.y + e.height;
+  e.y += e.vy;
+  e.grounded = false;
+  const land = (top: number, p?: PlatformEntity) => {
+    e.y = top - e.height;
+    if (p?.variant === 'BOUNCY') { e.vy = -BOUNCE_FORCE; return; }
+    e.vy = 0;
+    e.grounded = true;
+  };
+
+  platforms.forEach(p => {
+    if (p.collapsed) return;
+    if (p.kind === 'SOLID') {
+      if (!overlaps(e, p)) return;
+      if (e.vy >= 0) land(p.y, p);
+      else { e.y = p.y + p.height; e.vy = 0; } // Ceiling
+    } else if (p.kind === 'ONE_WAY') {
+      if (options.dropThrough || e.vy < 0) return;
+      if (e.x < p.x + p.width && e.x + e.width > p.x && prevBottom <= p.y + EPSILON && e.y + e.height >= p.y) land(p.y, p);
+    } else if (isSlope(p)) {
+      const cx = e.x + e.width / 2;
+      if (e.vy < 0 || cx < p.x || cx > p.x + p.width) return;
+      const surface = slopeSurface(p, cx);
+      const climb = Math.abs(e.vx) * p.height / p.width + 1; // Rise covered this tick walking uphill
+      const reach = wasGrounded ? SLOPE_SNAP + climb : 0;
+      if (e.y + e.height >= surface - reach && prevBottom <= surface + climb) land(surface, p);
+    }
+  });
+
+  if (e.y + e.height > options.floor) land(options.floor);
+};
+
+// Whether a grounded entity is standing on `p` (a rider, for moving and crumbling platforms)
+export const standsOn = (e: Entity, p: PlatformEntity) => {
+  if (!e.grounded || p.collapsed || e.x >= p.x + p.width || e.x + e.width <= p.x) return false;
+  const top = isSlope(p) ? slopeSurface(p, e.x + e.width / 2) : p.y;
+  return Math.abs(e.y + e.height - top) < 1;
+};
+
+// One-way platform directly under a grounded entity, if any
+export const oneWayBelow = (e: Entity, platforms: PlatformEntity[]) =>
+  platforms.find(p => p.kind === 'ONE_WAY' && standsOn(e, p)) ?? null;
+
+// Whether a point (an arrow tip) is inside something it should stick in
+export const blocksPoint = (platforms: PlatformEntity[], x: number, y: number, floor: number) => {
+  if (y >= floor) return true;
+  return platforms.some(p => {
+    if (p.collapsed || x <= p.x || x >= p.x + p.width) return false;
+    if (p.kind === 'SOLID') return y >= p.y && y <= p.y + p.height;
+    if (p.kind === 'ONE_WAY') return y >= p.y && y <= p.y + ONE_WAY_TOLERANCE;
+    return y >= slopeSurface(p, x) && y <= p.y + p.height;
+  });
+};
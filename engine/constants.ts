@@ -0,0 +1,116 @@
+// --- ENGINE CONFIG ---
+export const GRAVITY = 0.5;
+export const FRICTION = 0.85;
+export const JUMP_FORCE = -12;
+export const MOVEMENT_SPEED = 0.8;
+export const RPG_MOVEMENT_SPEED = 3.5;
+export const MAX_SPEED = 5;
+export const ARROW_SPEED = 18;
+export const NET_SPEED = 12;
+export const ARROW_GRAVITY = 0.25;
+export const NET_GRAVITY = 0.4;
+export const TRAP_COOLDOWN_FRAMES = 120;
+export const DASH_COOLDOWN_FRAMES = 60;
+export const DASH_SPEED = 15;
+export const CANVAS_WIDTH = 960;
+export const CANVAS_HEIGHT = 540;
+
+// --- TIMING ---
+// All per-frame tuning above (gravity, cooldowns, fire rates...) assumes this rate
+export const TICK_RATE = 60;
+export const TICK_MS = 1000 / TICK_RATE;
+export const MAX_CATCH_UP_TICKS = 5; // After a stall, drop time rather than fast-forward
+
+// --- LEVEL FLOW (in ticks) ---
+export const LEVEL_TRANSITION_TICKS = 180;
+export const LEVEL_FADE_TICKS = 30;
+export const RESPAWN_DELAY_TICKS = 30;
+
+// Bump whenever a simulation change makes old replays play back differently
+export const GAME_VERSION = '3.3';
+
+// The game has a single difficulty so far; scores record it so tables stay
+// comparable once more are added
+export const DIFFICULTY = 'NORMAL';
+
+// --- POOL CAPACITIES ---
+export const PARTICLE_POOL_SIZE = 600;
+export const ARROW_POOL_SIZE = 64;
+export const FLOATING_TEXT_POOL_SIZE = 48;
+export const RAIN_POOL_SIZE = 150;
+
+// --- CAMERA ---
+export const CAMERA_DEAD_ZONE_X = 80;  // Focus may drift this far from the view center before it scrolls
+export const CAMERA_DEAD_ZONE_Y = 60;
+export const CAMERA_FOLLOW = 0.12;     // Fraction of the remaining distance covered per tick
+export const CAMERA_LOOK_AHEAD_X = 160; // How far the view leans toward the aim direction
+export const CAMERA_LOOK_AHEAD_Y = 80;
+export const CAMERA_LOOK_SMOOTHING = 0.05;
+export const MAX_LEVEL_WIDTH = 9600;
+export const MAX_LEVEL_HEIGHT = 2160;
+
+// --- COLLISION ---
+export const DROP_THROUGH_TICKS = 12; // Time one-way platforms are ignored after down + jump
+export const ARROW_EMBED_TICKS = 90;  // How long an arrow stays stuck in a wall
+
+// --- PLATFORM VARIANTS ---
+export const MOVING_PLATFORM_SPEED = 1.5;   // Default for MOVING platforms without a speed
+export const CRUMBLE_TICKS = 45;            // Standing time before a log gives way
+export const CRUMBLE_RESPAWN_TICKS = 300;
+export const BOUNCE_FORCE = 16;             // Launch speed off a mushroom, higher than a jump
+export const SINK_SPEED = 0.5;              // Faster than any flood rises, so sinking ledges are only a stopover
+
+// --- POWER-UPS ---
+export const POWERUP_DROP_CHANCE = 0.15;   // Per wolf kill, for levels without their own drop table
+export const FIRE_RATE_TICKS = 20;         // Between arrows while the fire button is held
+export const TRIPLE_SHOT_SPREAD = 0.15;    // Radians between the arrows of a triple shot
+export const PIERCE_TARGETS = 3;           // Extra targets a piercing arrow passes through
+export const FIRE_ARROW_DAMAGE = 2;
+export const BUSH_BURN_TICKS = 120;
+export const SCENT_SPEED_MULTIPLIER = 1.6;
+
+// --- TRAPS ---
+export const NETS_PER_LEVEL = 3;
+export const TRAP_ARM_TICKS = 30;      // After landing, before a net can be sprung or picked up
+export const SNARE_STUN_TICKS = 420;   // A wolf caught in a placed trap is held this long
+export const NET_STUN_TICKS = 180;     // ...and this long when hit by a net in flight
+export const NET_GROUND_DRAG = 0.9;    // Top-down nets slide along the grass until they stop
+
+// --- WOLF PACK ---
+export const WOLF_SENSE_RANGE = 400;
+export const WOLF_TIER_SPEEDS = { SMALL: 1.5, MEDIUM: 1.1, LARGE: 0.6 }; // Times the level's wolf pace
+export const WOLF_BACK_OFF_TICKS = 40;     // After a nip or a lunge
+export const WOLF_FLANK_DISTANCE = 130;    // Radius flankers circle at
+export const WOLF_CIRCLE_TICKS = 120;      // Circling before a lunge, unless rallied
+export const WOLF_LUNGE_TICKS = 60;
+export const WOLF_CHARGE_RANGE = 220;
+export const WOLF_WIND_UP_TICKS = 45;      // The charger's tell
+export const WOLF_CHARGE_SPEED = 5;
+export const WOLF_CHARGE_TICKS = 50;
+export const WOLF_RECOVER_TICKS = 60;
+export const WOLF_RETREAT_HEALTH = 0.35;   // Share of health below which a wolf breaks off
+export const WOLF_RETREAT_DISTANCE = 300;
+export const WOLF_RALLY_RADIUS = 300;
+export const WOLF_RALLY_TICKS = 180;
+export const WOLF_DOG_DEFEND_RANGE = 300;  // Wolves this close to a brawling dog go for it
+
+// --- ALPHA WOLF ---
+export const BOSS_HEALTH = 60;              // For boss levels that don't set their own
+export const BOSS_SPEEDS = [0.8, 1.1, 1.5]; // Stalking speed per phase
+export const BOSS_LEAP_INTERVALS = [240, 180, 120]; // Ticks of stalking between leaps, per phase
+export const BOSS_HOWL_INTERVAL = 600;      // From phase 2 on
+export const BOSS_WIND_UP_TICKS = 40;       // Crouch before a leap: the player's cue to move
+export const BOSS_HOWL_TICKS = 60;
+export const BOSS_DEATH_TICKS = 150;
+export const BOSS_MAX_PACK = 4;             // Wolves a howl can bring in at most
+export const BOSS_STUN_CAP = 120;           // Nets and traps hold the alpha only this long
+export const BOSS_PIN_TICKS = 180;          // The dog is shaken off after this long
+export const BOSS_WEAK_POINT_MULTIPLIER = 3; // Arrow damage while stunned or pinned
+export const BOSS_CONTACT_DAMAGE = 20;
+export const BOSS_SHOCKWAVE_DAMAGE = 15;
+export const BOSS_SHOCKWAVE_RADIUS = 120;
+export const BOSS_SCORE = 5000;
+
+// --- WATER ---
+export const SWIM_DEPTH = 0.5;   // Share of a swimmer's height below the surface
+export const WATER_DRAG = 0.8;   // Horizontal speed kept per tick while swimming
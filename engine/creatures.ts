@@ -0,0 +1,137 @@
+import {
+  BodyComponent, CreatureEntity, DogEntity, EntityType, HostileComponent, PickupComponent, PlayerEntity, RetrieveComponent
+} from '../types';
+import type { SoundName } from '../utils/audio';
+
+// Creature catalogue. Creatures are entities assembled from optional
+// components (types.ts); the simulation runs one system per component, so a
+// new animal is a CreatureDefinition plus, when it needs one, a behavior.
+// Behaviors only see the world through CreatureContext and must draw every
+// random number from ctx.random to keep runs deterministic.
+
+export interface CreatureDefinition {
+  kind: string;
+  width: number;
+  height: number;
+  sprite: string;
+  color: string;
+  body?: BodyComponent;
+  health?: { max: number; score: number; countsAsKill: boolean };
+  behavior?: string;
+  initialState?: string;
+  hostile?: HostileComponent;
+  pickup?: PickupComponent;
+  retrieve?: RetrieveComponent;
+}
+
+export interface CreatureContext {
+  player: PlayerEntity;
+  dog: DogEntity | null;
+  whistle: boolean; // Whistle pressed this tick
+  frame: number;
+  topDown: boolean;
+  bounds: { width: number; height: number }; // Level size
+  random: () => number;
+  sound: (type: SoundName) => void;
+  spawnParticles: (x: number, y: number, color: string, count: number, speed?: number) => void;
+  spawnFloatingText: (x: number, y: number, text: string, color: string) => void;
+  escape: (creature: CreatureEntity) => void; // Removes it, counted against the level's hunt rating
+}
+
+export interface Behavior {
+  update: (creature: CreatureEntity, ctx: CreatureContext) => void;
+  // Runs instead of the default removal when the creature is killed
+  onKilled?: (creature: CreatureEntity, ctx: CreatureContext) => void;
+}
+
+const definitions = new Map<string, CreatureDefinition>();
+const behaviors = new Map<string, Behavior>();
+
+export const defineCreature = (def: CreatureDefinition) => { definitions.set(def.kind, def); };
+export const defineBehavior = (name: string, behavior: Behavior) => { behaviors.set(name, behavior); };
+
+export const getCreatureDefinition = (kind: string) => definitions.get(kind) ?? null;
+export const getBehavior = (name: string) => behaviors.get(name) ?? null;
+export const creatureKinds = () => [...definitions.keys()];
+
+export const setBrainState = (creature: CreatureEntity, state: string) => {
+  if (!creature.brain) return;
+  creature.brain.state = state;
+  creature.brain.timer = 0;
+};
+
+// Builds a creature from its definition; the caller assigns the id
+export const createCreature = (def: CreatureDefinition, x: number, y: number, facingRight = true): Omit<CreatureEntity, 'id'> => ({
+  type: EntityType.CREATURE,
+  kind: def.kind,
+  x, y,
+  width: def.width, height: def.height,
+  vx: 0, vy: 0,
+  grounded: false, markedForDeletion: false,
+  renderable: { sprite: def.sprite, color: def.color, facingRight },
+  body: def.body && { ...def.body },
+  health: def.health && { current: def.health.max, ...def.health },
+  brain: def.behavior ? { behavior: def.behavior, state: def.initialState ?? 'IDLE', timer: 0 } : undefined,
+  hostile: def.hostile && { ...def.hostile },
+  pickup: def.pickup && { ...def.pickup },
+  retrieve: def.retrieve && { ...def.retrieve }
+});
+
+// --- BUILT-IN CREATURES ---
+
+const DUCK_PADDLE_TICKS = 200;   // Between turns while swimming
+const DUCK_FLUSH_RADIUS = 280;   // Whistling this close puts the duck up
+const DUCK_BARK_RADIUS = 100;    // ...as does the dog coming this close
+const DUCK_FLIGHT_SPEED = 4;
+const DUCK_CLIMB_TICKS = 90;     // Time to level out from the steep take-off
+
+// Paddles along the water until flushed by the whistle or the dog, then
+// flies off in an arc: a steep climb flattening into a shallow one until it
+// leaves the level. Shot down, it falls into the water for the dog to fetch.
+defineBehavior('duck', {
+  update: (duck, ctx) => {
+    const brain = duck.brain!;
+    const cx = duck.x + duck.width / 2;
+    if (brain.state === 'SWIM') {
+      if (brain.timer % DUCK_PADDLE_TICKS === DUCK_PADDLE_TICKS - 1) duck.renderable.facingRight = !duck.renderable.facingRight;
+      duck.vx = duck.renderable.facingRight ? 0.5 : -0.5;
+      const nearPlayer = Math.abs(ctx.player.x + ctx.player.width / 2 - cx) < DUCK_FLUSH_RADIUS;
+      const dog = ctx.dog && Math.abs(ctx.dog.x + ctx.dog.width / 2 - cx) < DUCK_BARK_RADIUS ? ctx.dog : null;
+      if ((ctx.whistle && nearPlayer) || dog) {
+        // Flies away from whoever put it up
+        const from = dog ?? ctx.player;
+        duck.renderable.facingRight = cx > from.x + from.width / 2;
+        setBrainState(duck, 'FLY');
+        if (dog) ctx.sound('bark');
+        ctx.sound('quack');
+        ctx.spawnParticles(cx, duck.y + duck.height, '#93c5fd', 6, 1);
+      }
+    } else if (brain.state === 'FLY') {
+      const t = Math.min(1, brain.timer / DUCK_CLIMB_TICKS);
+      const angle = -1.2 + t * 0.9; // Radians above the horizon, -1.2 to -0.3
+      duck.vx = Math.cos(angle) * DUCK_FLIGHT_SPEED * (duck.renderable.facingRight ? 1 : -1);
+      duck.vy = Math.sin(angle) * DUCK_FLIGHT_SPEED;
+      if (duck.y + duck.height < 0 || duck.x + duck.width < 0 || duck.x > ctx.bounds.width) ctx.escape(duck);
+    } else if (brain.state === 'FALL') {
+      duck.vx *= 0.98;
+      if (duck.grounded) setBrainState(duck, 'DEAD');
+    }
+  },
+  onKilled: (duck, ctx) => {
+    setBrainState(duck, 'FALL');
+    duck.body = { gravity: true, bounds: 'CLAMP' };
+    duck.vy = 0;
+    duck.grounded = false;
+    ctx.spawnParticles(duck.x + duck.width / 2, duck.y, '#e7e5e4', 8, 1.5);
+  }
+});
+
+defineCreature({
+  kind: 'DUCK',
+  width: 24, height: 16,
+  sprite: 'duck', color: '#15803d',
+  body: { gravity: false, bounds: 'NONE' },
+  health: { max: 1, score: 50, countsAsKill: false },
+  behavior: 'duck', initialState: 'SWIM',
+  retrieve: { score: 150 }
+});
@@ -0,0 +1,62 @@
+import { ArrowEntity, CreatureEntity, CrowEntity, DogEntity, EnemyEntity, Entity, PlayerEntity, RabbitEntity, TrapEntity } from '../types';
+
+// Typed event bus. The simulation emits an event whenever something notable
+// happens and leaves the consequences (score, sounds, effects, stats, drops)
+// to subscribers, so a kill or a pickup has the same side effects wherever
+// it comes from. Listeners run synchronously, in subscription order.
+
+export interface GameEvents {
+  enemyKilled: { enemy: EnemyEntity; by: 'ARROW' | 'DOG' | 'DEBUG' };
+  crowKilled: { crow: CrowEntity };
+  creatureKilled: { creature: CreatureEntity; score: number; countsAsKill: boolean };
+  playerDamaged: { amount: number; cause: 'ENEMY' | 'CROW' | 'CREATURE' | 'DROWNING'; source: Entity | null };
+  dogRescued: { dog: DogEntity };
+  rabbitRetrieved: { dog: DogEntity };
+  creatureRetrieved: { dog: DogEntity; creature: CreatureEntity; score: number };
+  creatureEscaped: { creature: CreatureEntity };
+  arrowMissed: { arrow: ArrowEntity }; // Last arrow of a shot that hit nothing
+  pickupCollected: {
+    kind: string;   // 'MEAT', 'NET', a power-up kind or a creature kind
+    entity: Entity;
+    label: string;  // Shown above the player
+    color: string;
+    score: number;
+  };
+  trapSprung: { trap: TrapEntity; target: EnemyEntity | RabbitEntity };
+  powerUpExpired: { kind: string; player: PlayerEntity };
+  wolfHowled: { wolf: EnemyEntity; rallied: number };
+  bossPhaseChanged: { boss: EnemyEntity; phase: number };
+  bossHowled: { boss: EnemyEntity; summoned: number };
+  bossDefeated: { boss: EnemyEntity };
+  levelCompleted: { level: number; final: boolean };
+}
+
+export type GameEventType = keyof GameEvents;
+export type EventListener<K extends GameEventType> = (event: GameEvents[K]) => void;
+export type AnyEventListener = <K extends GameEventType>(type: K, event: GameEvents[K]) => void;
+
+export interface EventBus {
+  listeners: { [K in GameEventType]?: EventListener<K>[] };
+  any: AnyEventListener[];
+}
+
+export const createEventBus = (): EventBus => ({ listeners: {}, any: [] });
+
+// Returns a function that removes the listener again
+export const on = <K extends GameEventType>(bus: EventBus, type: K, listener: EventListener<K>) => {
+  const list: EventListener<K>[] = bus.listeners[type] ?? [];
+  (bus.listeners as Record<K, EventListener<K>[]>)[type] = list;
+  list.push(listener);
+  return () => { list.splice(list.indexOf(listener), 1); };
+};
+
+// Listens to every event, e.g. to forward them elsewhere
+export const onAny = (bus: EventBus, listener: AnyEventListener) => {
+  bus.any.push(listener);
+  return () => { bus.any.splice(bus.any.indexOf(listener), 1); };
+};
+
+export const emit = <K extends GameEventType>(bus: EventBus, type: K, event: GameEvents[K]) => {
+  bus.listeners[type]?.forEach(listener => listener(event));
+  bus.any.forEach(listener => listener(type, event));
+};
@@ -0,0 +1,26 @@
+import { HuntRating, HuntTally } from '../types';
+
+// Rating for levels with game to retrieve (the duck marsh). Every bird brought
+// back is worth RETRIEVE_POINTS; escapes and missed arrows cost points. The
+// grade is the share of the best possible score, and comes with a bonus.
+
+const RETRIEVE_POINTS = 3;
+const ESCAPE_PENALTY = 2;
+const MISS_PENALTY = 1;
+
+// Best first
+const GRADES: { share: number; rating: HuntRating }[] = [
+  { share: 0.85, rating: { grade: 'A', bonus: 1000 } },
+  { share: 0.6, rating: { grade: 'B', bonus: 500 } },
+  { share: 0.35, rating: { grade: 'C', bonus: 200 } },
+  { share: -Infinity, rating: { grade: 'D', bonus: 0 } }
+];
+
+export const createHuntTally = (total = 0): HuntTally => ({ total, retrieved: 0, escaped: 0, missed: 0, rating: null });
+
+export const rateHunt = (tally: HuntTally): HuntRating => {
+  const best = tally.total * RETRIEVE_POINTS;
+  const earned = tally.retrieved * RETRIEVE_POINTS - tally.escaped * ESCAPE_PENALTY - tally.missed * MISS_PENALTY;
+  const share = best > 0 ? earned / best : 0;
+  return { ...GRADES.find(g => share >= g.share)!.rating };
+};
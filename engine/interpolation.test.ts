@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createSimulation } from './simulation';
+import { createPositionSnapshot, renderInterpolated, snapshotPositions } from './interpolation';
+
+describe('renderInterpolated', () => {
+  const setup = () => {
+    const sim = createSimulation();
+    sim.initGame(1);
+    const { entities } = sim.world;
+    const player = entities.player!;
+    const snapshot = createPositionSnapshot();
+    player.x = 100; player.y = 200;
+    snapshotPositions(entities, snapshot);
+    player.x = 110; player.y = 190;
+    return { entities, player, snapshot };
+  };
+
+  it('draws between the last two ticks and restores the simulated position', () => {
+    const { entities, player, snapshot } = setup();
+    let drawn = { x: 0, y: 0 };
+    renderInterpolated(entities, snapshot, 0.5, () => { drawn = { x: player.x, y: player.y }; });
+    expect(drawn).toEqual({ x: 105, y: 195 });
+    expect(player.x).toBe(110);
+    expect(player.y).toBe(190);
+  });
+
+  it('does not blend a teleport', () => {
+    const { entities, player, snapshot } = setup();
+    player.x = 900;
+    renderInterpolated(entities, snapshot, 0.5, () => expect(player.x).toBe(900));
+  });
+
+  it('does not blend a pooled object from the spot of its previous life', () => {
+    const { entities, player, snapshot } = setup();
+    player.id += 1000; // Handed out again by its pool during the tick
+    renderInterpolated(entities, snapshot, 0.5, () => expect(player.x).toBe(110));
+  });
+
+  it('reuses each entity\'s record from tick to tick', () => {
+    const { entities, player, snapshot } = setup();
+    const record = snapshot.get(player);
+    snapshotPositions(entities, snapshot);
+    expect(snapshot.get(player)).toBe(record);
+  });
+});
@@ -0,0 +1,64 @@
+import { Entity, EntityId, GameEntities, Vector2 } from '../types';
+import { forEachEntity } from './simulation';
+
+// Render interpolation for the fixed-timestep loop. Positions are snapshotted
+// before each tick; drawing then blends previous and current positions by how
+// far the real clock has progressed into the next tick.
+
+// Anything that moved further than this in one tick teleported; don't smear it
+const MAX_BLEND_DISTANCE = 100;
+
+interface SavedPosition {
+  id: EntityId;                 // Whose position it is: pooled objects get a new id each time they are reused
+  prevX: number; prevY: number; // Before the latest tick
+  simX: number; simY: number;   // Simulated position while a blended frame is drawn
+  blended: boolean;
+}
+
+// One record per object, updated in place so snapshotting every tick
+// allocates nothing. A pooled object keeps its record across reuses, so
+// the id tells a fresh spawn apart from the position of its previous life.
+export type PositionSnapshot = WeakMap<Entity, SavedPosition>;
+
+export const createPositionSnapshot = (): PositionSnapshot => new WeakMap();
+
+export const snapshotPositions = (entities: GameEntities, snapshot: PositionSnapshot) => {
+  forEachEntity(entities, e => {
+    const saved = snapshot.get(e);
+    if (saved) { saved.id = e.id; saved.prevX = e.x; saved.prevY = e.y; }
+    else snapshot.set(e, { id: e.id, prevX: e.x, prevY: e.y, simX: 0, simY: 0, blended: false });
+  });
+};
+
+// Runs `render` with every entity moved to its interpolated position, then
+// restores the simulated positions so the simulation never sees the blend.
+export const renderInterpolated = (entities: GameEntities, previous: PositionSnapshot, alpha: number, render: () => void) => {
+  forEachEntity(entities, e => {
+    const saved = previous.get(e);
+    if (!saved) return;
+    saved.blended = false;
+    if (saved.id !== e.id) return; // Spawned into a reused object during the last tick
+    const dx = e.x - saved.prevX;
+    const dy = e.y - saved.prevY;
+    if ((dx === 0 && dy === 0) || Math.abs(dx) > MAX_BLEND_DISTANCE || Math.abs(dy) > MAX_BLEND_DISTANCE) return;
+    saved.simX = e.x; saved.simY = e.y; saved.blended = true;
+    e.x = saved.prevX + dx * alpha;
+    e.y = saved.prevY + dy * alpha;
+  });
+  try {
+    render();
+  } finally {
+    forEachEntity(entities, e => {
+      const saved = previous.get(e);
+      if (saved?.blended) { e.x = saved.simX; e.y = saved.simY; saved.blended = false; }
+    });
+  }
+};
+
+// The same blend for a single point that isn't an entity, e.g. the camera
+export const interpolatePoint = (prev: Vector2, current: Vector2, alpha: number): Vector2 => {
+  const dx = current.x - prev.x;
+  const dy = current.y - prev.y;
+  if (Math.abs(dx) > MAX_BLEND_DISTANCE || Math.abs(dy) > MAX_BLEND_DISTANCE) return { x: current.x, y: current.y };
+  return { x: prev.x + dx * alpha, y: prev.y + dy * alpha };
+};
@@ -0,0 +1,261 @@
+import { EnemyTier, LevelDefinition, LevelMode, LevelPlatform, PlatformKind, PlatformVariant } from '../types';
+import { BOSS_HEALTH, CANVAS_WIDTH, CANVAS_HEIGHT, MAX_LEVEL_WIDTH, MAX_LEVEL_HEIGHT, MOVING_PLATFORM_SPEED } from './constants';
+import { getCreatureDefinition } from './creatures';
+import { getPowerUpDefinition } from './powerups';
+import level1 from '../levels/level1.json';
+import level2 from '../levels/level2.json';
+import level3 from '../levels/level3.json';
+import level4 from '../levels/level4.json';
+import level5 from '../levels/level5.json';
+import marsh from '../levels/marsh.json';
+
+// Loader for declarative level files. Level JSON is treated as untrusted
+// input: every field is checked and all problems are reported at once, with
+// a path to the offending value (e.g. "platforms[2].width").
+
+export class LevelFormatError extends Error {
+  constructor(public source: string, public problems: string[]) {
+    super(`Invalid level ${source}:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'LevelFormatError';
+  }
+}
+
+const MODES: LevelMode[] = ['SIDE', 'TOPDOWN'];
+const TIERS = Object.values(EnemyTier);
+export const PLATFORM_KINDS: PlatformKind[] = ['ONE_WAY', 'SOLID', 'SLOPE_UP', 'SLOPE_DOWN'];
+export const PLATFORM_VARIANTS: PlatformVariant[] = ['STATIC', 'MOVING', 'CRUMBLING', 'BOUNCY', 'SINKING'];
+
+type Size = { width: number; height: number };
+
+// World bounds of a level; levels without a size fill exactly one screen
+export const levelSize = (level: LevelDefinition): Size => level.size ?? { width: CANVAS_WIDTH, height: CANVAS_HEIGHT };
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const createChecker = () => {
+  const problems: string[] = [];
+
+  const number = (obj: Record<string, unknown>, key: string, path: string, min = -Infinity, max = Infinity): number => {
+    const v = obj[key];
+    if (typeof v !== 'number' || !Number.isFinite(v)) { problems.push(`${path}${key} must be a number`); return 0; }
+    if (v < min || v > max) {
+      const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+      problems.push(`${path}${key} must be ${range} (got ${v})`);
+    }
+    return v;
+  };
+
+  const object = (obj: Record<string, unknown>, key: string, path: string): Record<string, unknown> | null => {
+    const v = obj[key];
+    if (!isObject(v)) { problems.push(`${path}${key} must be an object`); return null; }
+    return v;
+  };
+
+  const array = (obj: Record<string, unknown>, key: string, path: string): Record<string, unknown>[] => {
+    const v = obj[key];
+    if (!Array.isArray(v)) { problems.push(`${path}${key} must be an array`); return []; }
+    return v.filter((item, i) => {
+      if (isObject(item)) return true;
+      problems.push(`${path}${key}[${i}] must be an object`);
+      return false;
+    }) as Record<string, unknown>[];
+  };
+
+  const point = (obj: Record<string, unknown>, key: string, path: string, bounds: Size) => {
+    const p = object(obj, key, path);
+    if (!p) return { x: 0, y: 0 };
+    return { x: number(p, 'x', `${path}${key}.`, 0, bounds.width), y: number(p, 'y', `${path}${key}.`, 0, bounds.height) };
+  };
+
+  return { problems, number, object, array, point };
+};
+
+// Validates raw JSON and returns a typed level, or throws LevelFormatError
+export const parseLevel = (raw: unknown, source: string): LevelDefinition => {
+  if (!isObject(raw)) throw new LevelFormatError(source, ['level must be a JSON object']);
+  const check = createChecker();
+  const { problems, number, object, array, point } = check;
+
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') problems.push('name must be a non-empty string');
+  const mode = raw.mode as LevelMode;
+  if (!MODES.includes(mode)) problems.push(`mode must be one of ${MODES.join(', ')}`);
+
+  let size: LevelDefinition['size'];
+  if (raw.size !== undefined) {
+    const s = object(raw, 'size', '');
+    if (s) size = { width: number(s, 'width', 'size.', CANVAS_WIDTH, MAX_LEVEL_WIDTH), height: number(s, 'height', 'size.', CANVAS_HEIGHT, MAX_LEVEL_HEIGHT) };
+  }
+  const bounds = size ?? { width: CANVAS_WIDTH, height: CANVAS_HEIGHT };
+
+  const weather = object(raw, 'weather', '');
+  if (weather && typeof weather.rain !== 'boolean') problems.push('weather.rain must be true or false');
+
+  let flood: LevelDefinition['flood'];
+  if (raw.flood !== undefined) {
+    const f = object(raw, 'flood', '');
+    if (f) flood = {
+      riseRate: number(f, 'riseRate', 'flood.', 0),
+      damage: number(f, 'damage', 'flood.', 0),
+      damageInterval: number(f, 'damageInterval', 'flood.', 1)
+    };
+  }
+
+  const platforms = array(raw, 'platforms', '').map((p, i): LevelPlatform => {
+    const kind = (p.kind ?? 'ONE_WAY') as PlatformKind;
+    if (!PLATFORM_KINDS.includes(kind)) problems.push(`platforms[${i}].kind must be one of ${PLATFORM_KINDS.join(', ')}`);
+    const variant = (p.variant ?? 'STATIC') as PlatformVariant;
+    if (!PLATFORM_VARIANTS.includes(variant)) problems.push(`platforms[${i}].variant must be one of ${PLATFORM_VARIANTS.join(', ')}`);
+    const platform: LevelPlatform = {
+      x: number(p, 'x', `platforms[${i}].`),
+      y: number(p, 'y', `platforms[${i}].`),
+      width: number(p, 'width', `platforms[${i}].`, 1),
+      height: number(p, 'height', `platforms[${i}].`, 1),
+      kind,
+      variant
+    };
+    if (variant === 'MOVING') {
+      const path = array(p, 'path', `platforms[${i}].`);
+      if (Array.isArray(p.path) && path.length === 0) problems.push(`platforms[${i}].path needs at least one waypoint`);
+      platform.path = path.map((w, j) => ({
+        x: number(w, 'x', `platforms[${i}].path[${j}].`, 0, bounds.width),
+        y: number(w, 'y', `platforms[${i}].path[${j}].`, 0, bounds.height)
+      }));
+      platform.speed = p.speed === undefined ? MOVING_PLATFORM_SPEED : number(p, 'speed', `platforms[${i}].`, 0.1, 20);
+    }
+    return platform;
+  });
+
+  const cages = array(raw, 'cages', '').map((c, i) => ({
+    x: number(c, 'x', `cages[${i}].`, 0, bounds.width),
+    y: number(c, 'y', `cages[${i}].`, 0, bounds.height),
+    health: number(c, 'health', `cages[${i}].`, 1)
+  }));
+
+  const bushes = array(raw, 'bushes', '').map((b, i) => {
+    if (typeof b.rabbit !== 'boolean') problems.push(`bushes[${i}].rabbit must be true or false`);
+    return {
+      x: number(b, 'x', `bushes[${i}].`, 0, bounds.width),
+      y: number(b, 'y', `bushes[${i}].`, 0, bounds.height),
+      rabbit: b.rabbit === true
+    };
+  });
+
+  const creatures = raw.creatures === undefined ? [] : array(raw, 'creatures', '').map((c, i) => {
+    if (typeof c.kind !== 'string' || !getCreatureDefinition(c.kind)) problems.push(`creatures[${i}].kind must be a known creature kind`);
+    if (c.facingRight !== undefined && typeof c.facingRight !== 'boolean') problems.push(`creatures[${i}].facingRight must be true or false`);
+    return {
+      kind: String(c.kind),
+      x: number(c, 'x', `creatures[${i}].`, 0, bounds.width),
+      y: number(c, 'y', `creatures[${i}].`, 0, bounds.height),
+      facingRight: c.facingRight !== false
+    };
+  });
+
+  const water = raw.water === undefined ? [] : array(raw, 'water', '').map((w, i) => ({
+    x: number(w, 'x', `water[${i}].`, 0, bounds.width),
+    y: number(w, 'y', `water[${i}].`, 0, bounds.height),
+    width: number(w, 'width', `water[${i}].`, 1),
+    height: number(w, 'height', `water[${i}].`, 1)
+  }));
+
+  let boss: LevelDefinition['boss'];
+  if (raw.boss !== undefined) {
+    const b = object(raw, 'boss', '');
+    if (b) boss = {
+      x: number(b, 'x', 'boss.', 0, bounds.width),
+      y: number(b, 'y', 'boss.', 0, bounds.height),
+      health: b.health === undefined ? BOSS_HEALTH : number(b, 'health', 'boss.', 1)
+    };
+  }
+
+  let powerUps: LevelDefinition['powerUps'];
+  if (raw.powerUps !== undefined) {
+    const p = object(raw, 'powerUps', '');
+    const weightsRaw = p && object(p, 'weights', 'powerUps.');
+    if (p && weightsRaw) {
+      const weights: Record<string, number> = {};
+      Object.keys(weightsRaw).forEach(kind => {
+        if (!getPowerUpDefinition(kind)) problems.push(`powerUps.weights.${kind} is not a known power-up kind`);
+        weights[kind] = number(weightsRaw, kind, 'powerUps.weights.', 0);
+      });
+      powerUps = { chance: number(p, 'chance', 'powerUps.', 0, 1), weights };
+      if (powerUps.chance > 0 && Object.values(weights).every(w => w === 0)) problems.push('powerUps.weights needs at least one kind with a weight above 0');
+    }
+  }
+
+  let enemies: LevelDefinition['enemies'] = null;
+  if (raw.enemies !== null) {
+    const e = object(raw, 'enemies', '');
+    if (e) {
+      const tiersRaw = object(e, 'tiers', 'enemies.');
+      const tiers = {} as Record<EnemyTier, number>;
+      TIERS.forEach(tier => { tiers[tier] = tiersRaw ? number(tiersRaw, tier, 'enemies.tiers.', 0) : 0; });
+      if (tiersRaw && TIERS.every(tier => tiers[tier] === 0)) problems.push('enemies.tiers needs at least one tier with a weight above 0');
+      enemies = { interval: number(e, 'interval', 'enemies.', 1), max: number(e, 'max', 'enemies.', 0), tiers };
+    }
+  }
+
+  let crows: LevelDefinition['crows'] = null;
+  if (raw.crows !== null) {
+    const c = object(raw, 'crows', '');
+    if (c) crows = { interval: number(c, 'interval', 'crows.', 1), max: number(c, 'max', 'crows.', 0) };
+  }
+
+  if (raw.provideDog !== undefined && typeof raw.provideDog !== 'boolean') problems.push('provideDog must be true or false');
+  // The alpha ends a boss level, so a kill goal there would never be used
+  if (boss && raw.killGoal !== undefined) problems.push('killGoal cannot be set on a level with a boss');
+
+  const level: LevelDefinition = {
+    name: String(raw.name),
+    mode,
+    killGoal: boss ? undefined : number(raw, 'killGoal', '', 0),
+    size,
+    weather: { rain: weather?.rain === true },
+    flood,
+    playerSpawn: point(raw, 'playerSpawn', '', bounds),
+    dogSpawn: point(raw, 'dogSpawn', '', bounds),
+    provideDog: raw.provideDog === true,
+    door: point(raw, 'door', '', bounds),
+    platforms,
+    cages,
+    bushes,
+    randomBushes: raw.randomBushes === undefined ? 0 : number(raw, 'randomBushes', '', 0, 50),
+    creatures,
+    water,
+    nets: raw.nets === undefined ? undefined : number(raw, 'nets', '', 0, 99),
+    boss,
+    powerUps,
+    enemies,
+    crows
+  };
+
+  if (problems.length > 0) throw new LevelFormatError(source, problems);
+  return level;
+};
+
+// The campaign, in play order
+export const BUILTIN_LEVELS: LevelDefinition[] = [level1, level2, level3, level4, level5]
+  .map((raw, i) => parseLevel(raw, `level${i + 1}.json`));
+
+// Shipped levels outside the campaign, played from the level editor
+export const BONUS_LEVELS: LevelDefinition[] = [parseLevel(marsh, 'marsh.json')];
+
+// Starting point for a new level in the editor: flat ground, one door
+export const createBlankLevel = (): LevelDefinition => ({
+  name: 'Untitled',
+  mode: 'SIDE',
+  killGoal: 4,
+  weather: { rain: false },
+  playerSpawn: { x: 50, y: 440 },
+  dogSpawn: { x: 50, y: 440 },
+  provideDog: false,
+  door: { x: 880, y: 444 },
+  platforms: [],
+  cages: [],
+  bushes: [],
+  randomBushes: 0,
+  creatures: [],
+  water: [],
+  enemies: { interval: 150, max: 5, tiers: { [EnemyTier.SMALL]: 0.35, [EnemyTier.MEDIUM]: 0.35, [EnemyTier.LARGE]: 0.3 } },
+  crows: { interval: 300, max: 3 }
+});
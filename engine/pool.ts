@@ -0,0 +1,67 @@
+// Fixed-capacity object pools for short-lived objects spawned in bulk
+// (particles, arrows, floating texts, rain). Live objects sit in `items`,
+// which the game uses directly as its entity array; dead ones are compacted
+// out in place and kept on a free list, so busy fights don't churn the GC.
+
+// What acquire() does when every slot is live:
+// DROP_NEW       - refuse the new object (for gameplay objects like arrows)
+// RECYCLE_OLDEST - reuse a live object, walking them round-robin from the
+//                  oldest (for effects where losing one early is invisible)
+export type OverflowPolicy = 'DROP_NEW' | 'RECYCLE_OLDEST';
+
+export interface PoolStats {
+  allocated: number; // Objects ever created; stops growing once the pool is warm
+  peak: number;      // Most objects live at once
+  dropped: number;   // Spawns refused by DROP_NEW
+  recycled: number;  // Live objects reused by RECYCLE_OLDEST
+}
+
+export interface Pool<T> {
+  name: string;
+  capacity: number;
+  policy: OverflowPolicy;
+  items: T[]; // Live objects in spawn order
+  free: T[];
+  create: () => T;
+  recycleCursor: number;
+  stats: PoolStats;
+}
+
+export const createPool = <T>(name: string, capacity: number, policy: OverflowPolicy, create: () => T): Pool<T> => ({
+  name, capacity, policy, items: [], free: [], create, recycleCursor: 0,
+  stats: { allocated: 0, peak: 0, dropped: 0, recycled: 0 }
+});
+
+// Returns an object for the caller to fully re-initialise, or null if dropped
+export const acquire = <T>(pool: Pool<T>): T | null => {
+  const { items, stats } = pool;
+  if (items.length < pool.capacity) {
+    let item = pool.free.pop();
+    if (!item) { item = pool.create(); stats.allocated++; }
+    items.push(item);
+    stats.peak = Math.max(stats.peak, items.length);
+    return item;
+  }
+  if (pool.policy === 'DROP_NEW') { stats.dropped++; return null; }
+  pool.recycleCursor %= items.length;
+  stats.recycled++;
+  return items[pool.recycleCursor++];
+};
+
+// Moves dead objects to the free list, keeping the live ones in order
+export const compactPool = <T>(pool: Pool<T>, isDead: (item: T) => boolean) => {
+  const { items } = pool;
+  let write = 0;
+  for (let read = 0; read < items.length; read++) {
+    const item = items[read];
+    if (isDead(item)) pool.free.push(item);
+    else items[write++] = item;
+  }
+  items.length = write;
+};
+
+export const releaseAll = <T>(pool: Pool<T>) => {
+  for (const item of pool.items) pool.free.push(item);
+  pool.items.length = 0;
+  pool.recycleCursor = 0;
+};
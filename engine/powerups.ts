@@ -0,0 +1,101 @@
+import { PlayerEntity } from '../types';
+import type { CreatureContext } from './creatures';
+
+// Power-up catalogue. A collected power-up starts a timer on the player; the
+// simulation checks which kinds are active (hasPowerUp) where their effects
+// apply. Several kinds can run at once, and picking up a kind that is already
+// active follows its stacking rule. Which kind drops is decided per level
+// (LevelDefinition.powerUps), falling back to each kind's default weight.
+
+// REFRESH: restart at the full duration. EXTEND: add the duration to the time left, up to maxDuration.
+export type PowerUpStacking = 'REFRESH' | 'EXTEND';
+
+export interface PowerUpDefinition {
+  kind: string;
+  label: string;       // Shown above the player on pickup and in the HUD
+  color: string;
+  weight: number;      // Default drop weight for levels without their own table
+  duration: number;    // Ticks the effect lasts
+  stacking: PowerUpStacking;
+  maxDuration?: number; // EXTEND: cap on the time left, defaults to twice the duration
+  // Optional extra effect on pickup; the timer itself is handled here
+  apply?: (player: PlayerEntity, duration: number, ctx: CreatureContext) => void;
+}
+
+const definitions = new Map<string, PowerUpDefinition>();
+
+export const definePowerUp = (def: PowerUpDefinition) => { definitions.set(def.kind, def); };
+
+export const getPowerUpDefinition = (kind: string) => definitions.get(kind) ?? null;
+export const powerUpDefinitions = () => [...definitions.values()];
+
+export const hasPowerUp = (player: PlayerEntity, kind: string) => (player.powerUps[kind] ?? 0) > 0;
+
+// Starts or stacks the effect's timer
+export const grantPowerUp = (player: PlayerEntity, def: PowerUpDefinition, duration: number) => {
+  const left = player.powerUps[def.kind] ?? 0;
+  player.powerUps[def.kind] = def.stacking === 'EXTEND'
+    ? Math.min(left + duration, def.maxDuration ?? def.duration * 2)
+    : Math.max(left, duration);
+};
+
+// Counts every active timer down; returns the kinds that ran out this tick
+export const tickPowerUps = (player: PlayerEntity): string[] => {
+  const expired: string[] = [];
+  Object.keys(player.powerUps).forEach(kind => {
+    player.powerUps[kind]--;
+    if (player.powerUps[kind] <= 0) {
+      delete player.powerUps[kind];
+      expired.push(kind);
+    }
+  });
+  return expired;
+};
+
+// --- BUILT-IN POWER-UPS ---
+
+definePowerUp({
+  kind: 'TRIPLE_SHOT',
+  label: 'TRIPLE SHOT!',
+  color: '#a855f7',
+  weight: 3,
+  duration: 600,
+  stacking: 'EXTEND'
+});
+
+definePowerUp({
+  kind: 'PIERCING',
+  label: 'PIERCING!',
+  color: '#e5e7eb',
+  weight: 2,
+  duration: 600,
+  stacking: 'EXTEND'
+});
+
+definePowerUp({
+  kind: 'FIRE_ARROWS',
+  label: 'FIRE ARROWS!',
+  color: '#f97316',
+  weight: 2,
+  duration: 480,
+  stacking: 'EXTEND'
+});
+
+// Not extendable, so it can't be banked into near-permanent invulnerability
+definePowerUp({
+  kind: 'SHIELD',
+  label: 'SHIELD!',
+  color: '#22d3ee',
+  weight: 1,
+  duration: 300,
+  stacking: 'REFRESH'
+});
+
+definePowerUp({
+  kind: 'SCENT',
+  label: 'SCENT!',
+  color: '#fbbf24',
+  weight: 1,
+  duration: 900,
+  stacking: 'REFRESH'
+});
@@ -0,0 +1,41 @@
+// Seedable PRNG (mulberry32). The whole generator state is a single uint32,
+// so it can be stored in GameState, saved and replayed as plain data.
+
+export interface Rng {
+  state: number;
+}
+
+export const createRng = (seed: number): Rng => ({ state: seed >>> 0 });
+
+// Uniform float in [0, 1), same contract as Math.random()
+export const nextRandom = (rng: Rng): number => {
+  rng.state = (rng.state + 0x6D2B79F5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const MAX_SEED = 0xFFFFFFFF;
+
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED) >>> 0;
+
+// 32-bit FNV-1a
+export const hashString = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Same seed for every player on the same (UTC) day
+export const dailySeed = (date: Date = new Date()): number => hashString(date.toISOString().slice(0, 10));
+
+// Typed seeds are plain decimal numbers; anything else is rejected
+export const parseSeed = (text: string): number | null => {
+  if (!/^\d+$/.test(text)) return null;
+  const value = Number(text);
+  return value <= MAX_SEED ? value : null;
+};
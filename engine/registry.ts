@@ -0,0 +1,47 @@
+import { Entity, EntityId, EntityType } from '../types';
+
+// Entity registry. Ids come from a per-run counter (never Math.random, never
+// reused), so they are deterministic and survive serialization: replays and
+// saves can refer to entities by id. Cross-entity references hold an id
+// (a handle) and resolve it here; a handle to a deleted entity resolves to
+// null instead of a stale object.
+
+export interface EntityRegistry {
+  nextId: EntityId;
+  byId: Map<EntityId, Entity>;
+}
+
+export const createRegistry = (): EntityRegistry => ({ nextId: 1, byId: new Map() });
+
+export const allocateId = (registry: EntityRegistry): EntityId => registry.nextId++;
+
+export const indexEntity = (registry: EntityRegistry, entity: Entity) => {
+  registry.byId.set(entity.id, entity);
+};
+
+// Forgets every entity but keeps the id counter running
+export const clearIndex = (registry: EntityRegistry) => {
+  registry.byId.clear();
+};
+
+// Drops deleted entities and stale ids of pooled objects that were reused
+export const pruneRegistry = (registry: EntityRegistry) => {
+  registry.byId.forEach((entity, id) => {
+    if (entity.markedForDeletion || entity.id !== id) registry.byId.delete(id);
+  });
+};
+
+export const getEntity = <T extends Entity = Entity>(registry: EntityRegistry, id: EntityId | null): T | null => {
+  if (id === null) return null;
+  const entity = registry.byId.get(id);
+  if (!entity || entity.id !== id || entity.markedForDeletion) return null;
+  return entity as T;
+};
+
+export const entitiesOfType = <T extends Entity = Entity>(registry: EntityRegistry, type: EntityType): T[] => {
+  const found: T[] = [];
+  registry.byId.forEach((entity, id) => {
+    if (entity.type === type && entity.id === id && !entity.markedForDeletion) found.push(entity as T);
+  });
+  return found;
+};
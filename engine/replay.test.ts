@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_INPUT } from './simulation';
+import { BUILTIN_LEVELS } from './levels';
+import { REPLAY_VERSION, createReplayPlayer, createReplayRecorder, finishReplay, parseReplay, recordFrame } from './replay';
+
+const recorded = () => {
+  const recorder = createReplayRecorder(7, BUILTIN_LEVELS);
+  for (let tick = 0; tick < 10; tick++) recordFrame(recorder, { ...EMPTY_INPUT, keys: new Set(tick < 5 ? ['KeyD'] : []) });
+  return finishReplay(recorder);
+};
+
+describe('parseReplay', () => {
+  it('reads back what was recorded', () => {
+    const replay = recorded();
+    expect(parseReplay(JSON.stringify(replay))).toEqual(replay);
+  });
+
+  it('rejects malformed files', () => {
+    const replay = recorded();
+    expect(() => parseReplay('not json')).toThrow('not valid JSON');
+    expect(() => parseReplay('[]')).toThrow('not a replay file');
+    expect(() => parseReplay(JSON.stringify({ ...replay, version: REPLAY_VERSION - 1 }))).toThrow('unsupported format version');
+    expect(() => parseReplay(JSON.stringify({ ...replay, seed: -1 }))).toThrow('missing seed');
+    expect(() => parseReplay(JSON.stringify({ ...replay, levelsHash: undefined }))).toThrow('missing level hash');
+    expect(() => parseReplay(JSON.stringify({ ...replay, runs: [[0, 0, 0, 0, 0, 0, 0, 0, 0]] }))).toThrow('malformed input run #0');
+  });
+});
+
+describe('createReplayPlayer', () => {
+  it('refuses a replay recorded on other levels', () => {
+    const replay = recorded();
+    expect(() => createReplayPlayer(replay, BUILTIN_LEVELS)).not.toThrow();
+    expect(() => createReplayPlayer(replay, BUILTIN_LEVELS.slice(0, 1))).toThrow('different set of levels');
+    expect(() => createReplayPlayer(replay, [...BUILTIN_LEVELS, BUILTIN_LEVELS[0]])).toThrow('different set of levels');
+  });
+});
@@ -0,0 +1,193 @@
+import { InputFrame, LevelDefinition } from '../types';
+import { GAME_VERSION } from './constants';
+import { hashString } from './random';
+
+// Replay file format
+// -------------------
+// A replay is the run's seed plus the InputFrame fed to every simulation
+// tick since initGame(seed). Each frame is packed into a fixed tuple of
+// integers and identical consecutive frames are run-length encoded, so a
+// player holding a direction for ten seconds costs one entry, not 600.
+// The header also carries a hash of the campaign it was played on, since
+// plugins add levels and the same inputs on other levels mean nothing.
+//
+//   run = [repeat, keyBits, mouseX, mouseY, buttonBits, lsX, lsY, rsX, rsY]
+
+export const REPLAY_FORMAT = 'hunter-replay';
+export const REPLAY_VERSION = 2;
+
+// Bit order is part of the format: only ever append to this list
+const RECORDED_KEYS = [
+  'KeyA', 'ArrowLeft', 'KeyD', 'ArrowRight', 'KeyW', 'ArrowUp',
+  'KeyS', 'ArrowDown', 'Space', 'KeyT', 'KeyR', 'ShiftLeft'
+];
+
+const BTN_MOUSE_LEFT = 1 << 0;
+const BTN_FIRE = 1 << 1;
+const BTN_LEFT_STICK = 1 << 2;
+const BTN_RIGHT_STICK = 1 << 3;
+const BTN_TRAP = 1 << 4;
+const BTN_WHISTLE = 1 << 5;
+const BTN_DASH = 1 << 6;
+const BTN_RESTART = 1 << 7;
+
+type PackedFrame = [number, number, number, number, number, number, number, number];
+type Run = [number, ...PackedFrame];
+
+export interface ReplayFile {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  gameVersion: string;
+  seed: number;
+  levelsHash: string;
+  frameCount: number;
+  recordedAt: string;
+  runs: Run[];
+}
+
+export const hashLevels = (levels: LevelDefinition[]): string => hashString(JSON.stringify(levels)).toString(16).padStart(8, '0');
+
+const packFrame = (frame: InputFrame): PackedFrame => {
+  let keyBits = 0;
+  RECORDED_KEYS.forEach((code, i) => { if (frame.keys.has(code)) keyBits |= 1 << i; });
+  const { touch } = frame;
+  let buttons = 0;
+  if (frame.mouse.leftDown) buttons |= BTN_MOUSE_LEFT;
+  if (frame.fire) buttons |= BTN_FIRE;
+  if (touch.leftStick.active) buttons |= BTN_LEFT_STICK;
+  if (touch.rightStick.active) buttons |= BTN_RIGHT_STICK;
+  if (touch.trapBtnPressed) buttons |= BTN_TRAP;
+  if (touch.whistleBtnPressed) buttons |= BTN_WHISTLE;
+  if (touch.dashBtnPressed) buttons |= BTN_DASH;
+  if (frame.restartLevel) buttons |= BTN_RESTART;
+  return [
+    keyBits,
+    Math.round(frame.mouse.x), Math.round(frame.mouse.y),
+    buttons,
+    Math.round(touch.leftStick.x), Math.round(touch.leftStick.y),
+    Math.round(touch.rightStick.x), Math.round(touch.rightStick.y)
+  ];
+};
+
+const unpackFrame = (packed: readonly number[]): InputFrame => {
+  const [keyBits, mx, my, buttons, lsx, lsy, rsx, rsy] = packed;
+  const keys = new Set<string>();
+  RECORDED_KEYS.forEach((code, i) => { if (keyBits & (1 << i)) keys.add(code); });
+  return {
+    keys,
+    mouse: { x: mx, y: my, leftDown: (buttons & BTN_MOUSE_LEFT) !== 0 },
+    touch: {
+      leftStick: { active: (buttons & BTN_LEFT_STICK) !== 0, x: lsx, y: lsy },
+      rightStick: { active: (buttons & BTN_RIGHT_STICK) !== 0, x: rsx, y: rsy },
+      trapBtnPressed: (buttons & BTN_TRAP) !== 0,
+      whistleBtnPressed: (buttons & BTN_WHISTLE) !== 0,
+      dashBtnPressed: (buttons & BTN_DASH) !== 0
+    },
+    fire: (buttons & BTN_FIRE) !== 0,
+    restartLevel: (buttons & BTN_RESTART) !== 0
+  };
+};
+
+const sameFrame = (run: Run, packed: PackedFrame) => packed.every((v, i) => run[i + 1] === v);
+
+// --- RECORDING ---
+
+export interface ReplayRecorder {
+  seed: number;
+  levelsHash: string;
+  frameCount: number;
+  runs: Run[];
+}
+
+export const createReplayRecorder = (seed: number, levels: LevelDefinition[]): ReplayRecorder => ({
+  seed, levelsHash: hashLevels(levels), frameCount: 0, runs: []
+});
+
+// Records one tick and returns the frame exactly as it will be played back.
+// The live game must step with the returned frame (not the raw input), so
+// rounding in the packed format can never make a replay drift.
+export const recordFrame = (recorder: ReplayRecorder, frame: InputFrame): InputFrame => {
+  const packed = packFrame(frame);
+  const last = recorder.runs[recorder.runs.length - 1];
+  if (last && sameFrame(last, packed)) last[0]++;
+  else recorder.runs.push([1, ...packed]);
+  recorder.frameCount++;
+  return unpackFrame(packed);
+};
+
+export const finishReplay = (recorder: ReplayRecorder): ReplayFile => ({
+  format: REPLAY_FORMAT,
+  version: REPLAY_VERSION,
+  gameVersion: GAME_VERSION,
+  seed: recorder.seed,
+  levelsHash: recorder.levelsHash,
+  frameCount: recorder.frameCount,
+  recordedAt: new Date().toISOString(),
+  runs: recorder.runs.map(run => [...run] as Run)
+});
+
+// --- LOADING ---
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isInt = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v);
+const isCount = (v: unknown, min: number): v is number => isInt(v) && v >= min;
+const isRun = (v: unknown): v is Run => Array.isArray(v) && v.length === 9 && v.every(isInt) && v[0] >= 1;
+
+// Validates untrusted JSON (e.g. an imported file) and returns a replay, or throws
+export const parseReplay = (json: string): ReplayFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid replay: file is not valid JSON');
+  }
+  if (!isObject(data) || data.format !== REPLAY_FORMAT) throw new Error('Invalid replay: not a replay file');
+  if (data.version !== REPLAY_VERSION) throw new Error(`Invalid replay: unsupported format version ${data.version}`);
+  const { seed, levelsHash, runs, gameVersion, recordedAt } = data;
+  if (!isCount(seed, 0)) throw new Error('Invalid replay: missing seed');
+  if (typeof levelsHash !== 'string') throw new Error('Invalid replay: missing level hash');
+  if (!Array.isArray(runs)) throw new Error('Invalid replay: missing input frames');
+
+  let frameCount = 0;
+  runs.forEach((run: unknown, i: number) => {
+    if (!isRun(run)) throw new Error(`Invalid replay: malformed input run #${i}`);
+    frameCount += run[0];
+  });
+
+  return {
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    gameVersion: typeof gameVersion === 'string' ? gameVersion : 'unknown',
+    seed,
+    levelsHash,
+    frameCount,
+    recordedAt: typeof recordedAt === 'string' ? recordedAt : '',
+    runs: runs as Run[]
+  };
+};
+
+// --- PLAYBACK ---
+
+export interface ReplayPlayer {
+  replay: ReplayFile;
+  frame: number;   // Ticks played so far
+  runIndex: number;
+  runOffset: number;
+}
+
+// Refuses a replay recorded on other levels: played back there, it would desync silently
+export const createReplayPlayer = (replay: ReplayFile, levels: LevelDefinition[]): ReplayPlayer => {
+  if (replay.levelsHash !== hashLevels(levels)) throw new Error('Replay was recorded on a different set of levels (check the loaded plugins)');
+  return { replay, frame: 0, runIndex: 0, runOffset: 0 };
+};
+
+// Next recorded frame, or null once the recording is exhausted
+export const nextReplayFrame = (player: ReplayPlayer): InputFrame | null => {
+  const run = player.replay.runs[player.runIndex];
+  if (!run) return null;
+  const frame = unpackFrame(run.slice(1));
+  player.frame++;
+  player.runOffset++;
+  if (player.runOffset >= run[0]) { player.runIndex++; player.runOffset = 0; }
+  return frame;
+};
@@ -0,0 +1,86 @@
+// Game-time scheduler. Delays and tweens are measured in simulation ticks,
+// so they freeze with the simulation (menus, pauses) and replay identically.
+
+export interface ScheduledTask {
+  id: number;
+  dueTick: number;
+  action: () => void;
+}
+
+export interface Tween {
+  id: number;
+  startTick: number;
+  duration: number;
+  onUpdate: (t: number) => void; // t runs from 0 to 1
+  onComplete?: () => void;
+}
+
+export interface Scheduler {
+  tick: number;
+  nextId: number;
+  tasks: ScheduledTask[];
+  tweens: Tween[];
+}
+
+export const createScheduler = (): Scheduler => ({ tick: 0, nextId: 1, tasks: [], tweens: [] });
+
+// Runs `action` after `delayTicks` ticks. Returns an id for cancel().
+export const schedule = (scheduler: Scheduler, delayTicks: number, action: () => void): number => {
+  const id = scheduler.nextId++;
+  scheduler.tasks.push({ id, dueTick: scheduler.tick + Math.max(1, Math.round(delayTicks)), action });
+  return id;
+};
+
+export const tween = (scheduler: Scheduler, durationTicks: number, onUpdate: (t: number) => void, onComplete?: () => void): number => {
+  const id = scheduler.nextId++;
+  scheduler.tweens.push({ id, startTick: scheduler.tick, duration: Math.max(1, Math.round(durationTicks)), onUpdate, onComplete });
+  onUpdate(0);
+  return id;
+};
+
+export const cancel = (scheduler: Scheduler, id: number | null): boolean => {
+  if (id === null) return false;
+  const before = scheduler.tasks.length + scheduler.tweens.length;
+  scheduler.tasks = scheduler.tasks.filter(t => t.id !== id);
+  scheduler.tweens = scheduler.tweens.filter(t => t.id !== id);
+  return scheduler.tasks.length + scheduler.tweens.length !== before;
+};
+
+export const isScheduled = (scheduler: Scheduler, id: number | null): boolean =>
+  id !== null && (scheduler.tasks.some(t => t.id === id) || scheduler.tweens.some(t => t.id === id));
+
+export const clearTimers = (scheduler: Scheduler) => {
+  scheduler.tasks = [];
+  scheduler.tweens = [];
+};
+
+const findDueTask = (scheduler: Scheduler): ScheduledTask | undefined =>
+  scheduler.tasks.find(t => t.dueTick <= scheduler.tick);
+
+// Advances one tick, running due tasks in the order they were scheduled.
+// Tasks may schedule, cancel or clear timers while running.
+export const advanceScheduler = (scheduler: Scheduler) => {
+  scheduler.tick++;
+  const tick = scheduler.tick;
+
+  const active = scheduler.tweens;
+  active.forEach(tw => {
+    if (!scheduler.tweens.includes(tw)) return;
+    const t = Math.min(1, (tick - tw.startTick) / tw.duration);
+    tw.onUpdate(t);
+    if (t >= 1) {
+      scheduler.tweens = scheduler.tweens.filter(other => other !== tw);
+      tw.onComplete?.();
+    }
+  });
+
+  // Pull due tasks one at a time so a task that cancels or clears timers
+  // also stops the other tasks due on this same tick.
+  let next = findDueTask(scheduler);
+  while (next) {
+    const task = next;
+    scheduler.tasks = scheduler.tasks.filter(t => t !== task);
+    task.action();
+    next = findDueTask(scheduler);
+  }
+};
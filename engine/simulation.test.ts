@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_INPUT, createSimulation, runHeadless, World } from './simulation';
+import { createReplayPlayer, createReplayRecorder, finishReplay, nextReplayFrame, parseReplay, recordFrame } from './replay';
+import { InputFrame, LevelDefinition } from '../types';
+import { BONUS_LEVELS, BUILTIN_LEVELS } from './levels';
+
+// Runs back and forth, hops now and then and shoots at the oldest wolf, so
+// a run exercises movement, combat, drops and scoring
+const scriptedInput = (tick: number, world: World): InputFrame => {
+  const wolf = world.entities.enemies[0];
+  const keys = new Set<string>(tick % 240 < 160 ? ['KeyD'] : ['KeyA']);
+  if (tick % 90 === 0) keys.add('Space');
+  return {
+    ...EMPTY_INPUT,
+    keys,
+    mouse: wolf ? { x: wolf.x - world.camera.x, y: wolf.y - world.camera.y, leftDown: tick % 30 < 15 } : EMPTY_INPUT.mouse
+  };
+};
+
+const snapshot = (world: World) => JSON.stringify({ state: world.state, stats: world.stats, entities: world.entities, camera: world.camera });
+
+describe('headless simulation', () => {
+  it('plays the same run twice from the same seed', () => {
+    const a = runHeadless(3000, { seed: 1234, inputFor: scriptedInput });
+    const b = runHeadless(3000, { seed: 1234, inputFor: scriptedInput });
+    expect(a.state.score).toBeGreaterThan(0);
+    expect(snapshot(b)).toBe(snapshot(a));
+  });
+
+  it('plays a different run from a different seed', () => {
+    const a = runHeadless(3000, { seed: 1234, inputFor: scriptedInput });
+    const b = runHeadless(3000, { seed: 4321, inputFor: scriptedInput });
+    expect(snapshot(b)).not.toBe(snapshot(a));
+  });
+
+  it('reproduces the final score from a recorded replay', () => {
+    const live = createSimulation();
+    const recorder = createReplayRecorder(99, live.levels);
+    live.initGame(99);
+    for (let tick = 0; tick < 3000; tick++) live.step(recordFrame(recorder, scriptedInput(tick, live.world)));
+    expect(live.world.state.score).toBeGreaterThan(0);
+
+    const replay = parseReplay(JSON.stringify(finishReplay(recorder)));
+    const playback = createSimulation();
+    const player = createReplayPlayer(replay, playback.levels);
+    playback.initGame(replay.seed);
+    for (let frame = nextReplayFrame(player); frame; frame = nextReplayFrame(player)) playback.step(frame);
+
+    expect(playback.world.state.score).toBe(live.world.state.score);
+    expect(snapshot(playback.world)).toBe(snapshot(live.world));
+  });
+});
+
+describe('hunt tally', () => {
+  // One trigger pull aimed into the ground, then wait for the arrows to go
+  const shootIntoGround = (levels: LevelDefinition[], powerUp?: string) => {
+    const sim = createSimulation({ levels });
+    sim.initGame(5);
+    if (powerUp) sim.givePowerUp(powerUp);
+    const player = sim.world.entities.player!;
+    const aim = { x: player.x + 40 - sim.world.camera.x, y: player.y + 200 - sim.world.camera.y, leftDown: false };
+    sim.step({ ...EMPTY_INPUT, mouse: aim, fire: true });
+    expect(sim.world.entities.arrows.length).toBe(powerUp === 'TRIPLE_SHOT' ? 3 : 1);
+    for (let tick = 0; tick < 600 && sim.world.entities.arrows.length > 0; tick++) sim.step({ ...EMPTY_INPUT, mouse: aim });
+    expect(sim.world.entities.arrows.length).toBe(0);
+    return sim.world.state.hunt;
+  };
+
+  it('counts a spread volley as a single miss', () => {
+    const hunt = shootIntoGround(BONUS_LEVELS, 'TRIPLE_SHOT');
+    expect(hunt.total).toBeGreaterThan(0);
+    expect(hunt.missed).toBe(1);
+  });
+
+  it('counts no misses on levels without game to retrieve', () => {
+    expect(shootIntoGround(BUILTIN_LEVELS).missed).toBe(0);
+  });
+});
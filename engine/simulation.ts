@@ -0,0 +1,2071 @@
+import {
+  EntityType, GameStatus, GameState, GameEntities, InputFrame,
+  PlayerEntity, EnemyEntity, DogEntity, RabbitEntity, CrowEntity, CageEntity,
+  BushEntity, MeatEntity, PowerUpEntity, ParticleEntity, ArrowEntity, FloatingTextEntity, RainDrop,
+  EnemyTier, Entity, DoorEntity, CreatureEntity, BodyComponent, PickupComponent, LevelDefinition, RunSnapshot, RunStats,
+  PlatformEntity, LevelRect, TrapEntity, BossComponent, ArrowVolley, PackComponent, PackTactic
+} from '../types';
+import type { SoundName } from '../utils/audio';
+import {
+  GRAVITY, FRICTION, JUMP_FORCE, MOVEMENT_SPEED, RPG_MOVEMENT_SPEED, MAX_SPEED,
+  ARROW_SPEED, NET_SPEED, ARROW_GRAVITY, NET_GRAVITY, TRAP_COOLDOWN_FRAMES,
+  DASH_COOLDOWN_FRAMES, DASH_SPEED, CANVAS_WIDTH, CANVAS_HEIGHT,
+  LEVEL_TRANSITION_TICKS, LEVEL_FADE_TICKS, RESPAWN_DELAY_TICKS,
+  PARTICLE_POOL_SIZE, ARROW_POOL_SIZE, FLOATING_TEXT_POOL_SIZE, RAIN_POOL_SIZE,
+  DROP_THROUGH_TICKS, ARROW_EMBED_TICKS, CRUMBLE_TICKS, CRUMBLE_RESPAWN_TICKS, SINK_SPEED,
+  POWERUP_DROP_CHANCE, FIRE_RATE_TICKS, TRIPLE_SHOT_SPREAD, PIERCE_TARGETS, FIRE_ARROW_DAMAGE, BUSH_BURN_TICKS, SCENT_SPEED_MULTIPLIER,
+  SWIM_DEPTH, WATER_DRAG, NETS_PER_LEVEL, TRAP_ARM_TICKS, SNARE_STUN_TICKS, NET_STUN_TICKS, NET_GROUND_DRAG,
+  BOSS_SPEEDS, BOSS_LEAP_INTERVALS, BOSS_HOWL_INTERVAL, BOSS_WIND_UP_TICKS, BOSS_HOWL_TICKS, BOSS_DEATH_TICKS, BOSS_MAX_PACK,
+  BOSS_STUN_CAP, BOSS_PIN_TICKS, BOSS_WEAK_POINT_MULTIPLIER, BOSS_CONTACT_DAMAGE, BOSS_SHOCKWAVE_DAMAGE, BOSS_SHOCKWAVE_RADIUS, BOSS_SCORE,
+  WOLF_SENSE_RANGE, WOLF_TIER_SPEEDS, WOLF_BACK_OFF_TICKS, WOLF_FLANK_DISTANCE, WOLF_CIRCLE_TICKS, WOLF_LUNGE_TICKS, WOLF_CHARGE_RANGE,
+  WOLF_WIND_UP_TICKS, WOLF_CHARGE_SPEED, WOLF_CHARGE_TICKS, WOLF_RECOVER_TICKS, WOLF_RETREAT_HEALTH, WOLF_RETREAT_DISTANCE,
+  WOLF_RALLY_RADIUS, WOLF_RALLY_TICKS, WOLF_DOG_DEFEND_RANGE
+} from './constants';
+import { Pool, createPool, acquire, compactPool, releaseAll } from './pool';
+import { EntityRegistry, createRegistry, allocateId, indexEntity, clearIndex, pruneRegistry, getEntity } from './registry';
+import { BUILTIN_LEVELS, levelSize } from './levels';
+import { Camera, createCamera, screenToWorld, snapCamera, updateCamera } from './camera';
+import { blocksPoint, moveAndCollide, oneWayBelow, standsOn } from './collision';
+import { CreatureContext, createCreature, getBehavior, getCreatureDefinition, setBrainState } from './creatures';
+import { createHuntTally, rateHunt } from './hunt';
+import { getPowerUpDefinition, grantPowerUp, hasPowerUp, powerUpDefinitions, tickPowerUps } from './powerups';
+import { GameEvents, createEventBus, emit, on } from './events';
+import { createSpatialHash, queryEntity, queryRect, rebuildSpatialHash } from './spatialHash';
+import { Rng, createRng, nextRandom, randomSeed } from './random';
+import { Scheduler, createScheduler, schedule, tween, cancel, isScheduled, clearTimers, advanceScheduler } from './scheduler';
+
+// Headless game simulation. Owns every gameplay rule; knows nothing about
+// React, the canvas or the DOM. Rendering and input collection live in
+// components/GameLogic.tsx, which advances the world with step().
+
+export interface EngineState {
+  shake: number;
+  spawnTimer: number;
+  frameCount: number;
+  transition: number; // 0..1 fade of the level-complete overlay
+}
+
+// Pooled storage behind the matching GameEntities arrays (entities.particles === pools.particles.items)
+export interface WorldPools {
+  particles: Pool<ParticleEntity>;
+  arrows: Pool<ArrowEntity>;
+  floatingTexts: Pool<FloatingTextEntity>;
+  rainDrops: Pool<RainDrop>;
+  volleys: Pool<ArrowVolley>; // Bookkeeping for the shots in flight; no entity array
+}
+
+export interface World {
+  level: LevelDefinition; // Definition of the level being played
+  state: GameState;
+  entities: GameEntities;
+  pools: WorldPools;
+  registry: EntityRegistry;
+  engine: EngineState;
+  fxRng: Rng; // Cosmetic stream (particles, rain) so effects never shift gameplay rolls
+  scheduler: Scheduler;
+  stats: RunStats;
+  camera: Camera;
+}
+
+export interface SimulationOptions {
+  onSound?: (type: SoundName) => void;
+  levels?: LevelDefinition[]; // Campaign to play; defaults to the built-in levels
+  onLevelStart?: (world: World) => void;
+}
+
+export const createInitialState = (seed: number = randomSeed()): GameState => ({
+  status: GameStatus.MENU,
+  level: 1,
+  score: 0,
+  lives: 3,
+  waveProgress: 0,
+  maxWaves: 5,
+  enemiesKilled: 0,
+  enemiesRequired: 4,
+  isRaining: false,
+  lightningTimer: 0,
+  floodLevel: 0,
+  hunt: createHuntTally(),
+  seed,
+  rng: createRng(seed)
+});
+
+export const createRunStats = (): RunStats => ({
+  wolvesKilled: 0, crowsKilled: 0, creaturesKilled: 0, rabbitsRetrieved: 0, gameRetrieved: 0, snares: 0, bossesDefeated: 0, pickups: 0, damageTaken: 0
+});
+
+export const createEntities = (): GameEntities => ({
+  player: null, enemies: [], crows: [], arrows: [], traps: [], particles: [], platforms: [],
+  door: null, cages: [], dog: null, creatures: [], meats: [], powerups: [], floatingTexts: [], rainDrops: [],
+  bushes: [], rabbits: []
+});
+
+export const forEachEntity = (entities: GameEntities, fn: (e: Entity) => void) => {
+  if (entities.player) fn(entities.player);
+  if (entities.dog) fn(entities.dog);
+  if (entities.door) fn(entities.door);
+  entities.platforms.forEach(fn);
+  entities.cages.forEach(fn);
+  entities.enemies.forEach(fn);
+  entities.crows.forEach(fn);
+  entities.creatures.forEach(fn);
+  entities.bushes.forEach(fn);
+  entities.rabbits.forEach(fn);
+  entities.arrows.forEach(fn);
+  entities.traps.forEach(fn);
+  entities.meats.forEach(fn);
+  entities.powerups.forEach(fn);
+  entities.particles.forEach(fn);
+  entities.floatingTexts.forEach(fn);
+};
+
+const createDog = (x: number, y: number): Omit<DogEntity, 'id'> => ({
+  type: EntityType.DOG,
+  x, y,
+  width: 32, height: 24,
+  vx: 0, vy: 0,
+  grounded: false, markedForDeletion: false,
+  facingRight: true,
+  state: 'IDLE',
+  target: null,
+  barkTimer: 0,
+  tongueOut: false,
+  animTimer: 0,
+  aggroTimer: 0,
+  healTimer: 0
+});
+
+export const createPools = (): WorldPools => ({
+  particles: createPool('particles', PARTICLE_POOL_SIZE, 'RECYCLE_OLDEST', (): ParticleEntity => ({
+    id: 0, type: EntityType.PARTICLE, x: 0, y: 0, width: 4, height: 4, vx: 0, vy: 0,
+    grounded: false, markedForDeletion: false, color: '', lifeTime: 0, size: 0
+  })),
+  arrows: createPool('arrows', ARROW_POOL_SIZE, 'DROP_NEW', (): ArrowEntity => ({
+    id: 0, type: EntityType.ARROW, x: 0, y: 0, width: 24, height: 6, vx: 0, vy: 0, // Larger arrows for visibility
+    grounded: false, markedForDeletion: false, rotation: 0, lifeTime: 0, embedded: false, pierce: 0, fire: false, hits: [], volley: null
+  })),
+  floatingTexts: createPool('floatingTexts', FLOATING_TEXT_POOL_SIZE, 'RECYCLE_OLDEST', (): FloatingTextEntity => ({
+    id: 0, type: EntityType.FLOATING_TEXT, x: 0, y: 0, width: 0, height: 0, vx: 0, vy: -1,
+    grounded: false, markedForDeletion: false, text: '', color: '', lifeTime: 0, opacity: 1
+  })),
+  rainDrops: createPool('rainDrops', RAIN_POOL_SIZE, 'DROP_NEW', (): RainDrop => ({ x: 0, y: 0, speed: 0, length: 0 })),
+  // Every live volley has a live arrow, so it never needs more slots than the quiver
+  volleys: createPool('volleys', ARROW_POOL_SIZE, 'DROP_NEW', (): ArrowVolley => ({ live: 0, hit: false }))
+});
+
+export const EMPTY_INPUT: InputFrame = {
+  keys: new Set<string>(),
+  mouse: { x: 0, y: 0, leftDown: false },
+  touch: {
+    leftStick: { active: false, x: 0, y: 0 },
+    rightStick: { active: false, x: 0, y: 0 },
+    trapBtnPressed: false,
+    whistleBtnPressed: false,
+    dashBtnPressed: false
+  },
+  fire: false
+};
+
+export const createSimulation = (options: SimulationOptions = {}) => {
+  const levels = options.levels ?? BUILTIN_LEVELS;
+  const pools = createPools();
+  const world: World = {
+    level: levels[0],
+    state: createInitialState(),
+    entities: {
+      ...createEntities(),
+      particles: pools.particles.items,
+      arrows: pools.arrows.items,
+      floatingTexts: pools.floatingTexts.items,
+      rainDrops: pools.rainDrops.items
+    },
+    pools,
+    registry: createRegistry(),
+    engine: { shake: 0, spawnTimer: 0, frameCount: 0, transition: 0 },
+    fxRng: createRng(randomSeed()),
+    scheduler: createScheduler(),
+    stats: createRunStats(),
+    camera: createCamera()
+  };
+
+  // Pending level restart / next level task; at most one at a time
+  let levelFlowTask: number | null = null;
+
+  // Input for the tick currently being simulated
+  let input: InputFrame = EMPTY_INPUT;
+
+  const sound = (type: SoundName) => options.onSound?.(type);
+
+  // Every gameplay roll goes through random(); effects use fxRandom()
+  const random = () => nextRandom(world.state.rng);
+  const fxRandom = () => nextRandom(world.fxRng);
+
+  const isTopDown = () => world.level.mode === 'TOPDOWN';
+
+  // World bounds of the current level; side-view levels have their ground strip along the bottom
+  const bounds = () => levelSize(world.level);
+  const groundY = () => bounds().height - 32;
+
+  // Broadphase grids, rebuilt each tick right before the passes that query them
+  const grids = {
+    enemies: createSpatialHash<EnemyEntity>(),
+    crows: createSpatialHash<CrowEntity>(),
+    cages: createSpatialHash<CageEntity>(),
+    meats: createSpatialHash<MeatEntity>(),
+    powerups: createSpatialHash<PowerUpEntity>(),
+    bushes: createSpatialHash<BushEntity>(),
+    rabbits: createSpatialHash<RabbitEntity>(),
+    creatures: createSpatialHash<CreatureEntity>()
+  };
+
+  // --- HELPERS ---
+  // New entities get the next id and are indexed at once, so handles to them resolve in the same tick
+  const track = <T extends Entity>(fields: Omit<T, 'id'>): T => {
+    const entity = fields as T;
+    entity.id = allocateId(world.registry);
+    indexEntity(world.registry, entity);
+    return entity;
+  };
+
+  // Pooled objects are reused, so each spawn gets a fresh id (old handles go stale)
+  const trackPooled = (entity: Entity) => {
+    entity.id = allocateId(world.registry);
+    indexEntity(world.registry, entity);
+  };
+
+  // Effects are never looked up by handle: they only need the fresh id (for
+  // interpolation) and stay out of the registry that pruneRegistry walks each tick
+  const renewPooled = (entity: Entity) => {
+    entity.id = allocateId(world.registry);
+  };
+
+  // Pooled spawns reset every field by hand: the object may be a recycled one
+  const spawnFloatingText = (x: number, y: number, text: string, color: string) => {
+    const t = acquire(world.pools.floatingTexts);
+    if (!t) return;
+    renewPooled(t);
+    t.x = x; t.y = y;
+    t.markedForDeletion = false;
+    t.text = text; t.color = color; t.lifeTime = 60; t.opacity = 1;
+  };
+
+  const spawnParticles = (x: number, y: number, color: string, count: number, speed: number = 1) => {
+    for (let i = 0; i < count; i++) {
+      const p = acquire(world.pools.particles);
+      if (!p) return;
+      renewPooled(p);
+      p.x = x; p.y = y;
+      p.vx = (fxRandom() - 0.5) * 5 * speed;
+      p.vy = (fxRandom() - 0.5) * 5 * speed;
+      p.markedForDeletion = false;
+      p.color = color; p.lifeTime = 30 + fxRandom() * 20; p.size = fxRandom() * 3 + 1;
+    }
+  };
+
+  const checkCollision = (r1: Entity, r2: Entity) => {
+    return (
+      r1.x < r2.x + r2.width &&
+      r1.x + r1.width > r2.x &&
+      r1.y < r2.y + r2.height &&
+      r1.y + r1.height > r2.y
+    );
+  };
+
+  // --- EVENT SUBSCRIBERS ---
+  const events = createEventBus();
+
+  // Score and the level's kill goal
+  on(events, 'enemyKilled', () => { world.state.score += 100; world.state.enemiesKilled++; });
+  on(events, 'crowKilled', () => { world.state.score += 150; world.state.enemiesKilled++; });
+  on(events, 'creatureKilled', e => { world.state.score += e.score; if (e.countsAsKill) world.state.enemiesKilled++; });
+  on(events, 'rabbitRetrieved', () => { world.state.enemiesKilled++; });
+  on(events, 'creatureRetrieved', e => { world.state.score += e.score; world.state.enemiesKilled++; });
+  on(events, 'trapSprung', e => { if (e.target.type === EntityType.RABBIT) world.state.enemiesKilled++; });
+  on(events, 'pickupCollected', e => { world.state.score += e.score; });
+  on(events, 'bossDefeated', () => { world.state.score += BOSS_SCORE; });
+
+  // Drops
+  on(events, 'enemyKilled', ({ enemy }) => {
+      if (random() < 0.3) {
+          world.entities.meats.push(track({ type: EntityType.MEAT, x: enemy.x, y: enemy.y, width: 16, height: 16, vx: 0, vy: -2, grounded: false, markedForDeletion: false, value: 20 }));
+      }
+      const table = world.level.powerUps;
+      if (random() < (table ? table.chance : POWERUP_DROP_CHANCE)) {
+          const def = pickPowerUp(table ? table.weights : null);
+          if (def) world.entities.powerups.push(track({ type: EntityType.POWERUP, kind: def.kind, x: enemy.x, y: enemy.y, width: 16, height: 16, vx: 0, vy: -2, grounded: false, markedForDeletion: false, timer: def.duration }));
+      }
+  });
+
+  // Audio
+  on(events, 'enemyKilled', () => sound('explosion'));
+  on(events, 'crowKilled', () => sound('explosion'));
+  on(events, 'creatureKilled', () => sound('explosion'));
+  on(events, 'playerDamaged', e => sound(e.cause === 'DROWNING' ? 'splash' : 'hit'));
+  on(events, 'dogRescued', () => sound('bark'));
+  on(events, 'rabbitRetrieved', () => sound('coin'));
+  on(events, 'creatureRetrieved', () => sound('coin'));
+  on(events, 'trapSprung', () => sound('hit'));
+  on(events, 'pickupCollected', () => sound('coin'));
+  on(events, 'bossHowled', () => sound('howl'));
+  on(events, 'wolfHowled', () => sound('howl'));
+  on(events, 'bossPhaseChanged', () => sound('howl'));
+  on(events, 'levelCompleted', () => sound('win'));
+
+  // Visual effects
+  on(events, 'enemyKilled', ({ enemy }) => { spawnParticles(enemy.x, enemy.y, enemy.color, 10, 2); spawnFloatingText(enemy.x, enemy.y, "+100", "#fff"); });
+  on(events, 'crowKilled', ({ crow }) => { spawnParticles(crow.x, crow.y, crow.color, 10); spawnFloatingText(crow.x, crow.y, "+150", "#fff"); });
+  on(events, 'creatureKilled', ({ creature: c, score }) => {
+      spawnParticles(c.x, c.y, c.renderable.color, 10, 2);
+      if (score > 0) spawnFloatingText(c.x, c.y, `+${score}`, "#fff");
+  });
+  on(events, 'playerDamaged', e => {
+      const player = world.entities.player!;
+      if (e.cause === 'DROWNING') spawnFloatingText(player.x, player.y - 20, "DROWNING!", "#3b82f6");
+      else spawnFloatingText(player.x, player.y, `-${e.amount}`, "#ef4444");
+      if (e.cause === 'ENEMY') world.engine.shake = 5;
+  });
+  on(events, 'dogRescued', ({ dog }) => { spawnParticles(dog.x, dog.y, '#fbbf24', 20, 2); spawnFloatingText(dog.x, dog.y - 30, "FRIEND SAVED!", "#fbbf24"); });
+  on(events, 'rabbitRetrieved', ({ dog }) => { spawnFloatingText(dog.x, dog.y - 20, "GOOD BOY!", "#fbbf24"); spawnParticles(dog.x, dog.y, '#22c55e', 10); });
+  on(events, 'creatureRetrieved', ({ dog, score }) => { spawnFloatingText(dog.x, dog.y - 20, `GOOD BOY! +${score}`, "#fbbf24"); spawnParticles(dog.x, dog.y, '#22c55e', 10); });
+  on(events, 'trapSprung', ({ target }) => {
+      spawnFloatingText(target.x, target.y - 10, target.type === EntityType.RABBIT ? "CAUGHT!" : "SNARED!", "#facc15");
+      spawnParticles(target.x + target.width / 2, target.y + target.height, '#e5e7eb', 6, 1);
+  });
+  on(events, 'bossPhaseChanged', ({ boss, phase }) => {
+      spawnFloatingText(boss.x + boss.width / 2, boss.y - 30, phase === 3 ? "THE ALPHA IS ENRAGED!" : "THE ALPHA GROWLS!", "#ef4444");
+      world.engine.shake = 8;
+  });
+  on(events, 'wolfHowled', ({ wolf }) => { spawnFloatingText(wolf.x + wolf.width / 2, wolf.y - 20, "AWOO!", "#d1d5db"); });
+  on(events, 'bossHowled', ({ boss }) => { spawnFloatingText(boss.x + boss.width / 2, boss.y - 30, "AWOOOO!", "#e5e7eb"); });
+  on(events, 'bossDefeated', ({ boss }) => { spawnFloatingText(boss.x + boss.width / 2, boss.y - 30, `+${BOSS_SCORE}`, "#facc15"); });
+  on(events, 'creatureEscaped', ({ creature: c }) => { spawnFloatingText(c.x, Math.max(c.y, 20), "ESCAPED", "#94a3b8"); });
+  on(events, 'pickupCollected', e => {
+      const player = world.entities.player!;
+      spawnFloatingText(player.x, player.y - 20, e.label, e.color);
+      spawnParticles(e.entity.x, e.entity.y, e.color, 10, 1);
+  });
+  on(events, 'powerUpExpired', ({ kind, player }) => {
+      spawnParticles(player.x + player.width / 2, player.y, getPowerUpDefinition(kind)?.color ?? '#fff', 6, 0.5);
+  });
+
+  // Run stats
+  on(events, 'enemyKilled', () => { world.stats.wolvesKilled++; });
+  on(events, 'crowKilled', () => { world.stats.crowsKilled++; });
+  on(events, 'creatureKilled', () => { world.stats.creaturesKilled++; });
+  on(events, 'rabbitRetrieved', () => { world.stats.rabbitsRetrieved++; });
+  on(events, 'creatureRetrieved', () => { world.stats.gameRetrieved++; });
+  on(events, 'trapSprung', () => { world.stats.snares++; });
+  on(events, 'bossDefeated', () => { world.stats.bossesDefeated++; });
+  on(events, 'pickupCollected', () => { world.stats.pickups++; });
+  on(events, 'playerDamaged', e => { world.stats.damageTaken += e.amount; });
+
+  // Hunt rating: every retrieve, escape and miss counts; rated levels pay a bonus on completion
+  on(events, 'creatureRetrieved', () => { world.state.hunt.retrieved++; });
+  on(events, 'creatureEscaped', () => { world.state.hunt.escaped++; });
+  on(events, 'arrowMissed', () => { if (world.state.hunt.total > 0) world.state.hunt.missed++; });
+  on(events, 'levelCompleted', () => {
+      const hunt = world.state.hunt;
+      if (hunt.total === 0) return;
+      hunt.rating = rateHunt(hunt);
+      world.state.score += hunt.rating.bonus;
+  });
+
+  // Developer toggles, set from the debug console
+  const cheats = { god: false };
+
+  // Applies damage and reports it; callers handle knockback and i-frames
+  // A shield absorbs everything except drowning
+  const damagePlayer = (player: PlayerEntity, amount: number, cause: GameEvents['playerDamaged']['cause'], source: Entity | null) => {
+      if (cheats.god) return;
+      if (cause !== 'DROWNING' && hasPowerUp(player, 'SHIELD')) {
+          spawnParticles(player.x + player.width / 2, player.y + player.height / 2, '#22d3ee', 6, 1);
+          return;
+      }
+      player.health -= amount;
+      emit(events, 'playerDamaged', { amount, cause, source });
+      if (player.health <= 0) handlePlayerDeath();
+  };
+
+  // --- INIT & LEVELS ---
+  const resetRun = (seed: number) => {
+    world.state = { ...createInitialState(seed), status: GameStatus.PLAYING, maxWaves: levels.length };
+    world.fxRng = createRng(seed ^ 0x9E3779B9);
+    world.engine = { shake: 0, spawnTimer: 0, frameCount: 0, transition: 0 };
+    world.scheduler = createScheduler();
+    world.registry = createRegistry();
+    world.stats = createRunStats();
+    world.entities.dog = null;
+  };
+
+  const initGame = (seed: number = randomSeed()) => {
+    resetRun(seed);
+    startLevel(1);
+  };
+
+  // Resume a saved run at the start of the level it was saved on
+  const continueGame = (run: RunSnapshot) => {
+    resetRun(run.seed);
+    world.state.score = run.score;
+    world.state.lives = run.lives;
+    if (run.dogRescued) world.entities.dog = track(createDog(0, 0));
+    startLevel(Math.min(run.level, levels.length), run.powerUps);
+  };
+
+  // What a save needs to resume the current run from this level's start
+  const snapshotRun = (): RunSnapshot => ({
+    seed: world.state.seed,
+    level: world.state.level,
+    score: world.state.score,
+    lives: world.state.lives,
+    dogRescued: world.entities.dog !== null,
+    powerUps: { ...world.entities.player?.powerUps }
+  });
+
+  const startLevel = (level: number, powerUps: Record<string, number> = {}) => {
+    const def = levels[level - 1];
+    clearTimers(world.scheduler);
+    levelFlowTask = null;
+    world.engine.transition = 0;
+    world.level = def;
+    world.state.level = level;
+    world.state.waveProgress = 0;
+    world.state.enemiesKilled = 0;
+    world.state.enemiesRequired = def.killGoal ?? 0;
+    world.state.isRaining = def.weather.rain;
+    world.state.floodLevel = 0; // Reset flood
+
+    world.entities.enemies = [];
+    world.entities.crows = [];
+    releaseAll(world.pools.arrows);
+    releaseAll(world.pools.volleys);
+    world.entities.traps = [];
+    releaseAll(world.pools.particles);
+    world.entities.platforms = [];
+    world.entities.cages = [];
+    world.entities.creatures = [];
+    world.entities.meats = [];
+    world.entities.powerups = [];
+    releaseAll(world.pools.floatingTexts);
+    releaseAll(world.pools.rainDrops);
+    world.entities.bushes = [];
+    world.entities.rabbits = [];
+    world.entities.door = null;
+    clearIndex(world.registry);
+
+    // Rain drops live in screen space: they fall across the view wherever the camera is
+    if (world.state.isRaining) {
+        for(let i=0; i<100; i++) {
+            const d = acquire(world.pools.rainDrops);
+            if (!d) break;
+            d.x = fxRandom() * CANVAS_WIDTH;
+            d.y = fxRandom() * CANVAS_HEIGHT;
+            d.speed = 15 + fxRandom() * 10;
+            d.length = 10 + fxRandom() * 10;
+        }
+    }
+    
+    generateLevel(def);
+    world.state.hunt = createHuntTally(world.entities.creatures.filter(c => c.retrieve).length);
+
+    if (world.entities.dog) {
+        world.entities.dog.x = def.dogSpawn.x;
+        world.entities.dog.y = def.dogSpawn.y;
+        world.entities.dog.vx = 0;
+        world.entities.dog.vy = 0;
+        world.entities.dog.state = 'IDLE';
+        world.entities.dog.aggroTimer = 0;
+        world.entities.dog.target = null;
+        indexEntity(world.registry, world.entities.dog);
+    } else if (def.provideDog) {
+        // Fallback if dog wasn't saved/found, e.g. the RPG hunting level needs one
+        world.entities.dog = track(createDog(def.dogSpawn.x, def.dogSpawn.y));
+    }
+
+    world.entities.player = track<PlayerEntity>({
+      type: EntityType.PLAYER,
+      x: def.playerSpawn.x,
+      y: def.playerSpawn.y,
+      width: 24,
+      height: 48,
+      vx: 0,
+      vy: 0,
+      grounded: false,
+      markedForDeletion: false,
+      facingRight: true,
+      health: 100,
+      maxHealth: 100,
+      aimAngle: 0,
+      isAiming: false,
+      trapCooldown: 0,
+      nets: def.nets ?? NETS_PER_LEVEL,
+      animTimer: 0,
+      powerUps: { ...powerUps },
+      dashTimer: 0,
+      isDashing: false,
+      invulnerableTimer: 0,
+      dropTimer: 0
+    });
+
+    snapCamera(world.camera, world.entities.player, bounds());
+    world.engine.spawnTimer = 0;
+    options.onLevelStart?.(world);
+  };
+
+  const spawnBush = (x: number, y: number, withRabbit: boolean) => {
+      world.entities.bushes.push(track({
+          type: EntityType.BUSH, x, y, width: 40, height: 30,
+          vx: 0, vy: 0, grounded: true, markedForDeletion: false, hasRabbit: withRabbit, shakeTimer: 0, burnTimer: 0
+      }));
+      if (!withRabbit) return;
+      world.entities.rabbits.push(track({
+          type: EntityType.RABBIT, x: x + 10, y: y + 10, width: 16, height: 16,
+          vx: 0, vy: 0, grounded: true, markedForDeletion: false, state: 'HIDDEN', isHidden: true, facingRight: true, fleeTimer: 0, health: 1
+      }));
+  };
+
+  const spawnBushesAndRabbits = (def: LevelDefinition) => {
+      def.bushes.forEach(b => spawnBush(b.x, b.y, b.rabbit));
+      for(let i=0; i<(def.randomBushes ?? 0); i++) {
+          // Keep strictly within the level bounds with margin
+          const margin = 100;
+          const x = margin + random() * (bounds().width - margin * 2);
+          const y = margin + random() * (bounds().height - margin * 2);
+          spawnBush(x, y, true);
+      }
+  };
+
+  const generateLevel = (def: LevelDefinition) => {
+    def.platforms.forEach((p, i) => {
+        world.entities.platforms.push(track({
+            type: EntityType.PLATFORM, kind: p.kind, variant: p.variant, x: p.x, y: p.y, width: p.width, height: p.height, vx: 0, vy: 0, grounded: true, markedForDeletion: false,
+            path: [{ x: p.x, y: p.y }, ...(p.path ?? [])], waypoint: 1, speed: p.speed ?? 0, crumbleTimer: 0, collapsed: false, respawnTimer: 0
+        }));
+    });
+    if (!world.entities.dog) {
+        // The dog waits in its cage until rescued
+        def.cages.forEach(c => {
+            world.entities.cages.push(track({ type: EntityType.CAGE, x: c.x, y: c.y, width: 40, height: 60, vx: 0, vy: 0, grounded: true, markedForDeletion: false, health: c.health }));
+        });
+    }
+    spawnBushesAndRabbits(def);
+    def.creatures?.forEach(c => spawnCreature(c.kind, c.x, c.y, c.facingRight));
+    if (def.boss) spawnBoss(def.boss.x, def.boss.y, def.boss.health);
+
+    world.entities.door = track<DoorEntity>({
+        type: EntityType.DOOR, x: def.door.x, y: def.door.y, width: 40, height: 64, vx: 0, vy: 0, grounded: true, markedForDeletion: false, isOpen: false
+    });
+  };
+
+  const nextLevel = () => {
+    // Reaching the door supersedes a pending death restart
+    cancel(world.scheduler, levelFlowTask);
+    const final = world.state.level >= world.state.maxWaves;
+    emit(events, 'levelCompleted', { level: world.state.level, final });
+    if (final) {
+      clearTimers(world.scheduler);
+      world.state.status = GameStatus.VICTORY;
+    } else {
+      world.state.status = GameStatus.LEVEL_TRANSITION;
+      tween(world.scheduler, LEVEL_FADE_TICKS, t => { world.engine.transition = t; });
+      levelFlowTask = schedule(world.scheduler, LEVEL_TRANSITION_TICKS, () => {
+        // An active power-up carries through the door
+        startLevel(world.state.level + 1, world.entities.player?.powerUps);
+        world.state.status = GameStatus.PLAYING;
+      });
+    }
+  };
+
+  const handlePlayerDeath = () => {
+      // Already dying: ignore further hits until the restart happens
+      if (isScheduled(world.scheduler, levelFlowTask)) return;
+      world.state.lives--;
+      sound('explosion');
+      if (world.state.lives > 0) {
+          spawnFloatingText(world.entities.player!.x, world.entities.player!.y - 20, "TRY AGAIN!", "#fde047");
+          world.engine.shake = 10;
+          levelFlowTask = schedule(world.scheduler, RESPAWN_DELAY_TICKS, () => {
+              if (world.state.status === GameStatus.PLAYING) startLevel(world.state.level); 
+          });
+      } else {
+          setGameOver();
+      }
+  };
+
+  const setGameOver = () => {
+    clearTimers(world.scheduler);
+    levelFlowTask = null;
+    world.state.status = GameStatus.GAME_OVER;
+    sound('explosion');
+  };
+
+  const spawnDog = (x: number, y: number) => {
+      world.entities.dog = track(createDog(x, y));
+      emit(events, 'dogRescued', { dog: world.entities.dog });
+  };
+
+  // Active power-ups shape every arrow of the volley
+  const fireArrow = (player: PlayerEntity) => {
+    // Check if aiming via stick/mouse, OR just fire in facing direction
+    const aimed = player.isAiming || input.mouse.leftDown || input.touch.rightStick.active;
+    const angle = aimed ? player.aimAngle : (player.facingRight ? 0 : Math.PI);
+    const spread = hasPowerUp(player, 'TRIPLE_SHOT') ? [-TRIPLE_SHOT_SPREAD, 0, TRIPLE_SHOT_SPREAD] : [0];
+    const volley = acquire(world.pools.volleys);
+    if (volley) { volley.live = 0; volley.hit = false; }
+
+    spread.forEach(offset => {
+        const arrow = volley && acquire(world.pools.arrows);
+        if (!arrow) return; // Quiver full
+        trackPooled(arrow);
+        arrow.x = player.x + player.width / 2;
+        arrow.y = player.y + player.height / 2;
+        arrow.vx = Math.cos(angle + offset) * ARROW_SPEED;
+        arrow.vy = Math.sin(angle + offset) * ARROW_SPEED;
+        arrow.markedForDeletion = false;
+        arrow.rotation = angle + offset;
+        arrow.lifeTime = 120;
+        arrow.embedded = false;
+        arrow.pierce = hasPowerUp(player, 'PIERCING') ? PIERCE_TARGETS : 0;
+        arrow.fire = hasPowerUp(player, 'FIRE_ARROWS');
+        arrow.hits.length = 0;
+        arrow.volley = volley;
+        volley.live++;
+    });
+
+    sound('shoot');
+  };
+
+  // Lobbed in the side view; slid along the grass from above
+  const fireNet = (player: PlayerEntity) => {
+    const speed = NET_SPEED;
+    let vx = player.facingRight ? speed : -speed;
+    let vy = isTopDown() ? 0 : -5;
+    if (player.isAiming) {
+            vx = Math.cos(player.aimAngle) * speed;
+            vy = Math.sin(player.aimAngle) * speed;
+    }
+    player.nets--;
+    world.entities.traps.push(track({
+        type: EntityType.TRAP, x: player.x + player.width / 2, y: player.y + player.height / 2, width: 16, height: 16,
+        vx, vy, grounded: false, markedForDeletion: false, rotation: 0, state: 'FLYING', timer: 0, snared: null
+    }));
+  };
+
+  // --- UPDATE LOOP ---
+  const update = () => {
+    // A paused game is frozen solid: not even the frame counter moves
+    if (world.state.status === GameStatus.PAUSED) return;
+    if (input.restartLevel && world.state.status === GameStatus.PLAYING) startLevel(world.state.level);
+    world.engine.frameCount++;
+    if (world.engine.shake > 0) {
+        world.engine.shake *= 0.9;
+        if (world.engine.shake < 0.5) world.engine.shake = 0;
+    }
+    // Game time only passes while a level is running (or between levels)
+    if (world.state.status === GameStatus.PLAYING || world.state.status === GameStatus.LEVEL_TRANSITION) {
+        advanceScheduler(world.scheduler);
+    }
+    if (world.state.status !== GameStatus.PLAYING) return;
+
+    // --- FLOOD LOGIC ---
+    const flood = world.level.flood;
+    if (flood) {
+        // Water rises slowly
+        world.state.floodLevel += flood.riseRate;
+        const waterY = bounds().height - world.state.floodLevel;
+        const player = world.entities.player;
+        
+        if (player && player.y + player.height > waterY) {
+            // Player is in water
+            if (world.engine.frameCount % flood.damageInterval === 0) damagePlayer(player, flood.damage, 'DROWNING', null);
+            // Major slow down in water
+            player.vx *= 0.5;
+            player.vy = Math.min(player.vy, 2); // Buoyancy/Resistance
+        }
+    }
+
+    if (world.state.isRaining) {
+        if (random() < 0.005) { 
+            world.state.lightningTimer = 5;
+            sound('explosion'); 
+        }
+        if (world.state.lightningTimer > 0) world.state.lightningTimer--;
+        world.entities.rainDrops.forEach(d => {
+            d.y += d.speed; d.x -= 2; 
+            if (d.y > CANVAS_HEIGHT) { d.y = -20; d.x = fxRandom() * CANVAS_WIDTH; }
+        });
+    }
+
+    const player = world.entities.player;
+    if (!player) return;
+
+    if (world.entities.door) {
+        // Rated levels also open once no game is left to shoot or fetch
+        const gameLeft = world.entities.creatures.some(c => c.retrieve);
+        // Boss levels end when the alpha falls, not at the door
+        world.entities.door.isOpen = !world.level.boss && (world.state.enemiesKilled >= world.state.enemiesRequired || (world.state.hunt.total > 0 && !gameLeft));
+    }
+    if (!isTopDown()) updatePlatforms();
+
+    let dx = 0;
+    let dy = 0;
+    let jump = false;
+    let drop = false;
+    let throwNet = false;
+    let whistle = false;
+    let dash = false;
+    let shootCommand = false;
+    
+    if (input.keys.has('KeyA') || input.keys.has('ArrowLeft')) dx = -1;
+    if (input.keys.has('KeyD') || input.keys.has('ArrowRight')) dx = 1;
+    if (input.keys.has('KeyW') || input.keys.has('ArrowUp')) dy = -1; 
+    if (input.keys.has('KeyS') || input.keys.has('ArrowDown')) dy = 1; 
+    
+    if (input.keys.has('Space') || input.keys.has('ArrowUp')) jump = true;
+    if (input.keys.has('KeyT')) throwNet = true;
+    if (input.keys.has('KeyR')) whistle = true; 
+    if (input.keys.has('ShiftLeft')) dash = true;
+    
+    // Mouse aiming; the pointer is in canvas pixels, so it is mapped through the camera
+    const { x: mx, y: my } = screenToWorld(world.camera, input.mouse.x, input.mouse.y);
+    if (input.mouse.x !== 0 || input.mouse.y !== 0 && !input.touch.rightStick.active) {
+        player.aimAngle = Math.atan2(my - (player.y + 15), mx - (player.x + 12));
+    }
+    // Touch aiming logic
+    if (input.touch.rightStick.active) {
+        player.isAiming = true;
+        // Auto-fire when using right stick (Twin Stick style)
+        shootCommand = true;
+    }
+
+    if (input.mouse.leftDown) shootCommand = true;
+
+    const { leftStick, rightStick, trapBtnPressed, whistleBtnPressed, dashBtnPressed } = input.touch;
+    if (trapBtnPressed) throwNet = true;
+    if (whistleBtnPressed) whistle = true;
+    if (dashBtnPressed) dash = true;
+
+    if (leftStick.active) {
+      if (Math.abs(leftStick.x) > 10) dx = Math.sign(leftStick.x);
+      if (isTopDown()) {
+          if (Math.abs(leftStick.y) > 10) dy = Math.sign(leftStick.y);
+      } else {
+          if (leftStick.y < -30) jump = true;
+          if (leftStick.y > 40) drop = true;
+      }
+    }
+    
+    // Set aim angle from stick
+    if (rightStick.active) {
+      player.aimAngle = Math.atan2(rightStick.y, rightStick.x);
+    } 
+
+    if (isTopDown()) updateRPGPhysics(player, dx, dy, dash, whistle);
+    else updatePlatformerPhysics(player, dx, jump || drop, dash, dy > 0 || drop);
+    updateCamera(world.camera, player, player.aimAngle, bounds());
+
+    if (world.entities.door && world.entities.door.isOpen) {
+        if (checkCollision(player, world.entities.door)) {
+            nextLevel();
+            return;
+        }
+    }
+
+    tickPowerUps(player).forEach(kind => emit(events, 'powerUpExpired', { kind, player }));
+
+    // SHOOTING LOGIC
+    if (shootCommand && world.engine.frameCount % FIRE_RATE_TICKS === 0) fireArrow(player);
+    if (input.fire) fireArrow(player);
+
+    if (player.trapCooldown > 0) player.trapCooldown--;
+    if (throwNet && player.trapCooldown <= 0) {
+      player.trapCooldown = TRAP_COOLDOWN_FRAMES;
+      if (player.nets > 0) { fireNet(player); sound('jump'); }
+      else spawnFloatingText(player.x, player.y - 20, "NO NETS!", "#9ca3af");
+    }
+
+    updateEnemies(player);
+    updateCrows(player);
+    updateCreatures(player, whistle);
+    updateArrows();
+    updateBurningBushes();
+    updateNets(player);
+    updateParticles();
+    updateMeats(player);
+    updatePowerUps(player);
+    updateFloatingTexts();
+    if (world.entities.dog) updateDog(player, whistle);
+    if (isTopDown() && world.entities.dog) updateBushesAndRabbits(player, world.entities.dog);
+  };
+
+  const updateRPGPhysics = (player: PlayerEntity, dx: number, dy: number, dash: boolean, whistle: boolean) => {
+      if (player.dashTimer > 0) player.dashTimer--;
+      
+      if (dash && player.dashTimer <= 0 && (dx !== 0 || dy !== 0)) {
+          player.isDashing = true;
+          player.dashTimer = DASH_COOLDOWN_FRAMES;
+          player.vx = dx * DASH_SPEED;
+          player.vy = dy * DASH_SPEED;
+          sound('jump');
+          spawnParticles(player.x + 10, player.y + 40, '#fff', 8, 0.5);
+      }
+
+      if (player.isDashing) {
+          player.vx *= 0.85;
+          player.vy *= 0.85;
+          if (Math.abs(player.vx) < RPG_MOVEMENT_SPEED && Math.abs(player.vy) < RPG_MOVEMENT_SPEED) player.isDashing = false;
+      } else {
+          player.vx = dx * RPG_MOVEMENT_SPEED;
+          player.vy = dy * RPG_MOVEMENT_SPEED;
+      }
+
+      player.x += player.vx;
+      player.y += player.vy;
+      
+      if (!input.touch.rightStick.active && input.mouse.x === 0) {
+          if (dx !== 0) player.facingRight = dx > 0;
+      } else {
+          player.facingRight = Math.abs(player.aimAngle) < Math.PI / 2;
+      }
+
+      if (player.x < 0) player.x = 0;
+      if (player.x > bounds().width - player.width) player.x = bounds().width - player.width;
+      if (player.y < 0) player.y = 0;
+      if (player.y > bounds().height - player.height) player.y = bounds().height - player.height;
+  };
+
+  // Down + jump on a one-way platform drops through it instead of jumping
+  const updatePlatformerPhysics = (player: PlayerEntity, dx: number, jump: boolean, dash: boolean, down: boolean) => {
+        if (player.dashTimer > 0) player.dashTimer--;
+        if (player.dropTimer > 0) player.dropTimer--;
+        if (player.invulnerableTimer > 0) player.invulnerableTimer--;
+
+        if (dash && player.dashTimer <= 0) {
+            let dashDir = dx;
+            if (dashDir === 0) dashDir = player.facingRight ? 1 : -1;
+            player.isDashing = true;
+            player.dashTimer = DASH_COOLDOWN_FRAMES;
+            player.invulnerableTimer = 15; 
+            player.vx = dashDir * DASH_SPEED;
+            sound('jump');
+            spawnParticles(player.x + 10, player.y + 40, '#fff', 8, 0.5);
+        }
+
+        const wasGrounded = player.grounded;
+        
+        if (player.isDashing) {
+            player.vx *= 0.85; 
+            if (Math.abs(player.vx) < MAX_SPEED) player.isDashing = false;
+        } else {
+            player.vx += dx * MOVEMENT_SPEED;
+            player.vx *= FRICTION;
+            player.vx = Math.max(Math.min(player.vx, MAX_SPEED), -MAX_SPEED);
+        }
+        
+        if (jump && down && player.grounded && oneWayBelow(player, world.entities.platforms)) {
+            player.dropTimer = DROP_THROUGH_TICKS;
+            player.grounded = false;
+        } else if (jump && player.grounded) {
+            player.vy = JUMP_FORCE;
+            player.grounded = false;
+            sound('jump');
+            spawnParticles(player.x + 10, player.y + 40, '#e5e7eb', 5, 0.5);
+        }
+
+        player.vy += GRAVITY;
+        collide(player, player.dropTimer > 0);
+        floatOnWater(player);
+        player.facingRight = Math.abs(player.aimAngle) < Math.PI / 2;
+
+        if (!wasGrounded && player.grounded) {
+            spawnParticles(player.x + 10, player.y + 45, '#e5e7eb', 4, 0.3);
+        }
+        if (player.x < 0) player.x = 0;
+        if (player.x > bounds().width - player.width) player.x = bounds().width - player.width;
+  };
+
+  const updateBushesAndRabbits = (player: PlayerEntity, dog: DogEntity) => {
+      world.entities.bushes.forEach(bush => {
+          if (bush.shakeTimer > 0) bush.shakeTimer--;
+      });
+      rebuildSpatialHash(grids.bushes, world.entities.bushes);
+
+      world.entities.rabbits.forEach(rabbit => {
+          if (rabbit.state === 'HIDDEN') {
+              const bush = queryRect(grids.bushes, rabbit.x - 20, rabbit.y - 20, 20, 20).find(b => Math.abs(b.x - rabbit.x + 10) < 10 && Math.abs(b.y - rabbit.y + 10) < 10);
+              if (!bush) { rabbit.state = 'IDLE'; rabbit.isHidden = false; return; }
+
+              // Flush logic: Dog pointing AND (Player close OR Whistle triggered externally)
+              // But here we check simple proximity or if dog is in flush state
+              if ((dog.state === 'POINTING' || dog.state === 'FLUSH') && dog.target === bush.id) {
+                  const distP = Math.sqrt(Math.pow(player.x - rabbit.x, 2) + Math.pow(player.y - rabbit.y, 2));
+                  if (distP < 60 || dog.state === 'FLUSH') {
+                      rabbit.state = 'FLEE';
+                      rabbit.isHidden = false;
+                      rabbit.fleeTimer = 300; 
+                      sound('splash'); 
+                      bush.shakeTimer = 20;
+                      spawnParticles(bush.x, bush.y, '#166534', 5);
+                      spawnFloatingText(rabbit.x, rabbit.y - 10, "!", "#fff");
+                      dog.state = 'CHASE'; 
+                      dog.target = rabbit.id;
+                  }
+              }
+          } else if (rabbit.state === 'FLEE') {
+              rabbit.fleeTimer--;
+              
+              // Run away from dog
+              const dxDog = rabbit.x - dog.x;
+              const dyDog = rabbit.y - dog.y;
+              
+              const mag = Math.sqrt(dxDog*dxDog + dyDog*dyDog);
+              if (mag > 0) {
+                  rabbit.vx = (dxDog/mag) * 3.0; 
+                  rabbit.vy = (dyDog/mag) * 3.0;
+              }
+
+              rabbit.x += rabbit.vx;
+              rabbit.y += rabbit.vy;
+              rabbit.facingRight = rabbit.vx > 0;
+
+              // KEEP IN BOUNDS
+              if(rabbit.x < 10 || rabbit.x > bounds().width - 26) { rabbit.vx *= -1; rabbit.x = Math.max(10, Math.min(bounds().width - 26, rabbit.x)); }
+              if(rabbit.y < 10 || rabbit.y > bounds().height - 26) { rabbit.vy *= -1; rabbit.y = Math.max(10, Math.min(bounds().height - 26, rabbit.y)); }
+
+              if (rabbit.fleeTimer <= 0) {
+                  const bush = queryRect(grids.bushes, rabbit.x - 40, rabbit.y - 40, 80, 80).find(b => Math.abs(b.x - rabbit.x) < 40 && Math.abs(b.y - rabbit.y) < 40);
+                  if (bush) {
+                      rabbit.state = 'HIDDEN';
+                      rabbit.isHidden = true;
+                      rabbit.vx = 0; rabbit.vy = 0;
+                      rabbit.x = bush.x + 10; rabbit.y = bush.y + 10;
+                      bush.shakeTimer = 10;
+                      if (dog.target === rabbit.id) {
+                          dog.state = 'IDLE';
+                          dog.target = null;
+                          spawnFloatingText(dog.x, dog.y - 20, "?", "#fff");
+                      }
+                  }
+              }
+          } 
+      });
+  };
+
+  const updateMeats = (player: PlayerEntity) => {
+      world.entities.meats.forEach(m => {
+          if (isTopDown()) { m.y += m.vy; return; }
+          m.vy += GRAVITY;
+          collide(m);
+      });
+      rebuildSpatialHash(grids.meats, world.entities.meats);
+      queryEntity(grids.meats, player).forEach(m => {
+          if (checkCollision(player, m)) {
+              m.markedForDeletion = true;
+              player.health = Math.min(player.maxHealth, player.health + m.value);
+              emit(events, 'pickupCollected', { kind: 'MEAT', entity: m, label: `+${m.value} HP`, color: '#22c55e', score: 50 });
+          }
+      });
+      world.entities.meats = world.entities.meats.filter(m => !m.markedForDeletion);
+  };
+
+  const updateDog = (player: PlayerEntity, whistleTriggered: boolean) => {
+    const dog = world.entities.dog!;
+    // Null once the target is gone, even if the handle hasn't been cleared yet
+    const target = <T extends Entity = Entity>() => getEntity<T>(world.registry, dog.target);
+    // The scent power-up speeds up all of the dog's running
+    const pace = hasPowerUp(player, 'SCENT') ? SCENT_SPEED_MULTIPLIER : 1;
+    
+    // Bounds check for Dog
+    if(dog.x < 0) dog.x = 0;
+    if(dog.x > bounds().width - dog.width) dog.x = bounds().width - dog.width;
+    if(dog.y < 0) dog.y = 0;
+    if(dog.y > bounds().height - dog.height) dog.y = bounds().height - dog.height;
+
+    if (isTopDown()) { // RPG HUNTING MODE
+        // 1. RETRIEVE STATE
+        if (dog.state === 'CARRY') {
+            const dx = player.x - dog.x;
+            const dy = player.y - dog.y;
+            const dist = Math.sqrt(dx*dx + dy*dy);
+            
+            if (dist > 30) {
+                dog.vx = (dx/dist) * 3.8 * pace;
+                dog.vy = (dy/dist) * 3.8 * pace;
+            } else {
+                dog.state = 'IDLE';
+                dog.target = null;
+                emit(events, 'rabbitRetrieved', { dog });
+            }
+            dog.x += dog.vx;
+            dog.y += dog.vy;
+            dog.facingRight = dog.vx > 0;
+            return; 
+        }
+
+        if (whistleTriggered) {
+             if (dog.state === 'POINTING') {
+                 dog.state = 'FLUSH'; 
+                 sound('bark');
+             } else {
+                 dog.state = 'FOLLOW';
+                 dog.target = player.id;
+                 sound('whistle');
+                 spawnFloatingText(dog.x, dog.y - 20, "Here!", "#fff");
+             }
+        }
+
+        if (dog.state === 'POINTING') {
+            dog.vx = 0; dog.vy = 0;
+            if (world.engine.frameCount % 40 === 0) spawnFloatingText(dog.x, dog.y - 20, "!", "#ef4444");
+            if (!target()) dog.state = 'IDLE';
+        } 
+        else if (dog.state === 'CHASE' && dog.target !== null) {
+            const rabbit = target<RabbitEntity>();
+            if (!rabbit || rabbit.state === 'HIDDEN') {
+                dog.state = 'IDLE'; dog.target = null; spawnFloatingText(dog.x, dog.y - 20, "?", "#fff");
+            } else if (rabbit.state === 'CAUGHT') {
+                // A trap got it first
+                dog.state = 'IDLE'; dog.target = null;
+            } else {
+                const dx = rabbit.x - dog.x;
+                const dy = rabbit.y - dog.y;
+                const dist = Math.sqrt(dx*dx + dy*dy);
+                
+                if (dist < 15) {
+                    dog.state = 'CARRY';
+                    rabbit.state = 'DEAD'; 
+                    rabbit.markedForDeletion = true; 
+                    sound('hit');
+                    spawnParticles(dog.x, dog.y, '#fff', 10);
+                } else {
+                    dog.vx = (dx/dist) * 4.5 * pace; 
+                    dog.vy = (dy/dist) * 4.5 * pace;
+                }
+            }
+            dog.x += dog.vx;
+            dog.y += dog.vy;
+            dog.facingRight = dog.vx > 0;
+        } 
+        else if (dog.state === 'IDLE' || dog.state === 'FOLLOW') {
+             // SMELL LOGIC
+             let closestBush: BushEntity | null = null;
+             let minDist = 300; 
+
+             rebuildSpatialHash(grids.rabbits, world.entities.rabbits);
+             world.entities.bushes.forEach(bush => {
+                 // Any hidden rabbit in the bush's column
+                 const hasRabbit = queryRect(grids.rabbits, bush.x - 20, 0, 40, bounds().height).some(r => r.state === 'HIDDEN' && Math.abs(r.x - bush.x) < 20);
+                 if (hasRabbit) {
+                     const d = Math.sqrt(Math.pow(bush.x - dog.x, 2) + Math.pow(bush.y - dog.y, 2));
+                     if (d < minDist) { minDist = d; closestBush = bush; }
+                 }
+             });
+
+             if (closestBush && dog.state !== 'FOLLOW') {
+                 const dx = closestBush.x - dog.x;
+                 const dy = closestBush.y - dog.y;
+                 const dist = Math.sqrt(dx*dx + dy*dy);
+                 
+                 if (dist < 60) {
+                     dog.state = 'POINTING';
+                     dog.target = closestBush.id;
+                     sound('bark');
+                 } else {
+                     dog.vx = (dx/dist) * 3 * pace;
+                     dog.vy = (dy/dist) * 3 * pace;
+                     dog.x += dog.vx;
+                     dog.y += dog.vy;
+                     dog.facingRight = dog.vx > 0;
+                 }
+             } else {
+                 const followed = target();
+                 if (dog.state === 'FOLLOW' && followed) {
+                     const dx = followed.x - dog.x;
+                     const dy = followed.y - dog.y;
+                     const dist = Math.sqrt(dx*dx + dy*dy);
+                     if (dist > 60) {
+                         dog.vx = (dx/dist) * 3 * pace; dog.vy = (dy/dist) * 3 * pace;
+                         dog.x += dog.vx; dog.y += dog.vy;
+                         dog.facingRight = dog.vx > 0;
+                     } else {
+                         dog.state = 'IDLE'; dog.target = null;
+                     }
+                 } else {
+                     if (random() < 0.02) {
+                         dog.vx = (random() - 0.5) * 2;
+                         dog.vy = (random() - 0.5) * 2;
+                     }
+                     dog.x += dog.vx;
+                     dog.y += dog.vy;
+                     if (world.engine.frameCount % 20 === 0) dog.vx = 0; 
+                 }
+             }
+        }
+    } else {
+        // ... (Platformer Dog Logic)
+        // The whistle doesn't make the dog drop what it is carrying
+        if (whistleTriggered && dog.state !== 'CARRY') {
+            dog.aggroTimer = 300;
+            sound('whistle');
+            spawnParticles(dog.x, dog.y, '#fbbf24', 10, 2);
+            dog.target = null;
+            dog.state = 'IDLE';
+        }
+        // Shot game comes before anything but a fight
+        if (dog.state !== 'BRAWL' && dog.state !== 'RETRIEVE' && dog.state !== 'CARRY') {
+            const game = world.entities.creatures.find(isFetchable);
+            if (game) { dog.state = 'RETRIEVE'; dog.target = game.id; sound('bark'); }
+        }
+        const fetching = dog.state === 'RETRIEVE' || dog.state === 'CARRY';
+        if (dog.aggroTimer > 0) dog.aggroTimer--;
+        if (fetching) {
+            // Handled below
+        } else if (dog.aggroTimer > 0) {
+            let nearestEnemy: EnemyEntity | null = null;
+            let minDist = 600;
+            if (dog.target !== null && !target()) {
+                dog.target = null;
+                dog.state = 'IDLE';
+            }
+            if (dog.state !== 'BRAWL' && dog.target === null) {
+                world.entities.enemies.forEach(e => {
+                    if (e.stunTimer <= 0 && !e.markedForDeletion) { 
+                        const d = Math.sqrt(Math.pow(e.x - dog.x, 2) + Math.pow(e.y - dog.y, 2));
+                        if (d < minDist) { minDist = d; nearestEnemy = e; }
+                    }
+                });
+                if (nearestEnemy) { dog.state = 'CHASE'; dog.target = (nearestEnemy as EnemyEntity).id; }
+            }
+        } else {
+            const distToPlayer = Math.sqrt(Math.pow(player.x - dog.x, 2) + Math.pow(player.y - dog.y, 2));
+            const enemiesNearby = world.entities.enemies.length > 0 && world.entities.enemies.some(e => Math.sqrt(Math.pow(e.x - dog.x, 2) + Math.pow(e.y - dog.y, 2)) < 300);
+            if (distToPlayer < 50 && !enemiesNearby && player.health < player.maxHealth) {
+                dog.healTimer = (dog.healTimer || 0) + 1;
+                if (dog.healTimer > 60) dog.state = 'HEAL';
+            } else {
+                dog.healTimer = 0;
+                dog.state = 'FOLLOW';
+                dog.target = player.id;
+            }
+            if (dog.state === 'FOLLOW') {
+                if (Math.abs(player.x - dog.x) < 50 && Math.abs(player.y - dog.y) < 50) {
+                    dog.state = 'IDLE';
+                    dog.target = null;
+                }
+            }
+        }
+        if (dog.state === 'HEAL') {
+             dog.vx = 0;
+             if (world.engine.frameCount % 60 === 0) {
+                 player.health = Math.min(player.maxHealth, player.health + 5);
+                 spawnFloatingText(player.x, player.y - 20, "❤", "#f43f5e");
+                 spawnParticles(dog.x, dog.y, '#f43f5e', 3, 0.5);
+             }
+        } else if (dog.state === 'BRAWL' && dog.target !== null) {
+            const enemy = target<EnemyEntity>();
+            if (!enemy || enemy.health <= 0) { dog.state = 'IDLE'; dog.target = null; return; }
+            enemy.vx = 0; 
+            dog.x = enemy.x + (random() - 0.5) * 5; 
+            dog.y = enemy.y - 10;
+            if (world.engine.frameCount % 10 === 0) {
+                enemy.health -= 0.5;
+                sound('break');
+                spawnParticles(dog.x + 10, dog.y + 10, '#ef4444', 3, 2);
+                spawnFloatingText(enemy.x, enemy.y, "1", "#ef4444");
+                if (enemy.health <= 0) { killEnemy(enemy, 'DOG'); dog.state = 'IDLE'; dog.target = null; }
+            }
+        } else if (dog.state === 'FOLLOW' || dog.state === 'CHASE') {
+            const chased = target();
+            if (chased) {
+                const dx = (chased.x + chased.width/2) - (dog.x + dog.width/2);
+                dog.vx += Math.sign(dx) * (dog.state === 'CHASE' ? 3 : 1.5) * pace; 
+                dog.facingRight = dx > 0;
+                const dy = chased.y - dog.y;
+                if (dy < -40 && dog.grounded) { dog.vy = JUMP_FORCE * 1.2; dog.grounded = false; }
+                const dist = Math.sqrt(Math.pow(dx, 2) + Math.pow(dy, 2));
+                if (dist > 400 && dog.state === 'FOLLOW') { dog.x = chased.x; dog.y = chased.y; dog.vx = 0; spawnParticles(dog.x, dog.y, '#fff', 10); }
+                if (dog.state === 'CHASE' && checkCollision(dog, chased) && chased.type === EntityType.ENEMY) { dog.state = 'BRAWL'; }
+            }
+        } else if (dog.state === 'RETRIEVE') {
+            // Swim or run out to the bird, then pick it up
+            const game = target<CreatureEntity>();
+            if (!game || !isFetchable(game)) { dog.state = 'IDLE'; dog.target = null; }
+            else {
+                const dx = (game.x + game.width/2) - (dog.x + dog.width/2);
+                dog.vx += Math.sign(dx) * 2 * pace;
+                dog.facingRight = dx > 0;
+                if (game.y < dog.y - 40 && dog.grounded) { dog.vy = JUMP_FORCE * 1.2; dog.grounded = false; }
+                if (checkCollision(dog, game)) { setBrainState(game, 'CARRIED'); dog.state = 'CARRY'; }
+            }
+        } else if (dog.state === 'CARRY') {
+            // Bring it back to the player
+            const game = target<CreatureEntity>();
+            if (!game) { dog.state = 'IDLE'; dog.target = null; }
+            else {
+                const dx = (player.x + player.width/2) - (dog.x + dog.width/2);
+                dog.vx += Math.sign(dx) * 2 * pace;
+                dog.facingRight = dx > 0;
+                if (player.y < dog.y - 40 && dog.grounded) { dog.vy = JUMP_FORCE * 1.2; dog.grounded = false; }
+                if (Math.abs(dx) < 30 && Math.abs(player.y + player.height - (dog.y + dog.height)) < 60) {
+                    game.markedForDeletion = true;
+                    dog.state = 'IDLE'; dog.target = null;
+                    emit(events, 'creatureRetrieved', { dog, creature: game, score: game.retrieve?.score ?? 0 });
+                }
+            }
+        } else if (dog.state === 'IDLE') { dog.vx *= 0.5; }
+        if (dog.state !== 'BRAWL') {
+            dog.vx *= 0.8;
+            dog.vy += GRAVITY;
+            collide(dog);
+            floatOnWater(dog);
+        }
+        // Shot game is held in the mouth on the way back
+        const carried = dog.state === 'CARRY' ? target<CreatureEntity>() : null;
+        if (carried) {
+            carried.x = dog.facingRight ? dog.x + dog.width - 8 : dog.x - carried.width + 8;
+            carried.y = dog.y - carried.height / 2;
+            carried.vx = 0; carried.vy = 0;
+        }
+    }
+  };
+
+  // Shot game lying still (on the ground or afloat) and not yet picked up
+  const isFetchable = (c: CreatureEntity) =>
+      !!c.retrieve && !c.health && !c.markedForDeletion && c.grounded && c.brain?.state !== 'CARRIED';
+
+  // --- PLATFORM VARIANTS ---
+  // Everything that can stand on a platform and be carried by it
+  const platformRiders = (): Entity[] => {
+      const { player, dog, enemies, creatures, meats, powerups, traps } = world.entities;
+      return [...(player ? [player] : []), ...(dog ? [dog] : []), ...enemies, ...creatures, ...meats, ...powerups, ...traps.filter(t => t.state === 'STUCK')];
+  };
+
+  // Riders move with the platform before their own physics runs, so they stay
+  // grounded on it and walk relative to it
+  const movePlatform = (p: PlatformEntity, dx: number, dy: number, riders: Entity[]) => {
+      riders.forEach(r => { if (standsOn(r, p)) { r.x += dx; r.y += dy; } });
+      p.x += dx; p.y += dy;
+      p.vx = dx; p.vy = dy;
+  };
+
+  const updatePlatforms = () => {
+      const riders = platformRiders();
+      const waterY = bounds().height - world.state.floodLevel;
+      world.entities.platforms.forEach(p => {
+          if (p.variant === 'MOVING') {
+              const target = p.path[p.waypoint];
+              const dx = target.x - p.x;
+              const dy = target.y - p.y;
+              const dist = Math.hypot(dx, dy);
+              if (dist <= p.speed) {
+                  movePlatform(p, dx, dy, riders);
+                  p.waypoint = (p.waypoint + 1) % p.path.length;
+              } else {
+                  movePlatform(p, dx / dist * p.speed, dy / dist * p.speed, riders);
+              }
+          } else if (p.variant === 'CRUMBLING') {
+              if (p.collapsed) {
+                  // Grows back once nobody is in the way
+                  if (p.respawnTimer > 0) p.respawnTimer--;
+                  else if (!riders.some(r => checkCollision(r, p))) p.collapsed = false;
+              } else if (p.crumbleTimer > 0) {
+                  p.crumbleTimer--;
+                  if (p.crumbleTimer === 0) {
+                      p.collapsed = true;
+                      p.respawnTimer = CRUMBLE_RESPAWN_TICKS;
+                      spawnParticles(p.x + p.width / 2, p.y + p.height / 2, '#78350f', 12);
+                      sound('break');
+                  }
+              } else if (riders.some(r => standsOn(r, p))) {
+                  p.crumbleTimer = CRUMBLE_TICKS;
+              }
+          } else if (p.variant === 'SINKING') {
+              if (world.level.flood && waterY < p.y + p.height && p.y < groundY()) movePlatform(p, 0, SINK_SPEED, riders);
+          }
+      });
+  };
+
+  // --- WATER ---
+  const waterAt = (x: number, y: number): LevelRect | null =>
+      world.level.water?.find(w => x >= w.x && x <= w.x + w.width && y >= w.y && y <= w.y + w.height) ?? null;
+
+  // Keeps a walker afloat at the surface of the water under its center; it can still jump out
+  const floatOnWater = (e: Entity) => {
+      const pool = waterAt(e.x + e.width / 2, e.y + e.height);
+      if (!pool) return;
+      const floatY = pool.y - e.height * (1 - SWIM_DEPTH);
+      if (e.y >= floatY && e.vy >= 0) { e.y = floatY; e.vy = 0; e.grounded = true; }
+      e.vx *= WATER_DRAG;
+  };
+
+  // Moves a walker or falling pickup by its velocity, stopping at platforms and the ground
+  const collide = (e: Entity, dropThrough = false) => moveAndCollide(e, world.entities.platforms, { floor: groundY(), dropThrough });
+
+  const killEnemy = (enemy: EnemyEntity, by: GameEvents['enemyKilled']['by']) => {
+      // The alpha plays out its death before it is removed
+      if (enemy.boss && enemy.boss.state !== 'DEAD') { startBossDeath(enemy, by); return; }
+      enemy.markedForDeletion = true;
+      emit(events, 'enemyKilled', { enemy, by });
+  };
+
+  // Weighted pick from the level's tier table
+  const pickTier = (weights: Record<EnemyTier, number>): EnemyTier => {
+      const tiers = Object.values(EnemyTier);
+      let roll = random() * tiers.reduce((sum, t) => sum + weights[t], 0);
+      for (const tier of tiers) {
+          roll -= weights[tier];
+          if (roll < 0) return tier;
+      }
+      return tiers[tiers.length - 1];
+  };
+
+  // Weighted pick of a power-up kind; without a level table every kind drops at its default weight
+  const pickPowerUp = (weights: Record<string, number> | null) => {
+      const defs = powerUpDefinitions();
+      const weightOf = (kind: string, fallback: number) => weights ? weights[kind] ?? 0 : fallback;
+      let roll = random() * defs.reduce((sum, d) => sum + weightOf(d.kind, d.weight), 0);
+      for (const def of defs) {
+          roll -= weightOf(def.kind, def.weight);
+          if (roll < 0) return def;
+      }
+      return null;
+  };
+
+  // Enters from a random side of the screen
+  const spawnEnemy = (tier: EnemyTier) => {
+      let width = 36, height = 24, health = 2, color = '#9ca3af';
+      if (tier === EnemyTier.MEDIUM) { width = 44; height = 28; health = 4; color = '#4b5563'; }
+      if (tier === EnemyTier.LARGE) { width = 56; height = 36; health = 8; color = '#1f2937'; }
+
+      world.entities.enemies.push(track({
+          type: EntityType.ENEMY, tier, x: world.camera.x + (random() > 0.5 ? -50 : CANVAS_WIDTH + 50), y: world.camera.y + random() * (CANVAS_HEIGHT - 100), width, height, vx: 0, vy: 0, grounded: false, markedForDeletion: false, health, maxHealth: health, stunTimer: 0, color,
+          pack: { tactic: 'APPROACH', timer: 0, side: 1, orbit: 0, rallyTimer: 0, howled: false, facingRight: false }
+      }));
+  };
+
+  const updateEnemies = (player: PlayerEntity) => {
+      const spawns = world.level.enemies;
+      // No reinforcements once the alpha is going down
+      const bossDown = world.entities.enemies.some(e => e.boss?.state === 'DYING' || e.boss?.state === 'DEAD');
+      if (spawns && !bossDown && world.engine.frameCount % spawns.interval === 0 && world.entities.enemies.length < spawns.max) {
+          spawnEnemy(pickTier(spawns.tiers));
+      }
+
+      world.entities.enemies.forEach(e => {
+          // Wolves removed earlier this tick (e.g. scattered by the alpha's death) no longer act
+          if (e.markedForDeletion) return;
+          if (e.boss) updateBoss(e, e.boss, player);
+          else if (e.pack) updateWolf(e, e.pack, player);
+          if (isTopDown()) { e.x += e.vx; e.y += e.vy; }
+          else { e.vy += GRAVITY; collide(e); }
+          const harmless = e.stunTimer > 0 || e.boss?.state === 'DYING' || e.boss?.state === 'DEAD';
+          if (checkCollision(player, e) && player.invulnerableTimer <= 0 && !harmless) {
+              player.invulnerableTimer = 60; player.vx = Math.sign(player.x - e.x) * 10; player.vy = -5;
+              damagePlayer(player, e.boss ? BOSS_CONTACT_DAMAGE : 10, 'ENEMY', e);
+          }
+      });
+      world.entities.enemies = world.entities.enemies.filter(e => !e.markedForDeletion);
+  };
+
+  // --- WOLF PACK ---
+  const setTactic = (pack: PackComponent, tactic: PackTactic) => { pack.tactic = tactic; pack.timer = 0; };
+
+  // Wolves near a dog that is pinning a packmate go for the dog instead
+  const packTarget = (e: EnemyEntity, player: PlayerEntity): PlayerEntity | DogEntity => {
+      const dog = world.entities.dog;
+      if (dog?.state === 'BRAWL' && dog.target !== e.id && Math.hypot(dog.x - e.x, dog.y - e.y) < WOLF_DOG_DEFEND_RANGE) return dog;
+      return player;
+  };
+
+  // Flank from whichever side of the target has fewer wolves on it, as long as there is room there
+  const pickFlankSide = (e: EnemyEntity, target: Entity): -1 | 1 => {
+      if (!isTopDown() && target.x - WOLF_FLANK_DISTANCE < 0) return 1;
+      if (!isTopDown() && target.x + target.width + WOLF_FLANK_DISTANCE > bounds().width) return -1;
+      let left = 0, right = 0;
+      world.entities.enemies.forEach(w => {
+          if (w === e || w.boss || w.markedForDeletion || Math.abs(w.x - target.x) > WOLF_SENSE_RANGE) return;
+          // Flankers count for the side they are heading to
+          const flanking = w.pack && (w.pack.tactic === 'FLANK' || w.pack.tactic === 'CIRCLE');
+          if (flanking ? w.pack!.side < 0 : w.x < target.x) left++; else right++;
+      });
+      if (left !== right) return left < right ? -1 : 1;
+      return e.x < target.x ? -1 : 1;
+  };
+
+  const steer = (e: EnemyEntity, pack: PackComponent, tx: number, ty: number, speed: number) => {
+      const dx = tx - (e.x + e.width / 2);
+      const dy = ty - (e.y + e.height / 2);
+      if (isTopDown()) {
+          const dist = Math.hypot(dx, dy) || 1;
+          e.vx = (dx / dist) * speed; e.vy = (dy / dist) * speed;
+      } else {
+          e.vx = Math.abs(dx) > 4 ? Math.sign(dx) * speed : 0;
+          if (e.grounded && dy < -50 && Math.abs(dx) < 100) { e.vy = JUMP_FORCE; e.grounded = false; }
+      }
+      if (e.vx !== 0) pack.facingRight = e.vx > 0;
+  };
+
+  // Rallies nearby wolves: they stop circling and come in together, faster
+  const packHowl = (e: EnemyEntity) => {
+      let rallied = 0;
+      world.entities.enemies.forEach(w => {
+          if (w === e || !w.pack || w.pack.tactic === 'RETREAT' || Math.hypot(w.x - e.x, w.y - e.y) > WOLF_RALLY_RADIUS) return;
+          w.pack.rallyTimer = WOLF_RALLY_TICKS;
+          rallied++;
+      });
+      emit(events, 'wolfHowled', { wolf: e, rallied });
+  };
+
+  const updateWolf = (e: EnemyEntity, pack: PackComponent, player: PlayerEntity) => {
+      pack.timer++;
+      if (pack.rallyTimer > 0) pack.rallyTimer--;
+      if (e.stunTimer > 0) {
+          e.stunTimer--; e.vx = 0;
+          if (isTopDown()) e.vy = 0;
+          // A net breaks up a wind-up or a charge
+          if (pack.tactic === 'WIND_UP' || pack.tactic === 'CHARGE') setTactic(pack, 'RECOVER');
+          return;
+      }
+
+      const target = packTarget(e, player);
+      const tx = target.x + target.width / 2, ty = target.y + target.height / 2;
+      const dx = tx - (e.x + e.width / 2), dy = ty - (e.y + e.height / 2);
+      const dist = Math.hypot(dx, dy);
+      const pace = (isTopDown() ? 1 + world.state.level * 0.2 : 1) * (pack.rallyTimer > 0 ? 1.3 : 1);
+      const speed = WOLF_TIER_SPEEDS[e.tier] * pace;
+
+      if (target.type === EntityType.DOG && checkCollision(e, target)) {
+          // Knocks the dog off its packmate
+          target.state = 'IDLE'; target.target = null;
+          target.vx = Math.sign(dx || 1) * 6; target.vy = -6;
+          spawnFloatingText(target.x, target.y - 20, "YELP!", "#fff");
+          setTactic(pack, 'BACK_OFF');
+      }
+
+      if (!pack.howled && e.health < e.maxHealth * WOLF_RETREAT_HEALTH && pack.tactic !== 'CHARGE') {
+          pack.howled = true;
+          setTactic(pack, 'RETREAT');
+          packHowl(e);
+      }
+
+      switch (pack.tactic) {
+          case 'APPROACH':
+              steer(e, pack, tx, ty, dist > WOLF_SENSE_RANGE ? pace : speed);
+              if (dist > WOLF_SENSE_RANGE) break;
+              if (e.tier === EnemyTier.SMALL && checkCollision(e, target)) setTactic(pack, 'BACK_OFF');
+              if (e.tier === EnemyTier.MEDIUM && dist < WOLF_FLANK_DISTANCE * 2) {
+                  pack.side = pickFlankSide(e, target);
+                  pack.orbit = pack.side > 0 ? 0 : Math.PI;
+                  setTactic(pack, 'FLANK');
+              }
+              if (e.tier === EnemyTier.LARGE && dist < WOLF_CHARGE_RANGE && (isTopDown() || (e.grounded && Math.abs(dy) < 40))) {
+                  pack.side = dx > 0 ? 1 : -1;
+                  pack.orbit = Math.atan2(dy, dx);
+                  setTactic(pack, 'WIND_UP');
+              }
+              break;
+          case 'FLANK': {
+              const fx = tx + (isTopDown() ? Math.cos(pack.orbit) : pack.side) * WOLF_FLANK_DISTANCE;
+              const fy = isTopDown() ? ty + Math.sin(pack.orbit) * WOLF_FLANK_DISTANCE : e.y + e.height / 2;
+              steer(e, pack, fx, fy, speed);
+              // Hop over the target to get round to the far side
+              if (!isTopDown() && e.grounded && Math.sign(dx) === pack.side && Math.abs(dx) < 80) { e.vy = JUMP_FORCE; e.grounded = false; }
+              if (Math.hypot(fx - (e.x + e.width / 2), isTopDown() ? fy - (e.y + e.height / 2) : 0) < 20) setTactic(pack, 'CIRCLE');
+              else if (pack.timer > WOLF_CIRCLE_TICKS * 2) setTactic(pack, 'LUNGE');
+              break;
+          }
+          case 'CIRCLE':
+              if (isTopDown()) {
+                  pack.orbit += 0.02 * pack.side;
+                  steer(e, pack, tx + Math.cos(pack.orbit) * WOLF_FLANK_DISTANCE, ty + Math.sin(pack.orbit) * WOLF_FLANK_DISTANCE, speed);
+              } else {
+                  steer(e, pack, tx + pack.side * WOLF_FLANK_DISTANCE + Math.sin(pack.timer * 0.05) * 30, ty, speed * 0.5);
+                  pack.facingRight = dx > 0;
+              }
+              if (pack.timer >= WOLF_CIRCLE_TICKS || pack.rallyTimer > 0) setTactic(pack, 'LUNGE');
+              break;
+          case 'LUNGE':
+              steer(e, pack, tx, ty, speed * 2);
+              if (checkCollision(e, target) || pack.timer >= WOLF_LUNGE_TICKS) setTactic(pack, 'BACK_OFF');
+              break;
+          case 'BACK_OFF':
+              steer(e, pack, e.x + e.width / 2 - dx, e.y + e.height / 2 - dy, speed);
+              pack.facingRight = dx > 0;
+              if (pack.timer >= WOLF_BACK_OFF_TICKS) setTactic(pack, 'APPROACH');
+              break;
+          case 'WIND_UP':
+              e.vx = 0;
+              if (isTopDown()) e.vy = 0;
+              pack.facingRight = pack.side > 0;
+              if (pack.timer >= WOLF_WIND_UP_TICKS) setTactic(pack, 'CHARGE');
+              break;
+          case 'CHARGE':
+              // Committed to the heading it took at the wind-up
+              if (isTopDown()) { e.vx = Math.cos(pack.orbit) * WOLF_CHARGE_SPEED; e.vy = Math.sin(pack.orbit) * WOLF_CHARGE_SPEED; }
+              else e.vx = pack.side * WOLF_CHARGE_SPEED;
+              if (pack.timer % 6 === 0) spawnParticles(e.x + e.width / 2, e.y + e.height, '#a8a29e', 2, 0.5);
+              if (pack.timer >= WOLF_CHARGE_TICKS) setTactic(pack, 'RECOVER');
+              break;
+          case 'RECOVER':
+              e.vx = 0;
+              if (isTopDown()) e.vy = 0;
+              if (pack.timer >= WOLF_RECOVER_TICKS) setTactic(pack, 'APPROACH');
+              break;
+          case 'RETREAT':
+              steer(e, pack, e.x + e.width / 2 - dx, e.y + e.height / 2 - dy, speed * 1.2);
+              if (dist > WOLF_RETREAT_DISTANCE || pack.timer >= WOLF_RALLY_TICKS) setTactic(pack, 'APPROACH');
+              break;
+      }
+  };
+
+  // --- ALPHA WOLF ---
+  const spawnBoss = (x: number, y: number, health: number) => {
+      world.entities.enemies.push(track<EnemyEntity>({
+          type: EntityType.ENEMY, tier: EnemyTier.LARGE, x, y, width: 96, height: 60, vx: 0, vy: 0, grounded: false, markedForDeletion: false,
+          health, maxHealth: health, stunTimer: 0, color: '#292524',
+          boss: { phase: 1, state: 'STALK', timer: 0, howlTimer: 0, pinTimer: 0, facingRight: false, killedBy: 'ARROW' }
+      }));
+  };
+
+  const pinnedByDog = (e: EnemyEntity) => world.entities.dog?.state === 'BRAWL' && world.entities.dog.target === e.id;
+
+  // The weak point shows while the alpha is held by a net or pinned by the dog
+  const bossExposed = (e: EnemyEntity) => e.stunTimer > 0 || pinnedByDog(e);
+
+  const setBossState = (boss: BossComponent, state: BossComponent['state']) => { boss.state = state; boss.timer = 0; };
+
+  // Calls SMALL wolves in from the screen edges, up to the pack limit
+  const bossHowl = (e: EnemyEntity, boss: BossComponent) => {
+      const pack = world.entities.enemies.filter(w => !w.boss && !w.markedForDeletion).length;
+      const summoned = Math.max(0, Math.min(boss.phase, BOSS_MAX_PACK - pack));
+      for (let i = 0; i < summoned; i++) spawnEnemy(EnemyTier.SMALL);
+      boss.howlTimer = 0;
+      emit(events, 'bossHowled', { boss: e, summoned });
+  };
+
+  // Ballistic jump that peaks above the target and comes down on it
+  const bossLeap = (e: EnemyEntity, target: Entity) => {
+      const feet = e.y + e.height;
+      const rise = Math.max(80, feet - (target.y + target.height) + 60);
+      const vy = -Math.sqrt(2 * GRAVITY * rise);
+      const drop = rise - (feet - (target.y + target.height));
+      const airTime = -vy / GRAVITY + Math.sqrt(2 * Math.max(0, drop) / GRAVITY);
+      e.vy = vy;
+      e.vx = ((target.x + target.width / 2) - (e.x + e.width / 2)) / airTime;
+      e.grounded = false;
+  };
+
+  const startBossDeath = (e: EnemyEntity, by: BossComponent['killedBy']) => {
+      const boss = e.boss!;
+      if (boss.state === 'DYING') return;
+      boss.killedBy = by;
+      setBossState(boss, 'DYING');
+      e.vx = 0; e.stunTimer = 0;
+      // The pack scatters without its leader
+      world.entities.enemies.forEach(w => {
+          if (w.boss || w.markedForDeletion) return;
+          w.markedForDeletion = true;
+          spawnParticles(w.x + w.width / 2, w.y + w.height / 2, '#9ca3af', 6, 1);
+      });
+      sound('howl');
+  };
+
+  const updateBoss = (e: EnemyEntity, boss: BossComponent, player: PlayerEntity) => {
+      boss.timer++;
+      if (boss.state === 'DYING') {
+          e.vx = 0;
+          world.engine.shake = Math.max(world.engine.shake, 3);
+          if (boss.timer % 10 === 0) spawnParticles(e.x + fxRandom() * e.width, e.y + fxRandom() * e.height, fxRandom() < 0.5 ? '#ef4444' : '#292524', 4, 1.5);
+          if (boss.timer >= BOSS_DEATH_TICKS) {
+              setBossState(boss, 'DEAD');
+              killEnemy(e, boss.killedBy);
+              emit(events, 'bossDefeated', { boss: e });
+              nextLevel();
+          }
+          return;
+      }
+
+      const phase = e.health > e.maxHealth * 2 / 3 ? 1 : e.health > e.maxHealth / 3 ? 2 : 3;
+      if (phase !== boss.phase) {
+          boss.phase = phase;
+          emit(events, 'bossPhaseChanged', { boss: e, phase });
+          if (e.grounded) { setBossState(boss, 'HOWL'); bossHowl(e, boss); }
+      }
+
+      // Held down: nets wear off quickly and the dog gets shaken loose
+      e.stunTimer = Math.min(e.stunTimer, BOSS_STUN_CAP);
+      if (pinnedByDog(e)) {
+          boss.pinTimer++;
+          if (boss.pinTimer >= BOSS_PIN_TICKS) {
+              const dog = world.entities.dog!;
+              dog.state = 'IDLE'; dog.target = null; dog.aggroTimer = 0;
+              dog.vx = (dog.x < e.x + e.width / 2 ? -1 : 1) * 8; dog.vy = -8;
+              boss.pinTimer = 0;
+              spawnFloatingText(dog.x, dog.y - 20, "YELP!", "#fff");
+              sound('bark');
+          }
+          e.vx = 0;
+          return;
+      }
+      boss.pinTimer = 0;
+      if (e.stunTimer > 0) {
+          e.stunTimer--; e.vx = 0;
+          if (boss.state !== 'LEAP') setBossState(boss, 'STALK');
+          return;
+      }
+
+      boss.howlTimer++;
+      const dx = (player.x + player.width / 2) - (e.x + e.width / 2);
+      if (boss.state === 'STALK') {
+          boss.facingRight = dx > 0;
+          e.vx = Math.sign(dx) * BOSS_SPEEDS[boss.phase - 1];
+          const playerAbove = player.y + player.height < e.y + e.height - 60;
+          if (boss.phase > 1 && boss.howlTimer >= BOSS_HOWL_INTERVAL && e.grounded) {
+              setBossState(boss, 'HOWL');
+              bossHowl(e, boss);
+          } else if (e.grounded && (boss.timer >= BOSS_LEAP_INTERVALS[boss.phase - 1] || (playerAbove && boss.timer >= 60))) {
+              setBossState(boss, 'WIND_UP');
+          }
+      } else if (boss.state === 'WIND_UP') {
+          e.vx = 0;
+          boss.facingRight = dx > 0;
+          if (boss.timer % 8 === 0) spawnParticles(e.x + e.width / 2, e.y + e.height, '#a8a29e', 2, 0.5);
+          if (boss.timer >= BOSS_WIND_UP_TICKS) {
+              setBossState(boss, 'LEAP');
+              bossLeap(e, player);
+              sound('jump');
+          }
+      } else if (boss.state === 'LEAP') {
+          // Lands with a shockwave that knocks down anyone standing close
+          if (e.grounded && boss.timer > 5) {
+              world.engine.shake = 8;
+              spawnParticles(e.x + e.width / 2, e.y + e.height, '#a8a29e', 14, 2);
+              const px = player.x + player.width / 2;
+              if (player.grounded && Math.abs(px - (e.x + e.width / 2)) < BOSS_SHOCKWAVE_RADIUS && Math.abs(player.y + player.height - (e.y + e.height)) < 40 && player.invulnerableTimer <= 0) {
+                  player.invulnerableTimer = 60; player.vx = Math.sign(px - (e.x + e.width / 2)) * 10; player.vy = -6;
+                  damagePlayer(player, BOSS_SHOCKWAVE_DAMAGE, 'ENEMY', e);
+              }
+              e.vx = 0;
+              setBossState(boss, 'STALK');
+          }
+      } else if (boss.state === 'HOWL') {
+          e.vx = 0;
+          if (boss.timer >= BOSS_HOWL_TICKS) setBossState(boss, 'STALK');
+      }
+      e.x = Math.max(0, Math.min(bounds().width - e.width, e.x));
+  };
+
+  const spawnCrow = () => {
+        world.entities.crows.push(track({
+            type: EntityType.CROW, state: 'FLY', x: world.camera.x + (random() > 0.5 ? -50 : CANVAS_WIDTH + 50), y: world.camera.y + 50 + random() * 100, width: 24, height: 24, vx: random() > 0.5 ? 2 : -2, vy: 0, grounded: false, markedForDeletion: false, startX: 0, startY: 0, diveTimer: 0, facingRight: true, health: 2, color: '#374151'
+        }));
+  };
+
+  const updateCrows = (player: PlayerEntity) => {
+        const spawns = world.level.crows;
+        if (spawns && world.engine.frameCount % spawns.interval === 0 && world.entities.crows.length < spawns.max) {
+             spawnCrow();
+        }
+        world.entities.crows.forEach(c => {
+             if (c.state === 'FLY') {
+                 c.x += c.vx; c.y = c.y + Math.sin(world.engine.frameCount * 0.05) * 2;
+                 if (c.x < world.camera.x - 100 || c.x > world.camera.x + CANVAS_WIDTH + 100) c.vx *= -1;
+                 if (Math.abs(c.x - player.x) < 100 && c.y < player.y) { c.state = 'DIVE'; c.startX = c.x; c.startY = c.y; const dx = player.x - c.x; const dy = player.y - c.y; const dist = Math.sqrt(dx*dx + dy*dy); c.vx = (dx/dist) * 6; c.vy = (dy/dist) * 6; sound('whistle'); }
+             } else if (c.state === 'DIVE') {
+                 c.x += c.vx; c.y += c.vy;
+                 if (c.y > bounds().height - 50 || c.y > player.y + 100) { c.state = 'RETURN'; c.vy = -4; }
+             } else if (c.state === 'RETURN') {
+                 c.x += c.vx * 0.5; c.y += c.vy;
+                 if (c.y <= 100) { c.state = 'FLY'; c.vy = 0; c.vx = c.vx > 0 ? 3 : -3; }
+             }
+             c.facingRight = c.vx > 0;
+             if (checkCollision(c, player) && player.invulnerableTimer <= 0) {
+                  player.invulnerableTimer = 60;
+                  damagePlayer(player, 15, 'CROW', c);
+             }
+        });
+        world.entities.crows = world.entities.crows.filter(c => !c.markedForDeletion);
+  };
+
+  // --- DEBUG COMMANDS ---
+  // Grants a power-up as if it had been picked up; false for an unknown kind
+  const givePowerUp = (kind: string) => {
+      const def = getPowerUpDefinition(kind);
+      const player = world.entities.player;
+      if (!def || !player) return false;
+      grantPowerUp(player, def, def.duration);
+      def.apply?.(player, def.duration, creatureContext(player, false));
+      return true;
+  };
+
+  // Kills every wolf, crow and creature with health, with the usual rewards
+  const killAll = () => {
+      const player = world.entities.player;
+      if (!player) return;
+      world.entities.enemies.forEach(e => { if (!e.markedForDeletion) killEnemy(e, 'DEBUG'); });
+      world.entities.crows.forEach(c => {
+          if (c.markedForDeletion) return;
+          c.markedForDeletion = true;
+          emit(events, 'crowKilled', { crow: c });
+      });
+      world.entities.creatures.forEach(c => { if (c.health) killCreature(c, player); });
+  };
+
+  // --- CREATURE SYSTEMS ---
+  const spawnCreature = (kind: string, x: number, y: number, facingRight = true): CreatureEntity | null => {
+      const def = getCreatureDefinition(kind);
+      if (!def) return null;
+      const creature = track<CreatureEntity>(createCreature(def, x, y, facingRight));
+      world.entities.creatures.push(creature);
+      return creature;
+  };
+
+  const creatureContext = (player: PlayerEntity, whistle: boolean): CreatureContext => ({
+      player, dog: world.entities.dog, whistle, frame: world.engine.frameCount, topDown: isTopDown(), bounds: bounds(),
+      random, sound, spawnParticles, spawnFloatingText,
+      escape: c => {
+          if (c.markedForDeletion) return;
+          c.markedForDeletion = true;
+          emit(events, 'creatureEscaped', { creature: c });
+      }
+  });
+
+  const moveBody = (c: CreatureEntity, body: BodyComponent) => {
+      const falls = body.gravity && !isTopDown();
+      if (falls) { c.vy += GRAVITY; collide(c); floatOnWater(c); }
+      else { c.x += c.vx; c.y += c.vy; }
+      if (c.vx !== 0) c.renderable.facingRight = c.vx > 0;
+      if (body.bounds === 'CLAMP') {
+          c.x = Math.max(0, Math.min(bounds().width - c.width, c.x));
+          c.y = Math.max(0, Math.min(bounds().height - c.height, c.y));
+      } else if (body.bounds === 'WRAP') {
+          if (c.x > bounds().width) c.x = -c.width;
+          else if (c.x + c.width < 0) c.x = bounds().width;
+      }
+  };
+
+  const collectPickup = (c: CreatureEntity, pickup: PickupComponent, player: PlayerEntity) => {
+      c.markedForDeletion = true;
+      if (pickup.effect === 'HEAL') {
+          player.health = Math.min(player.maxHealth, player.health + pickup.amount);
+          emit(events, 'pickupCollected', { kind: c.kind, entity: c, label: `+${pickup.amount} HP`, color: '#22c55e', score: 0 });
+      } else {
+          emit(events, 'pickupCollected', { kind: c.kind, entity: c, label: `+${pickup.amount}`, color: '#fbbf24', score: pickup.amount });
+      }
+  };
+
+  const killCreature = (c: CreatureEntity, player: PlayerEntity) => {
+      const health = c.health!;
+      c.health = undefined; // No longer a target, even if the behavior keeps the body around
+      const behavior = c.brain && getBehavior(c.brain.behavior);
+      if (behavior?.onKilled) behavior.onKilled(c, creatureContext(player, false));
+      else c.markedForDeletion = true;
+      emit(events, 'creatureKilled', { creature: c, score: health.score, countsAsKill: health.countsAsKill });
+  };
+
+  // Brains decide, bodies move, then contact with the player is resolved
+  const updateCreatures = (player: PlayerEntity, whistle: boolean) => {
+      const ctx = creatureContext(player, whistle);
+      world.entities.creatures.forEach(c => {
+          if (c.brain) {
+              getBehavior(c.brain.behavior)?.update(c, ctx);
+              c.brain.timer++;
+          }
+          if (c.body) moveBody(c, c.body);
+          if (c.hostile && checkCollision(c, player) && player.invulnerableTimer <= 0) {
+              player.invulnerableTimer = 60;
+              damagePlayer(player, c.hostile.damage, 'CREATURE', c);
+          }
+          if (c.pickup && !c.markedForDeletion && checkCollision(c, player)) collectPickup(c, c.pickup, player);
+      });
+      world.entities.creatures = world.entities.creatures.filter(c => !c.markedForDeletion);
+  };
+
+  // Whether the arrow strikes `target` now. Piercing arrows fly on, hitting each target once.
+  const arrowHits = (a: ArrowEntity, target: Entity) => {
+      if (a.markedForDeletion || a.hits.includes(target.id) || !checkCollision(a, target)) return false;
+      a.hits.push(target.id);
+      if (a.pierce > 0) a.pierce--;
+      else a.markedForDeletion = true;
+      return true;
+  };
+
+  // Sets a bush alight; anything hiding in it bolts
+  const igniteBush = (bush: BushEntity) => {
+      bush.burnTimer = BUSH_BURN_TICKS;
+      bush.shakeTimer = 20;
+      sound('explosion');
+      world.entities.rabbits.forEach(r => {
+          if (r.state !== 'HIDDEN' || !checkCollision(r, bush)) return;
+          r.state = 'FLEE'; r.isHidden = false; r.fleeTimer = 300;
+          spawnFloatingText(r.x, r.y - 10, "!", "#fff");
+      });
+  };
+
+  const updateBurningBushes = () => {
+      world.entities.bushes.forEach(b => {
+          if (b.burnTimer <= 0) return;
+          b.burnTimer--;
+          if (world.engine.frameCount % 3 === 0) spawnParticles(b.x + fxRandom() * b.width, b.y + b.height / 2, fxRandom() < 0.5 ? '#f97316' : '#facc15', 1, 0.6);
+          if (b.burnTimer === 0) {
+              b.markedForDeletion = true;
+              spawnParticles(b.x + b.width / 2, b.y + b.height / 2, '#44403c', 10);
+          }
+      });
+      world.entities.bushes = world.entities.bushes.filter(b => !b.markedForDeletion);
+  };
+
+  const updateArrows = () => {
+      rebuildSpatialHash(grids.enemies, world.entities.enemies);
+      rebuildSpatialHash(grids.crows, world.entities.crows);
+      rebuildSpatialHash(grids.cages, world.entities.cages);
+      rebuildSpatialHash(grids.creatures, world.entities.creatures);
+      rebuildSpatialHash(grids.bushes, world.entities.bushes);
+      world.entities.arrows.forEach(a => {
+          a.lifeTime--;
+          if (a.lifeTime <= 0) a.markedForDeletion = true;
+          if (a.embedded) return;
+          a.vy += ARROW_GRAVITY;
+          a.x += a.vx;
+          a.y += a.vy;
+          a.rotation = Math.atan2(a.vy, a.vx);
+
+          // Enemy Collision
+          const damage = a.fire ? FIRE_ARROW_DAMAGE : 1;
+          queryEntity(grids.enemies, a).forEach(e => {
+              if (arrowHits(a, e)) {
+                  if (e.boss?.state === 'DYING') return;
+                  // The alpha only flinches, but takes far more from a shot in the weak point
+                  const weakPoint = !!e.boss && bossExposed(e);
+                  e.health -= weakPoint ? damage * BOSS_WEAK_POINT_MULTIPLIER : damage;
+                  sound('hit');
+                  spawnParticles(e.x, e.y, e.color, 5, 1);
+                  if (weakPoint) spawnFloatingText(a.x, a.y - 10, "WEAK POINT!", "#f87171");
+                  if (e.health <= 0) { killEnemy(e, 'ARROW'); } else if (!e.boss) { e.vx = -e.vx; e.stunTimer = Math.max(e.stunTimer, 10); }
+              }
+          });
+          
+          // Crow Collision
+          queryEntity(grids.crows, a).forEach(c => {
+               if (arrowHits(a, c)) {
+                   c.health -= damage; sound('hit');
+                   if (c.health <= 0) { c.markedForDeletion = true; emit(events, 'crowKilled', { crow: c }); }
+               }
+          });
+
+          // Creature Collision (only while they have health)
+          queryEntity(grids.creatures, a).forEach(c => {
+               if (c.health && arrowHits(a, c)) {
+                   c.health.current -= damage; sound('hit');
+                   if (c.health.current <= 0) killCreature(c, world.entities.player!);
+               }
+          });
+
+          // Cage Collision (Liberate Dog); bars stop even a piercing arrow
+          queryEntity(grids.cages, a).forEach(c => {
+               if (!c.markedForDeletion && arrowHits(a, c)) {
+                   a.markedForDeletion = true;
+                   c.health -= 1;
+                   sound('break');
+                   spawnParticles(c.x, c.y, '#9ca3af', 5);
+                   if (c.health <= 0) {
+                       c.markedForDeletion = true;
+                       spawnDog(c.x, c.y + c.height - 24);
+                   }
+               }
+          });
+
+          // Fire arrows set bushes alight and burn out in them
+          if (a.fire) {
+              queryEntity(grids.bushes, a).forEach(b => {
+                  if (a.markedForDeletion || b.burnTimer > 0 || !checkCollision(a, b)) return;
+                  a.markedForDeletion = true;
+                  igniteBush(b);
+              });
+          }
+
+          // The tip sticks in walls, ramps, ledges and the ground
+          const tipX = a.x + Math.cos(a.rotation) * 14;
+          const tipY = a.y + Math.sin(a.rotation) * 14;
+          if (!isTopDown() && !a.markedForDeletion && blocksPoint(world.entities.platforms, tipX, tipY, groundY())) {
+              a.embedded = true; a.vx = 0; a.vy = 0; a.lifeTime = ARROW_EMBED_TICKS;
+              spawnParticles(tipX, tipY, '#9ca3af', 3);
+          }
+          // ...and is lost in water
+          if (!a.markedForDeletion && !a.embedded && waterAt(tipX, tipY)) {
+              a.markedForDeletion = true;
+              spawnParticles(tipX, tipY, '#93c5fd', 4, 0.8);
+          }
+      });
+      // A shot misses once, when its last arrow is gone and none of them hit
+      world.entities.arrows.forEach(a => {
+          const volley = a.volley;
+          if (!a.markedForDeletion || !volley) return;
+          if (a.hits.length > 0) volley.hit = true;
+          if (--volley.live === 0 && !volley.hit) emit(events, 'arrowMissed', { arrow: a });
+          a.volley = null;
+      });
+      compactPool(world.pools.arrows, a => a.markedForDeletion);
+      compactPool(world.pools.volleys, v => v.live === 0);
+      world.entities.cages = world.entities.cages.filter(c => !c.markedForDeletion);
+  };
+
+  // --- TRAPS ---
+  const springTrap = (t: TrapEntity, target: EnemyEntity | RabbitEntity) => {
+      t.state = 'SPRUNG';
+      t.snared = target.id;
+      if (target.type === EntityType.ENEMY) target.stunTimer = SNARE_STUN_TICKS;
+      else { target.state = 'CAUGHT'; target.vx = 0; target.vy = 0; }
+      emit(events, 'trapSprung', { trap: t, target });
+  };
+
+  const collectNet = (t: TrapEntity, player: PlayerEntity) => {
+      t.markedForDeletion = true;
+      player.nets++;
+      emit(events, 'pickupCollected', { kind: 'NET', entity: t, label: '+1 NET', color: '#e5e7eb', score: 0 });
+  };
+
+  // Nets fly until they hit a wolf or land. A landed net lies armed until
+  // something walks into it or the player picks it back up; a sprung one
+  // binds its catch until a wolf breaks free or the player collects a rabbit.
+  const updateNets = (player: PlayerEntity) => {
+      world.entities.traps.forEach(t => {
+          if (t.state === 'FLYING') {
+               t.rotation += 0.2;
+               if (isTopDown()) {
+                   t.x += t.vx; t.y += t.vy;
+                   t.vx *= NET_GROUND_DRAG; t.vy *= NET_GROUND_DRAG;
+                   if (Math.hypot(t.vx, t.vy) < 0.5) t.state = 'STUCK';
+               } else {
+                   t.vy += NET_GRAVITY;
+                   collide(t);
+                   if (waterAt(t.x + t.width / 2, t.y + t.height)) {
+                       t.markedForDeletion = true;
+                       spawnParticles(t.x + t.width / 2, t.y + t.height, '#93c5fd', 4, 0.8);
+                   } else if (t.grounded) t.state = 'STUCK';
+               }
+               if (t.y > bounds().height) t.markedForDeletion = true;
+               if (t.state === 'STUCK') { t.vx = 0; t.vy = 0; t.rotation = 0; }
+               // Reuses the enemy grid built for this tick's arrows
+               queryEntity(grids.enemies, t).forEach(e => {
+                   if (t.state === 'FLYING' && !t.markedForDeletion && checkCollision(t, e)) { t.markedForDeletion = true; e.stunTimer = Math.max(e.stunTimer, NET_STUN_TICKS); sound('hit'); spawnFloatingText(e.x, e.y - 10, "STUNNED!", "#facc15"); }
+               });
+          } else if (t.state === 'STUCK') {
+               t.timer++;
+               // Falls with a collapsing ledge
+               if (!isTopDown()) { t.vy += GRAVITY; collide(t); }
+               if (t.timer < TRAP_ARM_TICKS) return;
+               const wolf = queryEntity(grids.enemies, t).find(e => !e.markedForDeletion && checkCollision(t, e));
+               const rabbit = isTopDown() ? world.entities.rabbits.find(r => r.state === 'FLEE' && checkCollision(t, r)) : undefined;
+               const caught = wolf ?? rabbit;
+               if (caught) springTrap(t, caught);
+               else if (checkCollision(t, player)) collectNet(t, player);
+          } else {
+               const held = getEntity<EnemyEntity | RabbitEntity>(world.registry, t.snared);
+               if (!held) {
+                   // The catch was killed: the net drops where it was, to be picked up again
+                   t.state = 'STUCK'; t.snared = null; t.timer = 0;
+                   t.x += t.width / 2 - 8; t.y += t.height - 16; t.width = 16; t.height = 16;
+                   return;
+               }
+               if (held.type === EntityType.ENEMY && held.stunTimer <= 0) {
+                   // Torn apart by the wolf breaking free
+                   t.markedForDeletion = true;
+                   spawnParticles(t.x + t.width / 2, t.y + t.height / 2, '#e5e7eb', 8, 1.5);
+                   return;
+               }
+               // Wrapped around the catch
+               t.x = held.x - 2; t.y = held.y - 2; t.width = held.width + 4; t.height = held.height + 4;
+               if (held.type === EntityType.RABBIT && checkCollision(t, player)) {
+                   held.state = 'DEAD';
+                   held.markedForDeletion = true;
+                   collectNet(t, player);
+               }
+          }
+      });
+      world.entities.traps = world.entities.traps.filter(t => !t.markedForDeletion);
+  };
+
+  const updateParticles = () => {
+      world.entities.particles.forEach(p => {
+          p.lifeTime--;
+          if (p.lifeTime <= 0) p.markedForDeletion = true;
+          p.x += p.vx; p.y += p.vy; p.vy += 0.1;
+      });
+      compactPool(world.pools.particles, p => p.markedForDeletion);
+  };
+
+  const updatePowerUps = (player: PlayerEntity) => {
+      world.entities.powerups.forEach(p => {
+          if (isTopDown()) { p.y += p.vy; return; }
+          p.vy += GRAVITY;
+          collide(p);
+      });
+      rebuildSpatialHash(grids.powerups, world.entities.powerups);
+      queryEntity(grids.powerups, player).forEach(p => {
+          if (checkCollision(player, p)) {
+              const def = getPowerUpDefinition(p.kind);
+              p.markedForDeletion = true;
+              if (def) {
+                  grantPowerUp(player, def, p.timer);
+                  def.apply?.(player, p.timer, creatureContext(player, false));
+              }
+              emit(events, 'pickupCollected', { kind: p.kind, entity: p, label: def?.label ?? p.kind, color: def?.color ?? '#fff', score: 0 });
+          }
+      });
+      world.entities.powerups = world.entities.powerups.filter(p => !p.markedForDeletion);
+  };
+
+  const updateFloatingTexts = () => {
+      world.entities.floatingTexts.forEach(t => {
+          t.lifeTime--; t.y -= 1;
+          if (t.lifeTime <= 0) t.markedForDeletion = true;
+      });
+      compactPool(world.pools.floatingTexts, t => t.markedForDeletion);
+  };
+
+  // Advance the world by exactly one tick using the given controls
+  const step = (frame: InputFrame) => {
+    input = frame;
+    update();
+    pruneRegistry(world.registry);
+    input = EMPTY_INPUT;
+  };
+
+  const pause = () => {
+    if (world.state.status === GameStatus.PLAYING) world.state.status = GameStatus.PAUSED;
+  };
+
+  const resume = () => {
+    if (world.state.status === GameStatus.PAUSED) world.state.status = GameStatus.PLAYING;
+  };
+
+  const quitToMenu = () => {
+    clearTimers(world.scheduler);
+    levelFlowTask = null;
+    world.state.status = GameStatus.MENU;
+  };
+
+  return {
+    world, events, cheats, step, initGame, continueGame, snapshotRun, startLevel, spawnCreature, spawnEnemy, spawnCrow, givePowerUp, killAll,
+    bossExposed, pause, resume, quitToMenu, isTopDown, levels
+  };
+};
+
+export type Simulation = ReturnType<typeof createSimulation>;
+
+// Play a fresh run for `frames` ticks without any rendering, e.g. from a
+// balancing or regression script running under Node.
+export const runHeadless = (
+  frames: number,
+  options: {
+    seed?: number;
+    inputFor?: (tick: number, world: World) => InputFrame;
+    simulation?: SimulationOptions;
+  } = {}
+): World => {
+  const { seed = randomSeed(), inputFor = () => EMPTY_INPUT, simulation = {} } = options;
+  const sim = createSimulation(simulation);
+  sim.initGame(seed);
+  for (let tick = 0; tick < frames; tick++) sim.step(inputFor(tick, sim.world));
+  return sim.world;
+};
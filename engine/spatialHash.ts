@@ -0,0 +1,70 @@
+import { Entity } from '../types';
+
+// Uniform-grid broadphase. Entities are re-registered every tick with
+// rebuildSpatialHash(); queries return only those whose cells overlap the
+// searched area, which callers still confirm with an exact overlap test.
+// Results come back in registration order, so replacing a full array scan
+// with a query keeps side effects (and the RNG stream) in the same order.
+
+export const DEFAULT_CELL_SIZE = 64;
+
+// Cell coordinates are packed into one number; this keeps off-screen
+// spawns (negative coordinates) and far-away entities apart
+const CELL_OFFSET = 1 << 15;
+const cellKey = (cx: number, cy: number) => (cx + CELL_OFFSET) * (CELL_OFFSET * 2) + (cy + CELL_OFFSET);
+
+export interface SpatialHash<T extends Entity> {
+  cellSize: number;
+  cells: Map<number, T[]>;
+  order: Map<T, number>; // Registration index, used to sort query results
+  seen: Set<T>;          // Scratch set reused across queries
+}
+
+export const createSpatialHash = <T extends Entity>(cellSize = DEFAULT_CELL_SIZE): SpatialHash<T> =>
+  ({ cellSize, cells: new Map(), order: new Map(), seen: new Set() });
+
+export const clearSpatialHash = <T extends Entity>(hash: SpatialHash<T>) => {
+  hash.cells.clear();
+  hash.order.clear();
+};
+
+const forEachCell = (hash: SpatialHash<Entity>, x: number, y: number, width: number, height: number, fn: (key: number) => void) => {
+  const x0 = Math.floor(x / hash.cellSize), x1 = Math.floor((x + width) / hash.cellSize);
+  const y0 = Math.floor(y / hash.cellSize), y1 = Math.floor((y + height) / hash.cellSize);
+  for (let cx = x0; cx <= x1; cx++) {
+    for (let cy = y0; cy <= y1; cy++) fn(cellKey(cx, cy));
+  }
+};
+
+export const insertEntity = <T extends Entity>(hash: SpatialHash<T>, entity: T) => {
+  if (hash.order.has(entity)) return;
+  hash.order.set(entity, hash.order.size);
+  forEachCell(hash as SpatialHash<Entity>, entity.x, entity.y, entity.width, entity.height, key => {
+    const cell = hash.cells.get(key);
+    if (cell) cell.push(entity); else hash.cells.set(key, [entity]);
+  });
+};
+
+// Clears the hash and registers the live (not yet deleted) entities
+export const rebuildSpatialHash = <T extends Entity>(hash: SpatialHash<T>, entities: readonly T[]) => {
+  clearSpatialHash(hash);
+  entities.forEach(e => { if (!e.markedForDeletion) insertEntity(hash, e); });
+};
+
+// Candidates whose cells overlap the rectangle
+export const queryRect = <T extends Entity>(hash: SpatialHash<T>, x: number, y: number, width: number, height: number): T[] => {
+  const found: T[] = [];
+  hash.seen.clear();
+  forEachCell(hash as SpatialHash<Entity>, x, y, width, height, key => {
+    hash.cells.get(key)?.forEach(e => {
+      if (hash.seen.has(e)) return;
+      hash.seen.add(e);
+      found.push(e);
+    });
+  });
+  if (found.length > 1) found.sort((a, b) => hash.order.get(a)! - hash.order.get(b)!);
+  return found;
+};
+
+export const queryEntity = <T extends Entity>(hash: SpatialHash<T>, entity: Entity): T[] =>
+  queryRect(hash, entity.x, entity.y, entity.width, entity.height);
@@ -1,6 +1,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { loadBundledPlugins } from './utils/plugins';
+
+// Before the first render, so plugin levels and creatures exist when the game starts
+loadBundledPlugins();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -1,3 +1,5 @@
+import type { Rng } from './engine/random';
+
 export type Vector2 = { x: number; y: number };
 
 export enum EntityType {
@@ -11,7 +13,7 @@ export enum EntityType {
   FLOATING_TEXT,
   DOG,
   CAGE,
-  DUCK,
+  CREATURE, // Component-based animals, see CreatureEntity
   MEAT,
   POWERUP,
   CROW,
@@ -25,8 +27,11 @@ export enum EnemyTier {
   LARGE = 'LARGE'    
 }
 
+// Allocated by the simulation's registry (engine/registry.ts); unique within a run
+export type EntityId = number;
+
 export interface Entity {
-  id: number;
+  id: EntityId;
   type: EntityType;
   x: number;
   y: number;
@@ -38,8 +43,27 @@ export interface Entity {
   markedForDeletion: boolean;
 }
 
+// How a platform blocks movement, see engine/collision.ts
+// SOLID: blocks from every side. ONE_WAY: only landed on from above, can be dropped through.
+// SLOPE_UP / SLOPE_DOWN: walkable ramp rising to the right / left across the rectangle.
+export type PlatformKind = 'ONE_WAY' | 'SOLID' | 'SLOPE_UP' | 'SLOPE_DOWN';
+
+// How a platform behaves over time, independent of its collision shape
+// MOVING: follows a looping path, carrying whatever stands on it. CRUMBLING: collapses
+// shortly after being stood on, then grows back. BOUNCY: launches whatever lands on it.
+// SINKING: goes under once the flood reaches it.
+export type PlatformVariant = 'STATIC' | 'MOVING' | 'CRUMBLING' | 'BOUNCY' | 'SINKING';
+
 export interface PlatformEntity extends Entity {
   type: EntityType.PLATFORM;
+  kind: PlatformKind;
+  variant: PlatformVariant;
+  path: Vector2[];      // MOVING: waypoints for the top-left corner, starting with the spawn position
+  waypoint: number;     // MOVING: index of the waypoint being headed for
+  speed: number;        // MOVING: pixels per tick
+  crumbleTimer: number; // CRUMBLING: ticks until a stood-on log gives way, 0 while untouched
+  collapsed: boolean;   // CRUMBLING: fallen and not collidable until respawnTimer runs out
+  respawnTimer: number;
 }
 
 export interface DoorEntity extends Entity {
@@ -59,8 +83,8 @@ export interface MeatEntity extends Entity {
 
 export interface PowerUpEntity extends Entity {
   type: EntityType.POWERUP;
-  kind: 'TRIPLE_SHOT';
-  timer: number;
+  kind: string;  // A kind registered in engine/powerups.ts
+  timer: number; // Effect duration once collected
 }
 
 export interface FloatingTextEntity extends Entity {
@@ -71,13 +95,58 @@ export interface FloatingTextEntity extends Entity {
   opacity: number;
 }
 
-export interface DuckEntity extends Entity {
-  type: EntityType.DUCK;
-  state: 'SWIM' | 'FLY' | 'FALL' | 'DEAD' | 'CARRIED';
-  facingRight: boolean;
-  flightTimer: number;
-  flapTimer: number;
+// --- CREATURE COMPONENTS ---
+// A creature carries only the components it needs; the simulation runs one
+// system per component. Kinds are declared in engine/creatures.ts.
+
+export interface BodyComponent {
+  gravity: boolean;                  // Falls and lands on platforms (side view only)
+  bounds: 'CLAMP' | 'WRAP' | 'NONE'; // What happens at the screen edges
+}
+
+export interface HealthComponent {
+  current: number;
+  max: number;
+  score: number;         // Awarded when killed
+  countsAsKill: boolean; // Counts towards the level's kill goal
+}
+
+export interface BrainComponent {
+  behavior: string; // Key into the behavior table
+  state: string;    // Behavior-defined state label
+  timer: number;    // Ticks spent in the current state
+}
+
+export interface RenderableComponent {
+  sprite: string; // Key into the sprite table (utils/creatureSprites.ts)
   color: string;
+  facingRight: boolean;
+}
+
+export interface HostileComponent {
+  damage: number; // Health taken from the player on contact
+}
+
+export interface PickupComponent {
+  effect: 'HEAL' | 'SCORE';
+  amount: number;
+}
+
+// Game the dog fetches once it has been shot and come to rest
+export interface RetrieveComponent {
+  score: number; // Awarded when the dog brings it back to the player
+}
+
+export interface CreatureEntity extends Entity {
+  type: EntityType.CREATURE;
+  kind: string;
+  renderable: RenderableComponent;
+  body?: BodyComponent;
+  health?: HealthComponent; // Present while the creature can be shot
+  brain?: BrainComponent;
+  hostile?: HostileComponent;
+  pickup?: PickupComponent;
+  retrieve?: RetrieveComponent;
 }
 
 // Crow Entity Interface
@@ -97,6 +166,7 @@ export interface BushEntity extends Entity {
   type: EntityType.BUSH;
   hasRabbit: boolean;
   shakeTimer: number;
+  burnTimer: number; // Ticks left burning after a fire arrow; the bush is gone when it runs out
 }
 
 export interface RabbitEntity extends Entity {
@@ -116,12 +186,14 @@ export interface PlayerEntity extends Entity {
   aimAngle: number;
   isAiming: boolean;
   trapCooldown: number;
+  nets: number;      // Nets left to throw this level
   animTimer: number;
-  powerUpTimer: number;
+  powerUps: Record<string, number>; // Ticks left on each active power-up, see engine/powerups.ts
   // Dash mechanics
   dashTimer: number;       // Cooldown
   isDashing: boolean;      // Currently dashing?
   invulnerableTimer: number; // I-frames
+  dropTimer: number;       // Ticks left falling through one-way platforms
 }
 
 export interface DogEntity extends Entity {
@@ -129,7 +201,7 @@ export interface DogEntity extends Entity {
   facingRight: boolean;
   // Added CARRY state for retrieving rabbits
   state: 'IDLE' | 'FOLLOW' | 'CHASE' | 'ATTACK' | 'BRAWL' | 'RETRIEVE' | 'HEAL' | 'POINTING' | 'FLUSH' | 'CARRY'; 
-  target: Entity | null;
+  target: EntityId | null; // Handle; resolves to null once the target is gone
   barkTimer: number;
   tongueOut: boolean;
   animTimer: number;
@@ -144,18 +216,61 @@ export interface EnemyEntity extends Entity {
   maxHealth: number;
   stunTimer: number; 
   color: string;
+  boss?: BossComponent; // Only on the alpha wolf
+  pack?: PackComponent; // Every other wolf
+}
+
+// How a wolf is working its target. SMALL wolves nip and back off, MEDIUM
+// ones flank and circle before lunging, LARGE ones wind up and charge.
+export type PackTactic = 'APPROACH' | 'FLANK' | 'CIRCLE' | 'LUNGE' | 'BACK_OFF' | 'WIND_UP' | 'CHARGE' | 'RECOVER' | 'RETREAT';
+
+export interface PackComponent {
+  tactic: PackTactic;
+  timer: number;       // Ticks in the current tactic
+  side: -1 | 1;        // Side of the target it flanks from, or the way it charges
+  orbit: number;       // Angle around the target while circling, or the charge heading (top-down)
+  rallyTimer: number;  // Set by a packmate's howl: no more circling, straight in
+  howled: boolean;     // Wounded wolves howl once as they break off
+  facingRight: boolean;
+}
+
+// The alpha wolf's fight state. Its phase follows its health: the lower it
+// gets, the faster it leaps and the more often it howls for the pack.
+export interface BossComponent {
+  phase: 1 | 2 | 3;
+  state: 'STALK' | 'WIND_UP' | 'LEAP' | 'HOWL' | 'DYING' | 'DEAD';
+  timer: number;      // Ticks in the current state
+  howlTimer: number;  // Ticks since the last howl
+  pinTimer: number;   // Ticks the dog has held it down
+  facingRight: boolean;
+  killedBy: 'ARROW' | 'DOG' | 'DEBUG';
 }
 
 export interface ArrowEntity extends Entity {
   type: EntityType.ARROW;
   rotation: number;
   lifeTime: number;
+  embedded: boolean; // Stuck in a wall or the ground until its lifetime runs out
+  pierce: number;    // Further targets it can pass through
+  fire: boolean;     // Ignites bushes and hits harder
+  hits: EntityId[];  // Targets already hit, so a piercing arrow damages each once
+  volley: ArrowVolley | null; // Shared by the arrows of one shot
+}
+
+// One pull of the trigger, however many arrows a power-up splits it into
+export interface ArrowVolley {
+  live: number; // Arrows of the shot still in the world
+  hit: boolean;
 }
 
+// A thrown net. Once it lands it stays armed on the ground (STUCK) until
+// something walks into it (SPRUNG) or the player picks it back up.
 export interface TrapEntity extends Entity {
   type: EntityType.TRAP; 
   rotation: number;
-  state: 'FLYING' | 'STUCK'; 
+  state: 'FLYING' | 'STUCK' | 'SPRUNG'; 
+  timer: number;            // Ticks since landing
+  snared: EntityId | null;  // What a sprung trap is holding
 }
 
 export interface ParticleEntity extends Entity {
@@ -170,7 +285,8 @@ export enum GameStatus {
   PLAYING,
   LEVEL_TRANSITION,
   GAME_OVER,
-  VICTORY
+  VICTORY,
+  PAUSED
 }
 
 export interface GameState {
@@ -185,4 +301,172 @@ export interface GameState {
   isRaining: boolean; 
   lightningTimer: number;
   floodLevel: number; // New property for Level 4
-}
\ No newline at end of file
+  hunt: HuntTally;    // Shooting record for the current level
+  seed: number;       // Seed the run was started from
+  rng: Rng;           // Gameplay random stream, advanced only by the simulation
+}
+
+// Per-level shooting record. Levels with game to retrieve (the duck marsh) are
+// rated on it when completed, see engine/hunt.ts.
+export interface HuntTally {
+  total: number;     // Retrievable game placed in the level
+  retrieved: number;
+  escaped: number;
+  missed: number;    // Arrows that hit nothing
+  rating: HuntRating | null; // Set when a rated level is completed
+}
+
+export interface HuntRating {
+  grade: 'A' | 'B' | 'C' | 'D';
+  bonus: number;
+}
+
+// Tallies for the end-of-run screens, kept by an event subscriber
+export interface RunStats {
+  wolvesKilled: number;
+  crowsKilled: number;
+  creaturesKilled: number;
+  rabbitsRetrieved: number;
+  gameRetrieved: number;   // Shot birds the dog brought back
+  snares: number;          // Wolves and rabbits caught in placed traps
+  bossesDefeated: number;
+  pickups: number;
+  damageTaken: number;
+}
+
+export interface RainDrop {
+  x: number;
+  y: number;
+  speed: number;
+  length: number;
+}
+
+// Every live entity of the current level, grouped by kind
+export interface GameEntities {
+  player: PlayerEntity | null;
+  enemies: EnemyEntity[];
+  crows: CrowEntity[];
+  arrows: ArrowEntity[];
+  traps: TrapEntity[];
+  particles: ParticleEntity[];
+  platforms: PlatformEntity[];
+  door: DoorEntity | null;
+  cages: CageEntity[];
+  dog: DogEntity | null;
+  creatures: CreatureEntity[];
+  meats: MeatEntity[];
+  powerups: PowerUpEntity[];
+  floatingTexts: FloatingTextEntity[];
+  rainDrops: RainDrop[];
+  bushes: BushEntity[];
+  rabbits: RabbitEntity[];
+}
+
+export interface StickInput {
+  active: boolean;
+  x: number;
+  y: number;
+}
+
+// Snapshot of the player's controls for a single simulation tick
+export interface InputFrame {
+  keys: ReadonlySet<string>;
+  mouse: { x: number; y: number; leftDown: boolean };
+  touch: {
+    leftStick: StickInput;
+    rightStick: StickInput;
+    trapBtnPressed: boolean;
+    whistleBtnPressed: boolean;
+    dashBtnPressed: boolean;
+  };
+  fire: boolean; // One-shot fire (mouse click / right stick release)
+  restartLevel?: boolean; // One-shot "restart level" from the pause menu
+}
+
+// Progress needed to resume a run at the start of a level
+export interface RunSnapshot {
+  seed: number;
+  level: number;
+  score: number;
+  lives: number;
+  dogRescued: boolean;
+  powerUps: Record<string, number>; // Active power-ups carried into the level
+}
+
+// Player preferences; presentation only, never read by the simulation
+export interface Settings {
+  sound: boolean;
+  screenShake: boolean;
+  touchControls: boolean;
+}
+
+// --- LEVEL DEFINITIONS (levels/*.json) ---
+
+export type LevelMode = 'SIDE' | 'TOPDOWN';
+
+export interface LevelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LevelPlatform extends LevelRect {
+  kind: PlatformKind;       // Optional in level files, defaults to ONE_WAY
+  variant: PlatformVariant; // Optional in level files, defaults to STATIC
+  path?: Vector2[];         // MOVING: further waypoints after x,y; the platform loops back to x,y
+  speed?: number;           // MOVING: pixels per tick
+}
+
+export interface EnemySpawnTable {
+  interval: number;                     // Ticks between spawns
+  max: number;                          // Cap on wolves alive at once
+  tiers: Record<EnemyTier, number>;     // Relative spawn weights
+}
+
+export interface CrowSpawnTable {
+  interval: number;
+  max: number;
+}
+
+export interface FloodSettings {
+  riseRate: number;        // Pixels per tick
+  damage: number;          // Health lost per drowning hit
+  damageInterval: number;  // Ticks between drowning hits
+}
+
+export interface PowerUpDropTable {
+  chance: number;                  // 0..1 per wolf kill
+  weights: Record<string, number>; // Relative weight per power-up kind; missing kinds never drop
+}
+
+export interface CreaturePlacement {
+  kind: string;            // A kind registered in engine/creatures.ts
+  x: number;
+  y: number;
+  facingRight?: boolean;
+}
+
+export interface LevelDefinition {
+  name: string;
+  mode: LevelMode;
+  killGoal?: number;       // Wolves (side view) or rabbits (top-down) needed to open the door; boss levels have no door to open
+  size?: { width: number; height: number }; // World bounds; defaults to one screen
+  weather: { rain: boolean };
+  flood?: FloodSettings;
+  playerSpawn: Vector2;
+  dogSpawn: Vector2;
+  provideDog?: boolean;    // Give the player a dog even if it was never rescued
+  door: Vector2;
+  platforms: LevelPlatform[];
+  cages: { x: number; y: number; health: number }[]; // Only placed while the dog is still captive
+  bushes: { x: number; y: number; rabbit: boolean }[];
+  randomBushes?: number;   // Extra rabbit bushes scattered with the run's seed
+  creatures?: CreaturePlacement[];
+  water?: LevelRect[];     // Still water; the top edge is the surface, swimmers float at it
+  nets?: number;           // Nets the player gets for the level, defaults to NETS_PER_LEVEL
+  boss?: { x: number; y: number; health: number }; // An alpha wolf; the level ends when it falls instead of at the door
+  powerUps?: PowerUpDropTable; // Defaults to POWERUP_DROP_CHANCE and each kind's own weight
+  enemies: EnemySpawnTable | null;
+  crows: CrowSpawnTable | null;
+}
@@ -1,6 +1,24 @@
 let ctx: AudioContext | null = null;
 
-export const playSound = (type: 'shoot' | 'jump' | 'hit' | 'coin' | 'explosion' | 'win' | 'bark' | 'break' | 'whistle' | 'quack' | 'splash') => {
+export type SoundType = 'shoot' | 'jump' | 'hit' | 'coin' | 'explosion' | 'win' | 'bark' | 'break' | 'whistle' | 'quack' | 'splash' | 'howl';
+
+// Built-in sounds plus any added with defineSound
+export type SoundName = SoundType | (string & {});
+
+// Sounds added at runtime (e.g. by plugins): one oscillator sweeping between two pitches
+export interface SoundDefinition {
+  wave: OscillatorType;
+  from: number;     // Start frequency (Hz)
+  to: number;       // End frequency (Hz)
+  duration: number; // Seconds
+  volume: number;   // 0..1
+}
+
+const customSounds = new Map<string, SoundDefinition>();
+
+export const defineSound = (name: string, def: SoundDefinition) => { customSounds.set(name, def); };
+
+export const playSound = (type: SoundName) => {
   // Lazy init to prevent crashes on mobile if context is created before user interaction
   if (!ctx) {
     try {
@@ -122,6 +140,17 @@ export const playSound = (type: 'shoot' | 'jump' | 'hit' | 'coin' | 'explosion'
       osc.start(now);
       osc.stop(now + 0.15);
       break;
+    case 'howl':
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(300, now);
+      osc.frequency.linearRampToValueAtTime(620, now + 0.5);
+      osc.frequency.linearRampToValueAtTime(380, now + 1.4);
+      gain.gain.setValueAtTime(0.01, now);
+      gain.gain.linearRampToValueAtTime(0.2, now + 0.3);
+      gain.gain.exponentialRampToValueAtTime(0.01, now + 1.4);
+      osc.start(now);
+      osc.stop(now + 1.4);
+      break;
     case 'splash':
       // White noise approximation for splash
       const bufferSize = ctx.sampleRate * 0.2; // 0.2 seconds
@@ -139,5 +168,16 @@ export const playSound = (type: 'shoot' | 'jump' | 'hit' | 'coin' | 'explosion'
       noiseGain.connect(ctx.destination);
       noise.start(now);
       break;
+    default: {
+      const custom = customSounds.get(type);
+      if (!custom) break;
+      osc.type = custom.wave;
+      osc.frequency.setValueAtTime(custom.from, now);
+      osc.frequency.linearRampToValueAtTime(custom.to, now + custom.duration);
+      gain.gain.setValueAtTime(custom.volume, now);
+      gain.gain.linearRampToValueAtTime(0, now + custom.duration);
+      osc.start(now);
+      osc.stop(now + custom.duration);
+    }
   }
 };
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { CreatureEntity } from '../types';
+
+// Canvas sprites for creatures, keyed by RenderableComponent.sprite. Each
+// sprite draws around the creature's center, facing right; drawCreature
+// handles placement and flipping. Unknown sprites fall back to a plain box.
+
+export type CreatureSprite = (ctx: CanvasRenderingContext2D, creature: CreatureEntity, frame: number) => void;
+
+const sprites = new Map<string, CreatureSprite>();
+
+export const defineSprite = (name: string, sprite: CreatureSprite) => { sprites.set(name, sprite); };
+
+const drawBox: CreatureSprite = (ctx, c) => {
+  ctx.fillStyle = c.renderable.color;
+  ctx.fillRect(-c.width / 2, -c.height / 2, c.width, c.height);
+};
+
+export const drawCreature = (ctx: CanvasRenderingContext2D, creature: CreatureEntity, frame: number) => {
+  ctx.save();
+  ctx.translate(creature.x + creature.width / 2, creature.y + creature.height / 2);
+  if (!creature.renderable.facingRight) ctx.scale(-1, 1);
+  (sprites.get(creature.renderable.sprite) ?? drawBox)(ctx, creature, frame);
+  ctx.restore();
+};
+
+// --- BUILT-IN SPRITES ---
+
+defineSprite('duck', (ctx, c, frame) => {
+  const state = c.brain?.state;
+  const flying = state === 'FLY';
+  const dead = state === 'FALL' || state === 'DEAD' || state === 'CARRIED';
+  const bob = flying || dead ? 0 : Math.sin(frame * 0.1) * 1.5;
+  if (dead) ctx.scale(1, -1); // Belly up
+  ctx.fillStyle = '#78350f'; ctx.fillRect(-12, -2 + bob, 20, 10);  // Body
+  ctx.fillStyle = c.renderable.color; ctx.fillRect(4, -10 + bob, 8, 8); // Head
+  ctx.fillStyle = '#facc15'; ctx.fillRect(12, -7 + bob, 5, 3);      // Bill
+  ctx.fillStyle = '#fff'; ctx.fillRect(4, -2 + bob, 8, 2);           // Collar
+  ctx.fillStyle = '#000'; ctx.fillRect(8, -8 + bob, 2, 2);           // Eye
+  if (flying) {
+    // Wings beat up and down
+    const beat = Math.sin(frame * 0.6) * 8;
+    ctx.fillStyle = '#a8a29e';
+    ctx.beginPath(); ctx.moveTo(-8, 0); ctx.lineTo(2, 0); ctx.lineTo(-4, -beat); ctx.closePath(); ctx.fill();
+  }
+});
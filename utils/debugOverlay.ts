@@ -0,0 +1,107 @@
+import { Entity, EntityType, Vector2 } from '../types';
+import { CANVAS_WIDTH } from '../engine/constants';
+import { levelSize } from '../engine/levels';
+import { getEntity } from '../engine/registry';
+import { World, forEachEntity } from '../engine/simulation';
+
+// Developer overlay drawn over the game: hitboxes, AI state and timings.
+// Purely a view of the world; toggling it never changes the simulation.
+
+export interface FrameTimings {
+  fps: number;
+  updateMs: number; // Simulation ticks run this frame
+  drawMs: number;
+}
+
+// Smoothed so the readout stays legible
+const SMOOTHING = 0.1;
+
+export const createFrameTimings = (): FrameTimings => ({ fps: 0, updateMs: 0, drawMs: 0 });
+
+export const recordTimings = (t: FrameTimings, frameMs: number, updateMs: number, drawMs: number) => {
+  if (frameMs > 0) t.fps += (1000 / frameMs - t.fps) * SMOOTHING;
+  t.updateMs += (updateMs - t.updateMs) * SMOOTHING;
+  t.drawMs += (drawMs - t.drawMs) * SMOOTHING;
+};
+
+const HITBOX_COLORS: Partial<Record<EntityType, string>> = {
+  [EntityType.PLAYER]: '#22c55e',
+  [EntityType.DOG]: '#fbbf24',
+  [EntityType.ENEMY]: '#ef4444',
+  [EntityType.CROW]: '#f97316',
+  [EntityType.CREATURE]: '#a3e635',
+  [EntityType.ARROW]: '#e5e7eb',
+  [EntityType.TRAP]: '#facc15',
+  [EntityType.PLATFORM]: '#60a5fa',
+  [EntityType.DOOR]: '#c084fc',
+  [EntityType.CAGE]: '#c084fc',
+  [EntityType.BUSH]: '#4ade80',
+  [EntityType.RABBIT]: '#f9a8d4',
+  [EntityType.MEAT]: '#f87171',
+  [EntityType.POWERUP]: '#a855f7'
+};
+
+const label = (ctx: CanvasRenderingContext2D, e: Entity, text: string, color: string) => {
+  ctx.fillStyle = color;
+  ctx.fillText(text, e.x + e.width / 2, e.y - 4);
+};
+
+export const drawDebugOverlay = (ctx: CanvasRenderingContext2D, world: World, view: Vector2, timings: FrameTimings) => {
+  const { entities, state } = world;
+  ctx.save();
+  ctx.translate(-Math.round(view.x), -Math.round(view.y));
+  ctx.lineWidth = 1;
+  ctx.font = '10px monospace';
+  ctx.textAlign = 'center';
+
+  // Particles and floating texts have no gameplay footprint
+  let count = 0;
+  forEachEntity(entities, e => {
+    count++;
+    const color = HITBOX_COLORS[e.type];
+    if (!color) return;
+    ctx.strokeStyle = color;
+    ctx.strokeRect(e.x + 0.5, e.y + 0.5, e.width, e.height);
+  });
+
+  entities.enemies.forEach(e => { if (e.stunTimer > 0) label(ctx, e, `stun ${e.stunTimer}`, '#facc15'); });
+
+  const dog = entities.dog;
+  if (dog) {
+    label(ctx, dog, dog.state, '#fbbf24');
+    const target = getEntity(world.registry, dog.target);
+    if (target) {
+      ctx.strokeStyle = '#fbbf24';
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(dog.x + dog.width / 2, dog.y + dog.height / 2);
+      ctx.lineTo(target.x + target.width / 2, target.y + target.height / 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+  }
+
+  if (state.floodLevel > 0) {
+    const { width, height } = levelSize(world.level);
+    const waterY = height - state.floodLevel;
+    ctx.strokeStyle = '#38bdf8';
+    ctx.beginPath(); ctx.moveTo(0, waterY); ctx.lineTo(width, waterY); ctx.stroke();
+    ctx.textAlign = 'right'; ctx.fillStyle = '#38bdf8';
+    ctx.fillText(`flood ${state.floodLevel.toFixed(1)}`, view.x + CANVAS_WIDTH - 8, waterY - 4);
+  }
+  ctx.restore();
+
+  // Stats panel, top right below the HUD
+  ctx.save();
+  const lines = [
+    `fps ${timings.fps.toFixed(0)}  update ${timings.updateMs.toFixed(2)}ms  draw ${timings.drawMs.toFixed(2)}ms`,
+    `entities ${count}  enemies ${entities.enemies.length}  crows ${entities.crows.length}  creatures ${entities.creatures.length}`,
+    `arrows ${entities.arrows.length}  traps ${entities.traps.length}  particles ${entities.particles.length}  tick ${world.engine.frameCount}`,
+    `camera ${world.camera.x.toFixed(0)},${world.camera.y.toFixed(0)}  level ${levelSize(world.level).width}x${levelSize(world.level).height}`
+  ];
+  ctx.font = '12px monospace'; ctx.textAlign = 'left';
+  ctx.fillStyle = 'rgba(0,0,0,0.6)'; ctx.fillRect(CANVAS_WIDTH - 488, 60, 480, lines.length * 16 + 8);
+  ctx.fillStyle = '#a3e635';
+  lines.forEach((line, i) => ctx.fillText(line, CANVAS_WIDTH - 482, 76 + i * 16));
+  ctx.restore();
+};
@@ -0,0 +1,78 @@
+// Developer console, drawn over the bottom of the canvas. It only collects
+// and parses lines; the commands themselves are supplied by the caller, which
+// knows about the simulation and the run being played.
+
+const MAX_LOG = 8;
+const MAX_LENGTH = 60;
+const LINE_HEIGHT = 16;
+
+export interface DevConsole {
+  open: boolean;
+  text: string;
+  log: string[];     // Echoed input and command output, oldest first
+  history: string[]; // Submitted lines, oldest first
+  recall: number;    // Index into history while browsing with up/down, history.length otherwise
+}
+
+export interface ConsoleCommand {
+  usage: string;
+  // Returns the line to print; throwing prints the error message instead
+  run: (args: string[]) => string;
+}
+
+export const createDevConsole = (): DevConsole => ({ open: false, text: '', log: [], history: [], recall: 0 });
+
+export const printLine = (dev: DevConsole, line: string) => {
+  dev.log.push(line);
+  if (dev.log.length > MAX_LOG) dev.log.shift();
+};
+
+export const toggleConsole = (dev: DevConsole) => {
+  dev.open = !dev.open;
+  dev.text = '';
+  dev.recall = dev.history.length;
+};
+
+// Edits the input line; returns the submitted line on Enter, otherwise null
+export const handleConsoleKey = (dev: DevConsole, e: KeyboardEvent): string | null => {
+  if (e.code === 'Enter') {
+    const line = dev.text.trim();
+    dev.text = '';
+    if (line) dev.history.push(line);
+    dev.recall = dev.history.length;
+    return line || null;
+  }
+  if (e.code === 'Escape') toggleConsole(dev);
+  else if (e.code === 'Backspace') dev.text = dev.text.slice(0, -1);
+  else if (e.code === 'ArrowUp' || e.code === 'ArrowDown') {
+    dev.recall = Math.max(0, Math.min(dev.history.length, dev.recall + (e.code === 'ArrowUp' ? -1 : 1)));
+    dev.text = dev.history[dev.recall] ?? '';
+  } else if (e.key.length === 1 && dev.text.length < MAX_LENGTH) dev.text += e.key;
+  return null;
+};
+
+// Echoes the line and runs the command named by its first word
+export const runCommand = (dev: DevConsole, line: string, commands: Record<string, ConsoleCommand>) => {
+  printLine(dev, `> ${line}`);
+  const [name, ...args] = line.split(/\s+/);
+  const command = commands[name.toLowerCase()];
+  if (!command) {
+    printLine(dev, `Unknown command. Try: ${Object.keys(commands).join(', ')}`);
+    return;
+  }
+  try {
+    printLine(dev, command.run(args));
+  } catch (err) {
+    printLine(dev, `${(err as Error).message} (usage: ${command.usage})`);
+  }
+};
+
+export const drawDevConsole = (ctx: CanvasRenderingContext2D, dev: DevConsole, width: number, height: number) => {
+  const top = height - (MAX_LOG + 1) * LINE_HEIGHT - 12;
+  ctx.fillStyle = 'rgba(0,0,0,0.8)'; ctx.fillRect(0, top, width, height - top);
+  ctx.textAlign = 'left'; ctx.font = '13px monospace';
+  ctx.fillStyle = '#d1d5db';
+  dev.log.forEach((line, i) => ctx.fillText(line, 10, top + 18 + i * LINE_HEIGHT));
+  ctx.fillStyle = '#facc15';
+  ctx.fillText(`] ${dev.text}_`, 10, height - 10);
+};
@@ -0,0 +1,25 @@
+// Browser helpers for exporting/importing game data as local files
+
+export const downloadJson = (filename: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Opens the native file picker; resolves with the file's text, or null if cancelled
+export const pickTextFile = (accept: string): Promise<string | null> => new Promise(resolve => {
+  const picker = document.createElement('input');
+  picker.type = 'file';
+  picker.accept = accept;
+  picker.onchange = () => {
+    const file = picker.files?.[0];
+    if (!file) { resolve(null); return; }
+    file.text().then(resolve, () => resolve(null));
+  };
+  picker.oncancel = () => resolve(null);
+  picker.click();
+});
@@ -0,0 +1,31 @@
+// Standard-mapping gamepad buttons used by the menus
+export const PAD_A = 0;
+export const PAD_B = 1;
+export const PAD_X = 2;
+export const PAD_Y = 3;
+export const PAD_START = 9;
+export const PAD_UP = 12;
+export const PAD_DOWN = 13;
+export const PAD_LEFT = 14;
+export const PAD_RIGHT = 15;
+
+// Edge-detects button presses across all connected pads. Call once per
+// animation frame; returns the buttons that went down since the last call.
+export const createGamepadPoller = () => {
+  let held = new Set<number>();
+  return (): Set<number> => {
+    const pressed = new Set<number>();
+    const now = new Set<number>();
+    const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+    for (const pad of pads) {
+      if (!pad) continue;
+      pad.buttons.forEach((button, i) => {
+        if (!button.pressed) return;
+        now.add(i);
+        if (!held.has(i)) pressed.add(i);
+      });
+    }
+    held = now;
+    return pressed;
+  };
+};
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { HighScoreEntry, MAX_HIGH_SCORES, addHighScore, loadHighScores, qualifiesForHighScore, rankOf } from './highScores';
+
+const store = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => { store.set(key, value); }
+});
+
+const entry = (initials: string, score: number): HighScoreEntry => ({
+  initials, score, level: 3, date: '2024-01-01', seed: 1, difficulty: 'NORMAL'
+});
+
+// Ten entries scoring 1000, 900, ... 100
+const fillTable = () => {
+  for (let i = 0; i < MAX_HIGH_SCORES; i++) addHighScore(entry(`P${i}`, (MAX_HIGH_SCORES - i) * 100));
+};
+
+describe('high scores', () => {
+  beforeEach(() => store.clear());
+
+  it('inserts into a full table and drops the lowest entry', () => {
+    fillTable();
+    expect(addHighScore(entry('NEW', 550))).toBe(5);
+    const scores = loadHighScores();
+    expect(scores).toHaveLength(MAX_HIGH_SCORES);
+    expect(scores[5].initials).toBe('NEW');
+    expect(scores.map(e => e.score)).toEqual([1000, 900, 800, 700, 600, 550, 500, 400, 300, 200]);
+  });
+
+  it('puts a tie below the existing score', () => {
+    fillTable();
+    expect(addHighScore(entry('TIE', 500))).toBe(6);
+    expect(loadHighScores()[5].initials).toBe('P5');
+  });
+
+  it('turns away a score that does not make the cut', () => {
+    fillTable();
+    expect(qualifiesForHighScore(loadHighScores(), 100)).toBe(false);
+    expect(addHighScore(entry('LOW', 100))).toBe(-1);
+    expect(loadHighScores().map(e => e.initials)).not.toContain('LOW');
+  });
+
+  it('ranks tied scores together', () => {
+    [300, 200, 200, 100].forEach((score, i) => addHighScore(entry(`P${i}`, score)));
+    const scores = loadHighScores();
+    expect(scores.map((_, i) => rankOf(scores, i))).toEqual([1, 2, 2, 4]);
+  });
+});
@@ -0,0 +1,51 @@
+import { loadJson, saveJson } from './storage';
+
+// Local top-10 table. Entries are kept sorted by score; an entry that ties an
+// existing score goes below it, so whoever got there first keeps the spot.
+
+const HIGH_SCORES_KEY = 'hunter-highscores';
+const HIGH_SCORES_VERSION = 1;
+export const MAX_HIGH_SCORES = 10;
+
+export interface HighScoreEntry {
+  initials: string;
+  score: number;
+  level: number;      // Level reached
+  date: string;       // YYYY-MM-DD
+  seed: number;
+  difficulty: string;
+}
+
+const isEntry = (v: unknown): v is HighScoreEntry => {
+  if (typeof v !== 'object' || v === null) return false;
+  const e = v as Record<string, unknown>;
+  return typeof e.initials === 'string' && typeof e.score === 'number' && typeof e.level === 'number' &&
+    typeof e.date === 'string' && typeof e.seed === 'number' && typeof e.difficulty === 'string';
+};
+
+// Invalid entries are dropped rather than failing the whole table
+export const loadHighScores = (): HighScoreEntry[] => {
+  const raw = loadJson(HIGH_SCORES_KEY) as { version?: unknown; entries?: unknown } | null;
+  if (!raw || raw.version !== HIGH_SCORES_VERSION || !Array.isArray(raw.entries)) return [];
+  return raw.entries.filter(isEntry)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_HIGH_SCORES);
+};
+
+export const qualifiesForHighScore = (scores: HighScoreEntry[], score: number) =>
+  score > 0 && (scores.length < MAX_HIGH_SCORES || score > scores[scores.length - 1].score);
+
+// Inserts the entry and saves the capped table; returns its index, or -1 if it didn't make the cut
+export const addHighScore = (entry: HighScoreEntry): number => {
+  const scores = loadHighScores();
+  let index = scores.findIndex(e => e.score < entry.score);
+  if (index === -1) index = scores.length;
+  if (index >= MAX_HIGH_SCORES) return -1;
+  scores.splice(index, 0, entry);
+  saveJson(HIGH_SCORES_KEY, { version: HIGH_SCORES_VERSION, entries: scores.slice(0, MAX_HIGH_SCORES) });
+  return index;
+};
+
+// Competition ranking: tied scores share a rank ("1, 2, 2, 4")
+export const rankOf = (scores: HighScoreEntry[], index: number) =>
+  scores.findIndex(e => e.score === scores[index].score) + 1;
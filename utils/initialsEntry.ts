@@ -0,0 +1,75 @@
+// Arcade-style three-letter initials picker, drawn on the canvas. Letters are
+// cycled with up/down (keys, d-pad or the arrows above and below each slot)
+// or typed directly; as with menu.ts, drawing and hit-testing share geometry.
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const SLOTS = 3;
+const SLOT_GAP = 70;
+const ARROW_OFFSET = 50; // Vertical distance of the arrows from the slot center
+const ARROW_HIT_RADIUS = 25;
+const OK_WIDTH = 140;
+const OK_HEIGHT = 44;
+const OK_OFFSET = 110;
+
+export interface InitialsEntry {
+  letters: number[]; // Indexes into ALPHABET
+  cursor: number;
+}
+
+export const createInitialsEntry = (): InitialsEntry => ({ letters: Array(SLOTS).fill(0), cursor: 0 });
+
+export const initialsText = (entry: InitialsEntry) => entry.letters.map(l => ALPHABET[l]).join('');
+
+export const cycleLetter = (entry: InitialsEntry, delta: number, slot = entry.cursor) => {
+  entry.letters[slot] = (entry.letters[slot] + delta + ALPHABET.length) % ALPHABET.length;
+  entry.cursor = slot;
+};
+
+export const moveCursor = (entry: InitialsEntry, delta: number) => {
+  entry.cursor = Math.max(0, Math.min(SLOTS - 1, entry.cursor + delta));
+};
+
+// Sets the current slot from a typed key and advances; false if it isn't a letter
+export const typeLetter = (entry: InitialsEntry, key: string): boolean => {
+  const index = ALPHABET.indexOf(key.toUpperCase());
+  if (key.length !== 1 || index === -1) return false;
+  entry.letters[entry.cursor] = index;
+  moveCursor(entry, 1);
+  return true;
+};
+
+export const isLastSlot = (entry: InitialsEntry) => entry.cursor === SLOTS - 1;
+
+const slotX = (slot: number, centerX: number) => centerX + (slot - (SLOTS - 1) / 2) * SLOT_GAP;
+
+export const drawInitialsEntry = (ctx: CanvasRenderingContext2D, entry: InitialsEntry, centerX: number, centerY: number) => {
+  ctx.textAlign = 'center';
+  ctx.font = '48px monospace';
+  for (let slot = 0; slot < SLOTS; slot++) {
+    const x = slotX(slot, centerX);
+    const active = slot === entry.cursor;
+    ctx.fillStyle = active ? '#facc15' : '#fff';
+    ctx.fillText(ALPHABET[entry.letters[slot]], x, centerY + 16);
+    ctx.fillRect(x - 20, centerY + 26, 40, active ? 4 : 2);
+    // Up / down arrows
+    ctx.fillStyle = active ? '#facc15' : '#6b7280';
+    ctx.beginPath(); ctx.moveTo(x - 12, centerY - ARROW_OFFSET + 8); ctx.lineTo(x + 12, centerY - ARROW_OFFSET + 8); ctx.lineTo(x, centerY - ARROW_OFFSET - 8); ctx.fill();
+    ctx.beginPath(); ctx.moveTo(x - 12, centerY + ARROW_OFFSET + 2); ctx.lineTo(x + 12, centerY + ARROW_OFFSET + 2); ctx.lineTo(x, centerY + ARROW_OFFSET + 18); ctx.fill();
+  }
+  ctx.fillStyle = '#22c55e';
+  ctx.fillRect(centerX - OK_WIDTH / 2, centerY + OK_OFFSET - OK_HEIGHT / 2, OK_WIDTH, OK_HEIGHT);
+  ctx.fillStyle = '#000'; ctx.font = '22px monospace';
+  ctx.fillText('OK', centerX, centerY + OK_OFFSET + 8);
+};
+
+export type InitialsHit = { kind: 'UP' | 'DOWN'; slot: number } | { kind: 'OK' } | null;
+
+export const initialsHitAt = (x: number, y: number, centerX: number, centerY: number): InitialsHit => {
+  if (Math.abs(x - centerX) < OK_WIDTH / 2 && Math.abs(y - (centerY + OK_OFFSET)) < OK_HEIGHT / 2) return { kind: 'OK' };
+  for (let slot = 0; slot < SLOTS; slot++) {
+    const sx = slotX(slot, centerX);
+    if (Math.hypot(x - sx, y - (centerY - ARROW_OFFSET)) < ARROW_HIT_RADIUS) return { kind: 'UP', slot };
+    if (Math.hypot(x - sx, y - (centerY + ARROW_OFFSET + 10)) < ARROW_HIT_RADIUS) return { kind: 'DOWN', slot };
+  }
+  return null;
+};
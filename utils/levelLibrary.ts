@@ -0,0 +1,43 @@
+import { LevelDefinition } from '../types';
+import { parseLevel } from '../engine/levels';
+import { loadJson, saveJson } from './storage';
+
+// Custom levels made in the editor, kept in localStorage by name. Entries go
+// through the same loader as the built-in levels, so a corrupt or outdated
+// entry is dropped instead of breaking the editor.
+
+const LIBRARY_KEY = 'hunter-levels';
+const DRAFT_KEY = 'hunter-editor-draft';
+
+export const loadLibrary = (): LevelDefinition[] => {
+  const raw = loadJson(LIBRARY_KEY);
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry, i) => {
+    try {
+      return [parseLevel(entry, `saved level #${i + 1}`)];
+    } catch {
+      return [];
+    }
+  });
+};
+
+// Adds the level, replacing any saved level with the same name
+export const saveToLibrary = (level: LevelDefinition): boolean =>
+  saveJson(LIBRARY_KEY, [...loadLibrary().filter(l => l.name !== level.name), level]);
+
+export const deleteFromLibrary = (name: string): boolean =>
+  saveJson(LIBRARY_KEY, loadLibrary().filter(l => l.name !== name));
+
+// The level currently open in the editor. Saved on every change so leaving
+// for a playtest or reloading the page loses nothing.
+export const loadDraft = (): LevelDefinition | null => {
+  const raw = loadJson(DRAFT_KEY);
+  if (raw === null) return null;
+  try {
+    return parseLevel(raw, 'editor draft');
+  } catch {
+    return null;
+  }
+};
+
+export const saveDraft = (level: LevelDefinition) => saveJson(DRAFT_KEY, level);
@@ -0,0 +1,49 @@
+// Canvas-drawn vertical menus (pause menu, settings...). Items are laid out
+// around a center point; the same geometry is used for drawing and hit-testing
+// so mouse, touch, keyboard and gamepad all select the same rows.
+
+export interface MenuItem {
+  label: string;
+  action: () => void;
+}
+
+const ITEM_WIDTH = 320;
+const ITEM_HEIGHT = 44;
+const ITEM_GAP = 12;
+
+const itemTop = (index: number, count: number, centerY: number) =>
+  centerY - (count * (ITEM_HEIGHT + ITEM_GAP) - ITEM_GAP) / 2 + index * (ITEM_HEIGHT + ITEM_GAP);
+
+export const drawMenu = (
+  ctx: CanvasRenderingContext2D,
+  title: string,
+  items: MenuItem[],
+  selected: number,
+  centerX: number,
+  centerY: number
+) => {
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#fff'; ctx.font = '40px monospace';
+  ctx.fillText(title, centerX, itemTop(0, items.length, centerY) - 30);
+  ctx.font = '20px monospace';
+  items.forEach((item, i) => {
+    const top = itemTop(i, items.length, centerY);
+    const active = i === selected;
+    ctx.fillStyle = active ? '#facc15' : 'rgba(255,255,255,0.1)';
+    ctx.fillRect(centerX - ITEM_WIDTH / 2, top, ITEM_WIDTH, ITEM_HEIGHT);
+    ctx.fillStyle = active ? '#000' : '#fff';
+    ctx.fillText(item.label, centerX, top + ITEM_HEIGHT / 2 + 7);
+  });
+};
+
+// Index of the item under (x, y), or -1
+export const menuItemAt = (x: number, y: number, count: number, centerX: number, centerY: number): number => {
+  if (Math.abs(x - centerX) > ITEM_WIDTH / 2) return -1;
+  for (let i = 0; i < count; i++) {
+    const top = itemTop(i, count, centerY);
+    if (y >= top && y <= top + ITEM_HEIGHT) return i;
+  }
+  return -1;
+};
+
+export const moveSelection = (selected: number, delta: number, count: number) => (selected + delta + count) % count;
@@ -0,0 +1,83 @@
+import { LevelPlatform, LevelRect } from '../types';
+
+// Platform drawing shared by the game and the level editor, so each kind
+// reads the same in both: one-way ledges are a thin plank with a grass top,
+// solid blocks are filled stone, slopes are ramps with grass along the
+// walking surface. Variants get their own dressing on top of the shape.
+// Still water is drawn here too, over whatever swims in it.
+
+// Runtime state of a crumbling log; the editor draws platforms without it
+interface CrumbleState {
+  crumbleTimer?: number;
+  collapsed?: boolean;
+}
+
+const drawMushroom = (ctx: CanvasRenderingContext2D, p: LevelPlatform) => {
+  const cx = p.x + p.width / 2;
+  ctx.fillStyle = '#fef3c7';
+  ctx.fillRect(cx - p.width / 6, p.y + p.height / 2, p.width / 3, p.height / 2);
+  ctx.fillStyle = '#dc2626';
+  ctx.beginPath(); ctx.ellipse(cx, p.y + p.height / 2, p.width / 2, p.height / 2, 0, Math.PI, 0); ctx.fill();
+  ctx.fillStyle = '#fff';
+  [-0.25, 0, 0.25].forEach((t, i) => {
+    ctx.beginPath(); ctx.arc(cx + t * p.width, p.y + p.height * (i === 1 ? 0.15 : 0.3), 3, 0, Math.PI * 2); ctx.fill();
+  });
+};
+
+const drawLog = (ctx: CanvasRenderingContext2D, p: LevelPlatform) => {
+  ctx.fillStyle = '#78350f'; ctx.fillRect(p.x, p.y, p.width, p.height);
+  ctx.strokeStyle = '#451a03'; ctx.lineWidth = 1;
+  for (let y = p.y + 5; y < p.y + p.height; y += 5) { ctx.beginPath(); ctx.moveTo(p.x, y); ctx.lineTo(p.x + p.width, y); ctx.stroke(); }
+  ctx.fillStyle = '#a16207';
+  ctx.beginPath(); ctx.ellipse(p.x + p.width, p.y + p.height / 2, 3, p.height / 2, 0, 0, Math.PI * 2); ctx.fill();
+};
+
+const drawRaft = (ctx: CanvasRenderingContext2D, p: LevelPlatform) => {
+  ctx.fillStyle = '#a16207'; ctx.fillRect(p.x, p.y, p.width, p.height);
+  ctx.strokeStyle = '#713f12'; ctx.lineWidth = 1;
+  for (let x = p.x + 12; x < p.x + p.width; x += 12) { ctx.beginPath(); ctx.moveTo(x, p.y); ctx.lineTo(x, p.y + p.height); ctx.stroke(); }
+};
+
+export const drawPlatform = (ctx: CanvasRenderingContext2D, p: LevelPlatform & CrumbleState, topDown: boolean) => {
+  if (p.collapsed) {
+    // Outline of where the log grows back
+    ctx.strokeStyle = 'rgba(120,53,15,0.5)'; ctx.setLineDash([4, 4]);
+    ctx.strokeRect(p.x, p.y, p.width, p.height);
+    ctx.setLineDash([]);
+    return;
+  }
+  if (p.variant === 'BOUNCY') return drawMushroom(ctx, p);
+  if (p.variant === 'CRUMBLING') {
+    // Shakes while giving way
+    const shake = p.crumbleTimer ? Math.sin(p.crumbleTimer * 2) * 1.5 : 0;
+    return drawLog(ctx, { ...p, x: p.x + shake });
+  }
+  if (p.variant === 'SINKING') return drawRaft(ctx, p);
+
+  const grass = topDown ? '#84cc16' : '#15803d';
+  if (p.kind === 'SLOPE_UP' || p.kind === 'SLOPE_DOWN') {
+    const [highX, lowX] = p.kind === 'SLOPE_UP' ? [p.x + p.width, p.x] : [p.x, p.x + p.width];
+    ctx.fillStyle = '#1e293b';
+    ctx.beginPath(); ctx.moveTo(lowX, p.y + p.height); ctx.lineTo(highX, p.y); ctx.lineTo(highX, p.y + p.height); ctx.closePath(); ctx.fill();
+    ctx.strokeStyle = grass; ctx.lineWidth = 5;
+    ctx.beginPath(); ctx.moveTo(lowX, p.y + p.height); ctx.lineTo(highX, p.y); ctx.stroke();
+    ctx.lineWidth = 1;
+    return;
+  }
+  ctx.fillStyle = p.kind === 'SOLID' ? '#44403c' : (topDown ? '#57534e' : '#1e293b');
+  ctx.fillRect(p.x, p.y, p.width, p.height);
+  if (p.kind === 'SOLID') { ctx.strokeStyle = '#292524'; ctx.lineWidth = 2; ctx.strokeRect(p.x + 1, p.y + 1, p.width - 2, p.height - 2); ctx.lineWidth = 1; }
+  // Moving ledges are trimmed in metal instead of grass
+  ctx.fillStyle = p.variant === 'MOVING' ? '#94a3b8' : grass; ctx.fillRect(p.x, p.y, p.width, 5);
+};
+
+// Translucent, so the submerged half of a swimmer shows through
+export const drawWater = (ctx: CanvasRenderingContext2D, w: LevelRect, frame: number) => {
+  ctx.fillStyle = 'rgba(37, 99, 235, 0.45)';
+  ctx.fillRect(w.x, w.y, w.width, w.height);
+  ctx.fillStyle = '#60a5fa';
+  ctx.fillRect(w.x, w.y, w.width, 3);
+  // Ripples drift along the surface
+  ctx.fillStyle = 'rgba(255,255,255,0.6)';
+  for (let x = w.x + (frame / 2) % 60; x < w.x + w.width - 16; x += 60) ctx.fillRect(x, w.y + 6, 16, 2);
+};
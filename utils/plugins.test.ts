@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Plugin, campaignLevels, installPlugin } from './plugins';
+import { getCreatureDefinition } from '../engine/creatures';
+import { BUILTIN_LEVELS } from '../engine/levels';
+
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+const fox = { kind: 'FOX', width: 28, height: 16, sprite: 'fox', color: '#ea580c' };
+const level = BUILTIN_LEVELS[0];
+
+const install = (setup: Plugin['setup']) => installPlugin({ default: { name: 'test', setup } }, 'test.js');
+
+describe('plugins', () => {
+  it('registers content once setup returns', () => {
+    const plugin = install(api => {
+      api.defineCreature({ ...fox, kind: 'FOX_OK' });
+      api.addLevel(level);
+    });
+    expect(plugin.error).toBeNull();
+    expect(getCreatureDefinition('FOX_OK')).not.toBeNull();
+    expect(campaignLevels()).toHaveLength(BUILTIN_LEVELS.length + 1);
+  });
+
+  it('installs nothing from a plugin whose setup throws', () => {
+    const before = campaignLevels().length;
+    const plugin = install(api => {
+      api.defineCreature({ ...fox, kind: 'FOX_THROWN' });
+      api.addLevel(level);
+      throw new Error('boom');
+    });
+    expect(plugin.error).toBe('boom');
+    expect(getCreatureDefinition('FOX_THROWN')).toBeNull();
+    expect(campaignLevels()).toHaveLength(before);
+  });
+
+  it('rejects invalid creature and sound definitions', () => {
+    const creature = install(api => api.defineCreature({ ...fox, kind: 'FOX_BAD', width: -1 }));
+    expect(creature.error).toMatch(/width/);
+    expect(getCreatureDefinition('FOX_BAD')).toBeNull();
+
+    const sound = install(api => api.defineSound('yip', { wave: 'square', from: 900, to: 500, duration: 0.12, volume: 5 }));
+    expect(sound.error).toMatch(/volume/);
+  });
+});
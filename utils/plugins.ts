@@ -0,0 +1,200 @@
+/// <reference types="vite/client" />
+import { LevelDefinition } from '../types';
+import { Behavior, CreatureDefinition, defineBehavior, defineCreature } from '../engine/creatures';
+import { PowerUpDefinition, definePowerUp } from '../engine/powerups';
+import { BUILTIN_LEVELS, parseLevel } from '../engine/levels';
+import { AnyEventListener, EventListener, GameEventType } from '../engine/events';
+import { CreatureSprite, defineSprite } from './creatureSprites';
+import { SoundDefinition, defineSound } from './audio';
+import { pickTextFile } from './files';
+
+// Plugins add content without touching the game code: creatures with their
+// behaviors and sprites, power-ups, sounds, levels (appended to the
+// campaign) and listeners for gameplay events. They are ES modules whose
+// default export is a Plugin, loaded from the plugins/ folder at startup or
+// picked from disk on the title screen.
+//
+// Every hook a plugin registers runs inside a guard: the first exception
+// disables the whole plugin (its hooks become no-ops) instead of reaching
+// the game loop. A replay only plays back correctly with the same plugins.
+
+export interface PluginApi {
+  defineCreature: (def: CreatureDefinition) => void;
+  defineBehavior: (name: string, behavior: Behavior) => void;
+  defineSprite: (name: string, sprite: CreatureSprite) => void;
+  definePowerUp: (def: PowerUpDefinition) => void;
+  defineSound: (name: string, def: SoundDefinition) => void;
+  addLevel: (raw: unknown) => void; // Validated like the built-in level files
+  on: <K extends GameEventType>(type: K, listener: EventListener<K>) => void; // See GameEvents in engine/events.ts
+}
+
+export interface Plugin {
+  name: string;
+  setup: (api: PluginApi) => void;
+}
+
+export interface LoadedPlugin {
+  name: string;
+  error: string | null; // Set once the plugin has been disabled
+}
+
+const loaded: LoadedPlugin[] = [];
+const pluginLevels: LevelDefinition[] = [];
+const listeners: AnyEventListener[] = [];
+
+export const loadedPlugins = (): readonly LoadedPlugin[] => loaded;
+
+// Built-in levels followed by the ones added by plugins
+export const campaignLevels = () => [...BUILTIN_LEVELS, ...pluginLevels];
+
+// Subscribe this to the simulation's event bus with onAny()
+export const emitPluginEvent: AnyEventListener = (type, event) => listeners.forEach(listener => listener(type, event));
+
+const disable = (plugin: LoadedPlugin, err: unknown) => {
+  if (plugin.error) return;
+  plugin.error = err instanceof Error ? err.message : String(err);
+  console.warn(`Plugin "${plugin.name}" disabled:`, err);
+};
+
+// Wraps a plugin callback; once the plugin has failed it returns `fallback` without running
+const guard = <A extends unknown[], R>(plugin: LoadedPlugin, fn: (...args: A) => R, fallback: R) => (...args: A): R => {
+  if (plugin.error) return fallback;
+  try {
+    return fn(...args);
+  } catch (err) {
+    disable(plugin, err);
+    return fallback;
+  }
+};
+
+// --- Definition checks ---
+// Plugin definitions are untrusted like level files: a bad one throws from
+// setup (disabling the plugin) instead of breaking the game when it is used.
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown, min = -Infinity): v is number => typeof v === 'number' && Number.isFinite(v) && v >= min;
+const isName = (v: unknown): v is string => typeof v === 'string' && v.trim() !== '';
+
+const WAVES: OscillatorType[] = ['sine', 'square', 'sawtooth', 'triangle'];
+
+const invalid = (what: string, problems: string[]) => {
+  if (problems.length > 0) throw new Error(`Invalid ${what}: ${problems.join(', ')}`);
+};
+
+const checkCreature = (def: CreatureDefinition) => {
+  if (!isObject(def)) throw new Error('Invalid creature: definition must be an object');
+  const problems: string[] = [];
+  if (!isName(def.kind)) problems.push('kind must be a non-empty string');
+  if (!isNumber(def.width, 1)) problems.push('width must be a number of at least 1');
+  if (!isNumber(def.height, 1)) problems.push('height must be a number of at least 1');
+  if (typeof def.sprite !== 'string') problems.push('sprite must be a string');
+  if (typeof def.color !== 'string') problems.push('color must be a string');
+  if (def.body !== undefined && (!isObject(def.body) || typeof def.body.gravity !== 'boolean' || !['CLAMP', 'WRAP', 'NONE'].includes(def.body.bounds))) {
+    problems.push('body must have a boolean gravity and bounds CLAMP, WRAP or NONE');
+  }
+  if (def.health !== undefined && (!isObject(def.health) || !isNumber(def.health.max, 1) || !isNumber(def.health.score) || typeof def.health.countsAsKill !== 'boolean')) {
+    problems.push('health must have max (at least 1), score and a boolean countsAsKill');
+  }
+  if (def.behavior !== undefined && typeof def.behavior !== 'string') problems.push('behavior must be a string');
+  if (def.initialState !== undefined && typeof def.initialState !== 'string') problems.push('initialState must be a string');
+  if (def.hostile !== undefined && (!isObject(def.hostile) || !isNumber(def.hostile.damage, 0))) problems.push('hostile.damage must be a number of at least 0');
+  if (def.pickup !== undefined && (!isObject(def.pickup) || !['HEAL', 'SCORE'].includes(def.pickup.effect) || !isNumber(def.pickup.amount))) {
+    problems.push('pickup must have effect HEAL or SCORE and a numeric amount');
+  }
+  if (def.retrieve !== undefined && (!isObject(def.retrieve) || !isNumber(def.retrieve.score))) problems.push('retrieve.score must be a number');
+  invalid(`creature "${String(def.kind)}"`, problems);
+};
+
+const checkSound = (name: string, def: SoundDefinition) => {
+  if (!isObject(def)) throw new Error(`Invalid sound "${name}": definition must be an object`);
+  const problems: string[] = [];
+  if (!isName(name)) problems.push('name must be a non-empty string');
+  if (!WAVES.includes(def.wave)) problems.push(`wave must be one of ${WAVES.join(', ')}`);
+  if (!isNumber(def.from, 1)) problems.push('from must be a frequency of at least 1');
+  if (!isNumber(def.to, 1)) problems.push('to must be a frequency of at least 1');
+  if (!isNumber(def.duration, 0) || def.duration === 0) problems.push('duration must be a positive number');
+  if (!isNumber(def.volume, 0) || def.volume > 1) problems.push('volume must be between 0 and 1');
+  invalid(`sound "${name}"`, problems);
+};
+
+// Registrations made during setup are staged and only applied once setup has
+// returned, so a plugin that throws halfway leaves nothing half-installed.
+const createApi = (plugin: LoadedPlugin, staged: (() => void)[]): PluginApi => {
+  const levels: LevelDefinition[] = [];
+  return {
+    defineCreature: def => {
+      checkCreature(def);
+      const copy = { ...def };
+      staged.push(() => defineCreature(copy));
+    },
+    defineBehavior: (name, behavior) => {
+      const guarded: Behavior = {
+        update: guard(plugin, behavior.update, undefined),
+        onKilled: behavior.onKilled && guard(plugin, behavior.onKilled, undefined)
+      };
+      staged.push(() => defineBehavior(name, guarded));
+    },
+    defineSprite: (name, sprite) => {
+      const guarded = guard(plugin, sprite, undefined);
+      staged.push(() => defineSprite(name, guarded));
+    },
+    definePowerUp: def => {
+      const copy = { ...def, apply: def.apply && guard(plugin, def.apply, undefined) };
+      staged.push(() => definePowerUp(copy));
+    },
+    defineSound: (name, def) => {
+      checkSound(name, def);
+      const copy = { ...def };
+      staged.push(() => defineSound(name, copy));
+    },
+    addLevel: raw => {
+      const level = parseLevel(raw, `${plugin.name} level ${levels.length + 1}`);
+      levels.push(level);
+      staged.push(() => { pluginLevels.push(level); });
+    },
+    on: (type, listener) => {
+      const guarded = guard(plugin, listener, undefined);
+      staged.push(() => listeners.push((t: GameEventType, event: unknown) => { if (t === type) guarded(event as Parameters<typeof listener>[0]); }));
+    }
+  };
+};
+
+const isPlugin = (v: unknown): v is Plugin =>
+  typeof v === 'object' && v !== null && typeof (v as Plugin).name === 'string' && typeof (v as Plugin).setup === 'function';
+
+export const installPlugin = (module: unknown, source: string): LoadedPlugin => {
+  const exported = (module as { default?: unknown } | null)?.default;
+  const plugin: LoadedPlugin = { name: isPlugin(exported) ? exported.name : source, error: null };
+  loaded.push(plugin);
+  if (!isPlugin(exported)) {
+    disable(plugin, new Error(`${source} has no default export with a name and a setup function`));
+    return plugin;
+  }
+  const staged: (() => void)[] = [];
+  guard(plugin, exported.setup, undefined)(createApi(plugin, staged));
+  if (!plugin.error) staged.forEach(register => register());
+  return plugin;
+};
+
+// Plugins shipped in the plugins/ folder, bundled with the game
+export const loadBundledPlugins = () => {
+  const modules = import.meta.glob('../plugins/*.{ts,js}', { eager: true });
+  Object.entries(modules).forEach(([path, module]) => installPlugin(module, path));
+};
+
+// Lets the player pick a plugin file; resolves with it, or null if cancelled
+export const pickPlugin = async (): Promise<LoadedPlugin | null> => {
+  const text = await pickTextFile('.js,.mjs,text/javascript');
+  if (text === null) return null;
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/javascript' }));
+  try {
+    return installPlugin(await import(/* @vite-ignore */ url), 'picked plugin');
+  } catch (err) {
+    const plugin: LoadedPlugin = { name: 'picked plugin', error: null };
+    loaded.push(plugin);
+    disable(plugin, err);
+    return plugin;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
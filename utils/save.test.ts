@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS, SAVE_VERSION, loadSave } from './save';
+
+const SAVE_KEY = 'hunter-save';
+
+const store = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => { store.set(key, value); }
+});
+
+const storeSave = (version: number, run: Record<string, unknown>) => {
+  store.set(SAVE_KEY, JSON.stringify({ version, savedAt: '2024-01-01T00:00:00.000Z', run, settings: { sound: false } }));
+};
+
+const run = (level: number) => ({ seed: 42, level, score: 1200, lives: 2, dogRescued: true });
+
+describe('loadSave', () => {
+  beforeEach(() => store.clear());
+
+  it('falls back to an empty save when nothing is stored', () => {
+    const save = loadSave();
+    expect(save.version).toBe(SAVE_VERSION);
+    expect(save.run).toBeNull();
+    expect(save.settings).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('turns a v1 triple-shot timer into the per-kind power-up timers', () => {
+    storeSave(1, { ...run(3), powerUpTimer: 300 });
+    expect(loadSave().run).toEqual({ ...run(3), powerUps: { TRIPLE_SHOT: 300 } });
+    storeSave(1, { ...run(3), powerUpTimer: 0 });
+    expect(loadSave().run).toEqual({ ...run(3), powerUps: {} });
+  });
+
+  it('leaves runs on the level they were saved on', () => {
+    storeSave(1, { ...run(5), powerUpTimer: 0 });
+    expect(loadSave().run?.level).toBe(5);
+    storeSave(2, { ...run(4), powerUps: {} });
+    expect(loadSave().run?.level).toBe(4);
+    storeSave(2, { ...run(5), powerUps: { SHIELD: 120 } });
+    expect(loadSave().run).toEqual({ ...run(5), powerUps: { SHIELD: 120 } });
+  });
+
+  it('keeps stored settings over the defaults one by one', () => {
+    storeSave(2, { ...run(1), powerUps: {} });
+    expect(loadSave().settings).toEqual({ ...DEFAULT_SETTINGS, sound: false });
+  });
+
+  it('drops saves from a newer build and unreadable runs', () => {
+    storeSave(SAVE_VERSION + 1, { ...run(2), powerUps: {} });
+    expect(loadSave().run).toBeNull();
+    storeSave(2, { ...run(2), lives: 0, powerUps: {} });
+    expect(loadSave().run).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { RunSnapshot, Settings } from '../types';
+import { loadJson, saveJson } from './storage';
+
+// Save game in localStorage. The file carries a schema version; older saves
+// are upgraded step by step through MIGRATIONS before being validated, and
+// anything unreadable falls back to defaults instead of crashing the menu.
+
+const SAVE_KEY = 'hunter-save';
+export const SAVE_VERSION = 2;
+
+export interface SaveGame {
+  version: number;
+  savedAt: string;       // ISO timestamp
+  run: RunSnapshot | null; // Run to offer on "Continue"; null once it has ended
+  settings: Settings;
+}
+
+export const DEFAULT_SETTINGS: Settings = { sound: true, screenShake: true, touchControls: true };
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isCount = (v: unknown, min: number): v is number => typeof v === 'number' && Number.isInteger(v) && v >= min;
+
+// MIGRATIONS[n] turns a version n + 1 save into version n + 2. When the
+// schema changes, bump SAVE_VERSION and append the upgrade step here.
+const MIGRATIONS: ((save: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // 1 -> 2: the single triple-shot timer became a timer per power-up kind
+  save => {
+    if (!isObject(save.run)) return save;
+    const { powerUpTimer, ...run } = save.run;
+    const powerUps = typeof powerUpTimer === 'number' && powerUpTimer > 0 ? { TRIPLE_SHOT: powerUpTimer } : {};
+    return { ...save, run: { ...run, powerUps } };
+  }
+];
+
+const readRun = (raw: unknown): RunSnapshot | null => {
+  if (!isObject(raw)) return null;
+  const { seed, level, score, lives, dogRescued, powerUps } = raw;
+  if (!isCount(seed, 0) || !isCount(level, 1) || !isCount(score, 0) || !isCount(lives, 1)) return null;
+  if (typeof dogRescued !== 'boolean' || !isObject(powerUps) || !Object.values(powerUps).every(t => isCount(t, 1))) return null;
+  return { seed, level, score, lives, dogRescued, powerUps: powerUps as Record<string, number> };
+};
+
+// Unknown or missing settings keep their defaults one by one
+const readSettings = (raw: unknown): Settings => {
+  const settings = { ...DEFAULT_SETTINGS };
+  if (!isObject(raw)) return settings;
+  (Object.keys(settings) as (keyof Settings)[]).forEach(key => {
+    if (typeof raw[key] === 'boolean') settings[key] = raw[key] as boolean;
+  });
+  return settings;
+};
+
+export const emptySave = (): SaveGame => ({
+  version: SAVE_VERSION, savedAt: new Date().toISOString(), run: null, settings: { ...DEFAULT_SETTINGS }
+});
+
+export const loadSave = (): SaveGame => {
+  const stored = loadJson(SAVE_KEY);
+  if (!isObject(stored) || !isCount(stored.version, 1) || stored.version > SAVE_VERSION) return emptySave();
+  let raw = stored;
+  try {
+    for (let v = stored.version; v < SAVE_VERSION; v++) raw = MIGRATIONS[v - 1](raw);
+  } catch {
+    return emptySave();
+  }
+  return {
+    version: SAVE_VERSION,
+    savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date(0).toISOString(),
+    run: readRun(raw.run),
+    settings: readSettings(raw.settings)
+  };
+};
+
+export const writeSave = (run: RunSnapshot | null, settings: Settings): boolean =>
+  saveJson(SAVE_KEY, { version: SAVE_VERSION, savedAt: new Date().toISOString(), run, settings });
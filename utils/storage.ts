@@ -0,0 +1,20 @@
+// localStorage wrappers. Storage can be full, disabled (private mode) or hold
+// data from an older build, so reads and writes never throw.
+
+export const loadJson = (key: string): unknown => {
+  try {
+    const text = localStorage.getItem(key);
+    return text === null ? null : JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+export const saveJson = (key: string, data: unknown): boolean => {
+  try {
+    localStorage.setItem(key, JSON.stringify(data));
+    return true;
+  } catch {
+    return false;
+  }
+};